@@ -13,6 +13,8 @@ import ModelDisplayScreen from './screens/testing/ModelDisplayScreen';
 import WaveTestScreen from './screens/testing/WaveTestScreen';
 import NatalChartScreen from './screens/NatalChartScreen';
 import AddEventScreen from './screens/AddEventScreen';
+import AspectSettingsScreen from './screens/AspectSettingsScreen';
+import SynastryScreen from './screens/SynastryScreen';
 import CubeRenderScreen from './screens/testing/CubeRenderScreen';
 import CubeAnimationScreen from './screens/testing/CubeAnimationScreen';
 import PlanetTextureScreen from './screens/testing/PlanetTextureScreen';
@@ -31,6 +33,8 @@ const screens = {
     WaveTest: WaveTestScreen,
     NatalChart: NatalChartScreen,
     AddEvent: AddEventScreen,
+    AspectSettings: AspectSettingsScreen,
+    Synastry: SynastryScreen,
     CubeRender: CubeRenderScreen,
     CubeAnimation: CubeAnimationScreen,
     PlanetTexture: PlanetTextureScreen,
@@ -51,8 +55,12 @@ export default function App() {
         const initializeData = async () => {
             try {
                 console.log('Initializing planet data service...');
-                await PlanetDataService.initializeDataStore();
-                console.log('Planet data service initialized successfully');
+                const failedBodies = await PlanetDataService.initializeDataStore();
+                if (failedBodies.length > 0) {
+                    console.warn('Planet data service initialized without:', failedBodies.map(body => body.name).join(', '));
+                } else {
+                    console.log('Planet data service initialized successfully');
+                }
             } catch (error) {
                 console.error('Failed to initialize planet data service:', error);
             }
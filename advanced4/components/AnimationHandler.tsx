@@ -3,17 +3,18 @@
  *
  * This component manages the complete animation lifecycle for planetary orbits:
  * - Calculates interpolated positions between dates for smooth motion
+ *   (between sub-daily samples for fast bodies such as the Moon)
  * - Controls animation timing and synchronization
  * - Transforms heliocentric coordinates to geocentric visualization
  * - Manages Earth texture state changes for special effects
  * - Provides position data to child components and external subscribers
  */
 
-import React, {useState, useRef, useEffect, useCallback} from 'react';
+import React, {useState, useRef, useEffect, useCallback, useMemo} from 'react';
 import {useFrame} from '@react-three/fiber/native';
 import CelestialBody from './CelestialBody';
 import * as THREE from 'three';
-import {PlanetDataByDate, CelestialBodyConfig} from '../types';
+import {PlanetData, PlanetDataByDate, CelestialBodyConfig, SubDailyPlanetData} from '../types';
 import {
     calculateCelestialPosition,
     transformToGeocentricVisualization
@@ -45,6 +46,7 @@ interface AnimationHandlerProps {
     animationDuration: number;        // Duration in seconds
     onDateChange: (date: Date) => void; // Callback for current date updates
     planetDataByDate: PlanetDataByDate; // Orbital data for all planets by date
+    subDailyData?: SubDailyPlanetData; // Sub-daily orbital samples of fast bodies by name
     celestialBodies: CelestialBodyConfig[]; // Configuration for visual representation
     isAnimationActive: boolean;       // Whether animation is currently running
     setIsAnimationActive: React.Dispatch<React.SetStateAction<boolean>>;
@@ -65,6 +67,7 @@ const AnimationHandler: React.FC<AnimationHandlerProps> = ({
                                                                animationDuration,
                                                                onDateChange,
                                                                planetDataByDate,
+                                                               subDailyData,
                                                                celestialBodies,
                                                                isAnimationActive,
                                                                setIsAnimationActive,
@@ -125,6 +128,63 @@ const AnimationHandler: React.FC<AnimationHandlerProps> = ({
         }
     }, [isBrainAnimationFinished, earthTextureState]);
 
+    /**
+     * Sub-daily samples of each fast body sorted by time for interpolation lookups
+     */
+    const sortedSubDailySamples = useMemo(() => {
+        const result: { [bodyName: string]: { time: number; data: PlanetData }[] } = {};
+        if (!subDailyData) return result;
+        for (const [bodyName, samples] of Object.entries(subDailyData)) {
+            result[bodyName] = Object.entries(samples)
+                .map(([time, data]) => ({time: new Date(time).getTime(), data}))
+                .sort((a, b) => a.time - b.time);
+        }
+        return result;
+    }, [subDailyData]);
+
+    /**
+     * Calculates a position interpolated between the sub-daily samples surrounding a moment
+     *
+     * @param bodyName Name of the celestial body
+     * @param exactDate Precise date and time for interpolation
+     * @returns Interpolated 3D position or null if the moment is not covered by samples
+     */
+    const calculateSubDailyPosition = useCallback((
+        bodyName: string,
+        exactDate: Date
+    ): { x: number; y: number; z: number } | null => {
+        const samples = sortedSubDailySamples[bodyName];
+        if (!samples || samples.length === 0) return null;
+
+        const time = exactDate.getTime();
+        if (time < samples[0].time || time > samples[samples.length - 1].time) return null;
+
+        // Binary search for the last sample at or before the moment
+        let low = 0;
+        let high = samples.length - 1;
+        while (low < high) {
+            const mid = Math.ceil((low + high) / 2);
+            if (samples[mid].time <= time) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+
+        const before = samples[low];
+        const after = samples[Math.min(low + 1, samples.length - 1)];
+        const beforePos = calculateCelestialPosition(before.data);
+        if (after === before) return beforePos;
+
+        const afterPos = calculateCelestialPosition(after.data);
+        const progress = (time - before.time) / (after.time - before.time);
+        return {
+            x: beforePos.x + (afterPos.x - beforePos.x) * progress,
+            y: beforePos.y + (afterPos.y - beforePos.y) * progress,
+            z: beforePos.z + (afterPos.z - beforePos.z) * progress
+        };
+    }, [sortedSubDailySamples]);
+
     /**
      * Calculates smoothly interpolated planet position between daily data points
      * Provides sub-day precision for animations
@@ -260,10 +320,11 @@ const AnimationHandler: React.FC<AnimationHandlerProps> = ({
 
             // 3. Calculate positions for ALL celestial bodies using the same transformation
             celestialBodies.forEach((body, index) => {
-                // Get planet position (or use Earth's position for Earth)
+                // Get planet position (or use Earth's position for Earth),
+                // preferring sub-daily samples when the body has them
                 const planetResult = index === earthIndex
                     ? earthOriginalPosition
-                    : calculateInterpolatedPosition(index, exactDate);
+                    : calculateSubDailyPosition(body.name, exactDate) ?? calculateInterpolatedPosition(index, exactDate);
 
                 // Transform ALL bodies using the same function
                 // This function already handles special cases for Earth and Sun
@@ -365,6 +426,7 @@ const AnimationHandler: React.FC<AnimationHandlerProps> = ({
                     position={allPlanetPositions[body.name] || {x: 0, y: 0, z: 0}}
                     color={body.color}
                     size={body.size}
+                    textureKey={body.textureKey}
                     isAnimationActive={isAnimationActive}
                     changeTexture={body.name === 'Earth' ? earthTextureState : undefined}
                     selectedPlanet={selectedPlanet}
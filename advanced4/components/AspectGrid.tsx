@@ -0,0 +1,120 @@
+/**
+ * A triangular grid of the aspects between the bodies of a natal chart.
+ * Each cell shows the aspect glyph, its orb and whether it was applying (a) or separating (s);
+ * positive aspects are drawn in green and negative ones in red. Wide grids scroll horizontally.
+ */
+
+import React, {useMemo} from 'react';
+import {View, Text, StyleSheet, ScrollView} from 'react-native';
+import {NatalAspect} from '../types';
+import {getAspectDefinition, getAspectInfluence} from '../utils/aspects';
+import {getBodyGlyph} from '../utils/bodies';
+
+interface AspectGridProps {
+    bodies: string[];
+    aspects: NatalAspect[];
+}
+
+// Width and height of a grid cell
+const CELL_SIZE = 36;
+
+const AspectGrid: React.FC<AspectGridProps> = ({bodies, aspects}) => {
+    // Aspects keyed by both orders of their body pair
+    const aspectByPair = useMemo(() => {
+        const map = new Map<string, NatalAspect>();
+        aspects.forEach((aspect) => {
+            map.set(`${aspect.firstBody}|${aspect.secondBody}`, aspect);
+            map.set(`${aspect.secondBody}|${aspect.firstBody}`, aspect);
+        });
+        return map;
+    }, [aspects]);
+
+    if (bodies.length < 2) return null;
+
+    return (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <View>
+                {bodies.slice(1).map((rowBody, rowIndex) => (
+                    <View key={rowBody} style={styles.row}>
+                        {bodies.slice(0, rowIndex + 1).map((columnBody) => {
+                            const aspect = aspectByPair.get(`${rowBody}|${columnBody}`);
+                            return (
+                                <View key={columnBody} style={styles.cell}>
+                                    {aspect && (
+                                        <>
+                                            <Text
+                                                style={[
+                                                    styles.glyph,
+                                                    getAspectInfluence(aspect.aspectType) === 'positive'
+                                                        ? styles.positive
+                                                        : styles.negative,
+                                                ]}
+                                            >
+                                                {getAspectDefinition(aspect.aspectType)?.glyph ?? '?'}
+                                            </Text>
+                                            <Text style={styles.orb}>
+                                                {`${aspect.orb.toFixed(1)}${aspect.phase ? aspect.phase.charAt(0) : ''}`}
+                                            </Text>
+                                        </>
+                                    )}
+                                </View>
+                            );
+                        })}
+                        <View style={styles.labelCell}>
+                            <Text style={styles.label}>{getBodyGlyph(rowBody)}</Text>
+                        </View>
+                    </View>
+                ))}
+                {/* Column labels along the bottom edge */}
+                <View style={styles.row}>
+                    {bodies.slice(0, -1).map((columnBody) => (
+                        <View key={columnBody} style={styles.labelCell}>
+                            <Text style={styles.label}>{getBodyGlyph(columnBody)}</Text>
+                        </View>
+                    ))}
+                </View>
+            </View>
+        </ScrollView>
+    );
+};
+
+const styles = StyleSheet.create({
+    row: {
+        flexDirection: 'row',
+    },
+    cell: {
+        width: CELL_SIZE,
+        height: CELL_SIZE,
+        borderWidth: StyleSheet.hairlineWidth,
+        borderColor: '#CCCCCC',
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    labelCell: {
+        width: CELL_SIZE,
+        height: CELL_SIZE,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    label: {
+        fontSize: 16,
+        color: '#4CAF50',
+        fontWeight: 'bold',
+    },
+    glyph: {
+        fontSize: 14,
+        fontWeight: 'bold',
+    },
+    positive: {
+        color: '#2E7D32',
+    },
+    negative: {
+        color: '#C62828',
+    },
+    orb: {
+        fontSize: 9,
+        color: '#666666',
+    },
+});
+
+export default AspectGrid;
@@ -20,6 +20,7 @@ interface SimpleCelestialBodyProps {
     position: { x: number; y: number; z: number }; // Current target position in 3D space
     color: string;                              // Base color (used as fallback if no texture)
     size: number;                               // Radius of the celestial body
+    textureKey?: string;                        // Key of the preloaded texture (untextured when missing)
     isAnimationActive: boolean;                 // Whether the animation system is running
     changeTexture?: 'normal' | 'quantum' | 'restoring'; // Texture state for special effects
     selectedPlanet?: string;                    // Currently selected planet for highlighting
@@ -31,6 +32,7 @@ const SimpleCelestialBody: React.FC<SimpleCelestialBodyProps> = ({
                                                                      position,
                                                                      color,
                                                                      size,
+                                                                     textureKey,
                                                                      isAnimationActive,
                                                                      changeTexture,
                                                                      preloadedTextures
@@ -53,9 +55,8 @@ const SimpleCelestialBody: React.FC<SimpleCelestialBodyProps> = ({
      * Stores Earth's original texture for later restoration
      */
     useEffect(() => {
-        if (!materialRef.current || !preloadedTextures) return;
+        if (!materialRef.current || !preloadedTextures || !textureKey) return;
 
-        const textureKey = name.toLowerCase();
         if (preloadedTextures[textureKey]) {
             materialRef.current.map = preloadedTextures[textureKey];
 
@@ -65,7 +66,7 @@ const SimpleCelestialBody: React.FC<SimpleCelestialBodyProps> = ({
 
             materialRef.current.needsUpdate = true;
         }
-    }, [name, preloadedTextures]);
+    }, [name, textureKey, preloadedTextures]);
 
     /**
      * Handles Earth's texture changes for special visual effects
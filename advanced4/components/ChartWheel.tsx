@@ -0,0 +1,234 @@
+/**
+ * A 2D chart wheel of a natal chart rendered with react-native-svg.
+ *
+ * From the outside in it draws:
+ * - The zodiac ring with the sign glyphs, in the selected zodiac
+ * - The house cusps with their numbers, the Ascendant and Midheaven axes drawn bolder (when the houses are known)
+ * - The body glyphs at their longitudes, spread apart when they would overlap, with a tick at the exact position
+ * - Aspect lines between the bodies inside the inner circle
+ *
+ * The Ascendant is placed on the left like in a printed chart; without houses 0° of the first sign is.
+ * The component only draws, so the same wheel can be shown on screen and captured as an image.
+ */
+
+import React, {useMemo} from 'react';
+import Svg, {Circle, G, Line, Path, Text as SvgText} from 'react-native-svg';
+import {HouseCusps, NatalAspect, NatalChartEntry, ZodiacType} from '../types';
+import {getAspectInfluence} from '../utils/aspects';
+import {getBodyGlyph} from '../utils/bodies';
+import {getAyanamsa} from '../utils/zodiac';
+
+interface ChartWheelProps {
+    chart: NatalChartEntry[];
+    houses?: HouseCusps | null;
+    aspects?: NatalAspect[];
+    zodiac: ZodiacType;
+    birthUtcDate: Date;
+    size?: number;
+}
+
+const DEG = Math.PI / 180;
+
+// Sign glyphs in zodiac order
+const SIGN_GLYPHS = ['♈', '♉', '♊', '♋', '♌', '♍', '♎', '♏', '♐', '♑', '♒', '♓'];
+
+// Sector colors by element: fire, earth, air, water
+const ELEMENT_COLORS = ['#FDE7E4', '#EAF4E4', '#FFF8DC', '#E3EEF9'];
+
+// Smallest angular distance between two body glyphs (degrees)
+const MIN_GLYPH_GAP = 7;
+
+/**
+ * Display longitudes of the bodies, pushed apart until neighbours are at least the minimum gap apart
+ * @param longitudes - Ecliptic longitudes of the bodies
+ * @param minGap - Smallest distance between two glyphs in degrees
+ * @returns Display longitudes in the order of the input
+ */
+function spreadLongitudes(longitudes: number[], minGap: number): number[] {
+    const count = longitudes.length;
+    if (count < 2) return [...longitudes];
+
+    // Never ask for more room than the circle has
+    const gap = Math.min(minGap, 360 / count);
+    const order = longitudes.map((longitude, index) => ({longitude, index})).sort((a, b) => a.longitude - b.longitude);
+    const display = order.map(entry => entry.longitude);
+
+    for (let iteration = 0; iteration < 100; iteration++) {
+        let moved = false;
+        for (let k = 0; k < count; k++) {
+            const next = (k + 1) % count;
+            const distance = display[next] - display[k] + (next === 0 ? 360 : 0);
+            if (distance < gap - 0.01) {
+                const push = (gap - distance) / 2;
+                display[k] -= push;
+                display[next] += push;
+                moved = true;
+            }
+        }
+        if (!moved) break;
+    }
+
+    const result: number[] = new Array(count);
+    order.forEach((entry, position) => {
+        result[entry.index] = display[position];
+    });
+    return result;
+}
+
+const ChartWheel: React.FC<ChartWheelProps> = ({chart, houses, aspects = [], zodiac, birthUtcDate, size = 320}) => {
+    const center = size / 2;
+    const outerRadius = center - 2;
+    const zodiacInnerRadius = center * 0.82;
+    const houseInnerRadius = center * 0.72;
+    const bodyRadius = center * 0.6;
+    const aspectRadius = center * 0.44;
+
+    const ayanamsa = getAyanamsa(zodiac, birthUtcDate);
+    // Longitude shown on the left: the Ascendant, or 0° of the first sign
+    const rotation = houses?.ascendant ?? ayanamsa;
+
+    /**
+     * Screen point of an ecliptic longitude on a circle (longitudes increase counterclockwise)
+     */
+    const toPoint = (longitude: number, radius: number) => {
+        const angle = (180 + longitude - rotation) * DEG;
+        return {x: center + radius * Math.cos(angle), y: center - radius * Math.sin(angle)};
+    };
+
+    const bodies = useMemo(
+        () => chart.filter(entry => entry.status !== 'failed' && entry.sign !== 'Unknown'),
+        [chart]
+    );
+    const displayLongitudes = useMemo(
+        () => spreadLongitudes(bodies.map(entry => entry.longitude), MIN_GLYPH_GAP),
+        [bodies]
+    );
+    const longitudeByBody = new Map(bodies.map(entry => [entry.name, entry.longitude]));
+
+    /**
+     * Path of a ring sector between two longitudes
+     */
+    const sectorPath = (start: number, end: number, outer: number, inner: number) => {
+        const p1 = toPoint(start, outer);
+        const p2 = toPoint(end, outer);
+        const p3 = toPoint(end, inner);
+        const p4 = toPoint(start, inner);
+        return `M ${p1.x} ${p1.y} A ${outer} ${outer} 0 0 0 ${p2.x} ${p2.y} `
+            + `L ${p3.x} ${p3.y} A ${inner} ${inner} 0 0 1 ${p4.x} ${p4.y} Z`;
+    };
+
+    return (
+        <Svg width={size} height={size} viewBox={`0 0 ${size} ${size}`}>
+            <Circle cx={center} cy={center} r={outerRadius} fill="#FFFFFF" stroke="#333333" strokeWidth={1.5}/>
+
+            {/* Zodiac ring */}
+            {SIGN_GLYPHS.map((glyph, index) => {
+                const start = ayanamsa + index * 30;
+                const label = toPoint(start + 15, (outerRadius + zodiacInnerRadius) / 2);
+                const boundaryOuter = toPoint(start, outerRadius);
+                const boundaryInner = toPoint(start, zodiacInnerRadius);
+                return (
+                    <G key={glyph}>
+                        <Path
+                            d={sectorPath(start, start + 30, outerRadius, zodiacInnerRadius)}
+                            fill={ELEMENT_COLORS[index % 4]}
+                        />
+                        <Line
+                            x1={boundaryOuter.x} y1={boundaryOuter.y}
+                            x2={boundaryInner.x} y2={boundaryInner.y}
+                            stroke="#999999" strokeWidth={0.75}
+                        />
+                        <SvgText
+                            x={label.x} y={label.y + 5}
+                            fontSize={14} fill="#333333" textAnchor="middle"
+                        >
+                            {glyph}
+                        </SvgText>
+                    </G>
+                );
+            })}
+            <Circle cx={center} cy={center} r={zodiacInnerRadius} fill="none" stroke="#333333" strokeWidth={1}/>
+
+            {/* House cusps, the Ascendant-Descendant and Midheaven-IC axes drawn bolder */}
+            {houses && houses.cusps.map((cusp, index) => {
+                const isAxis = index % 3 === 0;
+                const from = toPoint(cusp, aspectRadius);
+                const to = toPoint(cusp, zodiacInnerRadius);
+                const nextCusp = houses.cusps[(index + 1) % 12];
+                const middle = cusp + ((nextCusp - cusp + 360) % 360) / 2;
+                const label = toPoint(middle, (zodiacInnerRadius + houseInnerRadius) / 2);
+                return (
+                    <G key={`house-${index}`}>
+                        <Line
+                            x1={from.x} y1={from.y} x2={to.x} y2={to.y}
+                            stroke={isAxis ? '#333333' : '#BBBBBB'} strokeWidth={isAxis ? 1.5 : 0.75}
+                        />
+                        <SvgText x={label.x} y={label.y + 3} fontSize={8} fill="#999999" textAnchor="middle">
+                            {String(index + 1)}
+                        </SvgText>
+                    </G>
+                );
+            })}
+            {houses && (['AC', 'MC'] as const).map((angleLabel) => {
+                const point = toPoint(angleLabel === 'AC' ? houses.ascendant : houses.midheaven, zodiacInnerRadius - 8);
+                return (
+                    <SvgText
+                        key={angleLabel}
+                        x={point.x} y={point.y + 3}
+                        fontSize={9} fontWeight="bold" fill="#8E2DE2" textAnchor="middle"
+                    >
+                        {angleLabel}
+                    </SvgText>
+                );
+            })}
+            {houses && (
+                <Circle cx={center} cy={center} r={houseInnerRadius} fill="none" stroke="#DDDDDD" strokeWidth={0.75}/>
+            )}
+
+            {/* Aspect lines between the exact positions */}
+            <Circle cx={center} cy={center} r={aspectRadius} fill="#FAFAFA" stroke="#333333" strokeWidth={1}/>
+            {aspects.map((aspect) => {
+                const first = longitudeByBody.get(aspect.firstBody);
+                const second = longitudeByBody.get(aspect.secondBody);
+                if (first === undefined || second === undefined || aspect.aspectType === 'Conjunction') return null;
+                const from = toPoint(first, aspectRadius);
+                const to = toPoint(second, aspectRadius);
+                return (
+                    <Line
+                        key={`${aspect.firstBody}-${aspect.secondBody}`}
+                        x1={from.x} y1={from.y} x2={to.x} y2={to.y}
+                        stroke={getAspectInfluence(aspect.aspectType) === 'positive' ? '#2E7D32' : '#C62828'}
+                        strokeWidth={1}
+                        strokeOpacity={0.7}
+                    />
+                );
+            })}
+
+            {/* Bodies: glyph at the spread position, tick and degree at the exact one */}
+            {bodies.map((entry, index) => {
+                const glyph = toPoint(displayLongitudes[index], bodyRadius);
+                const degree = toPoint(displayLongitudes[index], bodyRadius - 15);
+                const tickOuter = toPoint(entry.longitude, zodiacInnerRadius);
+                const tickInner = toPoint(entry.longitude, zodiacInnerRadius - 6);
+                const marker = toPoint(entry.longitude, aspectRadius);
+                return (
+                    <G key={entry.name}>
+                        <Line
+                            x1={tickOuter.x} y1={tickOuter.y} x2={tickInner.x} y2={tickInner.y}
+                            stroke="#333333" strokeWidth={1}
+                        />
+                        <Circle cx={marker.x} cy={marker.y} r={1.5} fill="#333333"/>
+                        <SvgText x={glyph.x} y={glyph.y + 6} fontSize={16} fill="#4A00E0" textAnchor="middle">
+                            {getBodyGlyph(entry.name)}
+                        </SvgText>
+                        <SvgText x={degree.x} y={degree.y + 3} fontSize={8} fill="#666666" textAnchor="middle">
+                            {`${Math.floor(entry.degreeInSign)}°`}
+                        </SvgText>
+                    </G>
+                );
+            })}
+        </Svg>
+    );
+};
+
+export default ChartWheel;
@@ -1,23 +1,36 @@
 /**
  * A simple component that displays the current date in a formatted way.
  * Used in the solar system visualization to show the simulation date
- * as planets move along their orbits.
+ * as planets move along their orbits, with the phase of the Moon on that
+ * date and a highlighted label while an eclipse is shown.
  */
 
-import React from 'react';
+import React, { useMemo } from 'react';
 import { View, Text, StyleSheet } from 'react-native';
+import { Eclipse } from '../types';
+import { getEclipseName, getMoonElongation, getMoonPhaseIcon } from '../utils/lunar';
 
 interface DateTimeDisplayProps {
     date: Date;
+    eclipse?: Eclipse | null;
 }
 
-const DateTimeDisplay: React.FC<DateTimeDisplayProps> = ({ date }) => {
+const DateTimeDisplay: React.FC<DateTimeDisplayProps> = ({ date, eclipse }) => {
+    // The phase only changes visibly from day to day, so it is computed once per date
+    const day = date.toDateString();
+    const phaseIcon = useMemo(() => getMoonPhaseIcon(getMoonElongation(date)), [day]);
+
     return (
         <View style={styles.wrapper}>
-            <View style={styles.container}>
+            <View style={[styles.container, eclipse && styles.eclipseContainer]}>
                 <Text style={styles.text}>
-                    {date.toLocaleDateString()}
+                    {`${eclipse ? (eclipse.kind === 'solar' ? '🌑' : '🔴') : phaseIcon} ${date.toLocaleDateString()}`}
                 </Text>
+                {eclipse && (
+                    <Text style={styles.eclipseText}>
+                        {`${getEclipseName(eclipse)} · Saros ${eclipse.saros}`}
+                    </Text>
+                )}
             </View>
         </View>
     );
@@ -40,6 +53,10 @@ const styles = StyleSheet.create({
         borderRadius: 20,
         borderWidth: 1,
         borderColor: 'rgba(140, 140, 255, 0.3)',
+        alignItems: 'center',
+    },
+    eclipseContainer: {
+        borderColor: 'rgba(255, 170, 60, 0.8)',
     },
     text: {
         color: 'white',
@@ -49,6 +66,12 @@ const styles = StyleSheet.create({
         textShadowOffset: { width: 1, height: 1 },
         textShadowRadius: 2,
     },
+    eclipseText: {
+        color: '#FFCC80',
+        fontSize: 12,
+        fontWeight: '600',
+        marginTop: 2,
+    },
 });
 
-export default DateTimeDisplay;
\ No newline at end of file
+export default DateTimeDisplay;
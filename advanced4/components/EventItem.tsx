@@ -3,7 +3,13 @@
  *
  * This component renders an individual event with:
  * - Event name and all relevant dates (start, peak, end)
- * - Associated planet
+ * - Associated planet (and its sign at the peak for transits)
+ * - Retrograde marker for transits and exact time for planetary stations
+ * - Sky event label (aspect, ingress, lunation, station, void of course, eclipse) with its exact time
+ * - Exact times of entering orb, exactness and leaving orb for transits
+ * - Hour-level time range for short-lived transits (e.g. of the Moon)
+ * - Every pass of multi-pass transits around a retrograde
+ * - Day-by-day intensity curve of transits with today's strength and phase
  * - Visual indicator for positive/negative influence
  * - Loading state visualization
  * - Delete button functionality
@@ -22,7 +28,8 @@ import {
     ActivityIndicator,
 } from 'react-native';
 import Icon from 'react-native-vector-icons/FontAwesome';
-import { Event } from '../types';
+import { Event, MundaneEventKind } from '../types';
+import IntensityCurve from './IntensityCurve';
 
 interface EventItemProps {
     item: Event;
@@ -31,6 +38,19 @@ interface EventItemProps {
     onDelete: (index: number) => void;
 }
 
+// Labels of the kinds of sky events
+const MUNDANE_KIND_LABELS: { [kind in MundaneEventKind]: string } = {
+    aspect: 'Aspect',
+    ingress: 'Ingress',
+    lunation: 'Lunation',
+    station: 'Station',
+    voidOfCourse: 'Void of course',
+    eclipse: 'Eclipse',
+};
+
+// Transits shorter than this are shown with hour-level times
+const SHORT_TRANSIT_MS = 36 * 3600000;
+
 /**
  * Formats a date string into a DD.MM.YYYY format.
  * @param dateString ISO format date string
@@ -44,12 +64,31 @@ const formatDate = (dateString: string): string => {
     return `${day}.${month}.${year}`;
 };
 
+/**
+ * Formats the time of a date string into HH:MM format (local time).
+ * @param dateString ISO format date string
+ * @returns Formatted time string (e.g., "14:05")
+ */
+const formatTime = (dateString: string): string => {
+    const date = new Date(dateString);
+    const hours = date.getHours().toString().padStart(2, '0');
+    const minutes = date.getMinutes().toString().padStart(2, '0');
+    return `${hours}:${minutes}`;
+};
+
 /**
  * EventItem component renders an individual event in the list
  */
 const EventItem: React.FC<EventItemProps> = ({ item, index, onSelect, onDelete }) => {
     // Transit events have a special label to distinguish them
     const isTransit = item.isTransitEvent;
+    const isMultiPass = (item.transitEvent?.passes?.length ?? 0) > 1;
+
+    // Short-lived transits are shown with times instead of days
+    const enterOrbDate = item.transitEvent?.enterOrbDate;
+    const leaveOrbDate = item.transitEvent?.leaveOrbDate;
+    const isShortLived = !!enterOrbDate && !!leaveOrbDate &&
+        new Date(leaveOrbDate).getTime() - new Date(enterOrbDate).getTime() < SHORT_TRANSIT_MS;
 
     // Normalize dates to compare them (ignoring time components)
     const startDate = new Date(item.startDate).toDateString();
@@ -92,27 +131,101 @@ const EventItem: React.FC<EventItemProps> = ({ item, index, onSelect, onDelete }
                 <View style={styles.nameContainer}>
                     <Text style={styles.itemName}>{item.name}</Text>
 
-                    {/* Inline dates display */}
-                    <View style={styles.datesContainer}>
-                        {showStart && (
-                            <>
-                                <Text style={styles.dateValue}>{formatDate(item.startDate)}</Text>
-                                <Text style={styles.dateSeparator}> — </Text>
-                            </>
-                        )}
-                        <Text style={styles.peakDateValue}>{formatDate(item.peakDate)}</Text>
-                        {showEnd && (
-                            <>
-                                <Text style={styles.dateSeparator}> — </Text>
-                                <Text style={styles.dateValue}>{formatDate(item.endDate)}</Text>
-                            </>
-                        )}
-                    </View>
+                    {/* Inline dates display (time range for short-lived transits) */}
+                    {isShortLived && enterOrbDate && leaveOrbDate ? (
+                        <View style={styles.datesContainer}>
+                            <Text style={styles.dateValue}>{`${formatDate(enterOrbDate)} ${formatTime(enterOrbDate)}`}</Text>
+                            <Text style={styles.dateSeparator}> — </Text>
+                            <Text style={styles.dateValue}>
+                                {formatDate(leaveOrbDate) === formatDate(enterOrbDate)
+                                    ? formatTime(leaveOrbDate)
+                                    : `${formatDate(leaveOrbDate)} ${formatTime(leaveOrbDate)}`}
+                            </Text>
+                        </View>
+                    ) : (
+                        <View style={styles.datesContainer}>
+                            {showStart && (
+                                <>
+                                    <Text style={styles.dateValue}>{formatDate(item.startDate)}</Text>
+                                    <Text style={styles.dateSeparator}> — </Text>
+                                </>
+                            )}
+                            <Text style={styles.peakDateValue}>{formatDate(item.peakDate)}</Text>
+                            {showEnd && (
+                                <>
+                                    <Text style={styles.dateSeparator}> — </Text>
+                                    <Text style={styles.dateValue}>{formatDate(item.endDate)}</Text>
+                                </>
+                            )}
+                        </View>
+                    )}
+
+                    {/* Exact time of a short-lived transit */}
+                    {isShortLived && item.transitEvent?.exactDate && (
+                        <Text style={styles.timingText}>
+                            {`${item.transitEvent.perfects ? 'Exact' : 'Closest'} ${formatDate(item.transitEvent.exactDate)} ${formatTime(item.transitEvent.exactDate)}`}
+                        </Text>
+                    )}
+
+                    {/* Refined transit timing (local time) */}
+                    {isTransit && !isShortLived && item.transitEvent?.exactDate && (
+                        <Text style={styles.timingText}>
+                            {[
+                                item.transitEvent.enterOrbDate &&
+                                    `In orb ${formatDate(item.transitEvent.enterOrbDate)} ${formatTime(item.transitEvent.enterOrbDate)}`,
+                                !isMultiPass &&
+                                    `${item.transitEvent.perfects ? 'Exact' : 'Closest'} ${formatDate(item.transitEvent.exactDate)} ${formatTime(item.transitEvent.exactDate)}`,
+                                item.transitEvent.leaveOrbDate &&
+                                    `Out of orb ${formatDate(item.transitEvent.leaveOrbDate)} ${formatTime(item.transitEvent.leaveOrbDate)}`,
+                            ].filter(Boolean).join(' · ')}
+                        </Text>
+                    )}
+
+                    {/* Each exact hit of a multi-pass transit */}
+                    {isMultiPass && item.transitEvent?.passes?.map((pass) => (
+                        <Text key={pass.number} style={styles.timingText}>
+                            {`Pass ${pass.number}${pass.retrograde ? ' ℞' : ''}: ${pass.perfects ? 'exact' : 'closest'} ${formatDate(pass.exactDate)} ${formatTime(pass.exactDate)}`}
+                        </Text>
+                    ))}
+
+                    {/* Intensity of the transit over its window */}
+                    {isTransit && !!item.transitEvent?.days?.length && (
+                        <IntensityCurve days={item.transitEvent.days} />
+                    )}
 
                     {/* Transit label if applicable */}
                     {isTransit && (
                         <View style={styles.transitBadge}>
-                            <Text style={styles.transitText}>Transit</Text>
+                            <Text style={styles.transitText}>
+                                {item.transitEvent?.transitSign ? `Transit in ${item.transitEvent.transitSign}` : 'Transit'}
+                                {item.transitEvent?.includesRetrograde ? ' · ℞' : ''}
+                            </Text>
+                        </View>
+                    )}
+
+                    {/* Sky event label with the exact time (stations use the station label) */}
+                    {item.isMundaneEvent && item.mundaneEvent && item.mundaneEvent.kind !== 'station' && (
+                        <View style={styles.skyBadge}>
+                            <Text style={styles.skyText}>
+                                {`Sky · ${MUNDANE_KIND_LABELS[item.mundaneEvent.kind]}`}
+                                {item.mundaneEvent.endDate
+                                    ? ` ${formatTime(item.mundaneEvent.date)} – ${formatTime(item.mundaneEvent.endDate)}`
+                                    : ` at ${formatTime(item.mundaneEvent.date)}`}
+                                {item.mundaneEvent.eclipse
+                                    ? ` · mag ${item.mundaneEvent.eclipse.magnitude.toFixed(3)} · Saros ${item.mundaneEvent.eclipse.saros}`
+                                    : ''}
+                            </Text>
+                        </View>
+                    )}
+
+                    {/* Station label with the exact time of the station */}
+                    {item.isStationEvent && item.stationEvent && (
+                        <View style={styles.stationBadge}>
+                            <Text style={styles.stationText}>
+                                {`Station ${item.stationEvent.direction === 'retrograde' ? '℞' : 'D'}`}
+                                {item.stationEvent.sign ? ` in ${item.stationEvent.sign}` : ''}
+                                {` at ${formatTime(item.stationEvent.date)}`}
+                            </Text>
                         </View>
                     )}
                 </View>
@@ -194,6 +307,11 @@ const styles = StyleSheet.create({
         fontSize: 12,
         color: '#666666',
     },
+    timingText: {
+        fontSize: 11,
+        color: '#666666',
+        marginTop: 2,
+    },
     peakDateValue: {
         fontSize: 12,
         color: '#4A00E0',
@@ -236,6 +354,32 @@ const styles = StyleSheet.create({
         color: '#4A00E0',
         fontWeight: '500',
     },
+    stationBadge: {
+        backgroundColor: '#FEF3C7',
+        borderRadius: 4,
+        paddingHorizontal: 6,
+        paddingVertical: 2,
+        alignSelf: 'flex-start',
+        marginTop: 4,
+    },
+    stationText: {
+        fontSize: 10,
+        color: '#B45309',
+        fontWeight: '500',
+    },
+    skyBadge: {
+        backgroundColor: '#DCFCE7',
+        borderRadius: 4,
+        paddingHorizontal: 6,
+        paddingVertical: 2,
+        alignSelf: 'flex-start',
+        marginTop: 4,
+    },
+    skyText: {
+        fontSize: 10,
+        color: '#15803D',
+        fontWeight: '500',
+    },
     influenceIndicator: {
         position: 'absolute',
         left: 0,
@@ -0,0 +1,92 @@
+/**
+ * A compact bar chart of the day-by-day intensity of a transit.
+ * Long windows are grouped into buckets (each bar shows the strongest day of its bucket).
+ * Applying days are drawn darker than separating days and today's bar is highlighted.
+ */
+
+import React, {useMemo} from 'react';
+import {View, Text, StyleSheet} from 'react-native';
+import {TransitDay} from '../types';
+
+interface IntensityCurveProps {
+    days: TransitDay[];
+    maxBars?: number;
+}
+
+// Height of a bar at full intensity
+const CURVE_HEIGHT = 24;
+
+const IntensityCurve: React.FC<IntensityCurveProps> = ({days, maxBars = 48}) => {
+    const today = new Date().toISOString().split('T')[0];
+    const todayEntry = days.find(day => day.date === today);
+
+    // Strongest day of each bucket of consecutive days
+    const bars = useMemo(() => {
+        const bucketSize = Math.max(1, Math.ceil(days.length / maxBars));
+        const result: { day: TransitDay; containsToday: boolean }[] = [];
+        for (let i = 0; i < days.length; i += bucketSize) {
+            const bucket = days.slice(i, i + bucketSize);
+            const strongest = bucket.reduce((best, day) => day.intensity > best.intensity ? day : best);
+            result.push({day: strongest, containsToday: bucket.some(day => day.date === today)});
+        }
+        return result;
+    }, [days, maxBars, today]);
+
+    if (days.length === 0) return null;
+
+    return (
+        <View style={styles.container}>
+            <View style={styles.curve}>
+                {bars.map(({day, containsToday}) => (
+                    <View
+                        key={day.date}
+                        style={[
+                            styles.bar,
+                            {height: Math.max(1, day.intensity * CURVE_HEIGHT)},
+                            day.phase === 'applying' ? styles.applyingBar : styles.separatingBar,
+                            containsToday && styles.todayBar,
+                        ]}
+                    />
+                ))}
+            </View>
+            {todayEntry && (
+                <Text style={styles.caption}>
+                    {`Today ${Math.round(todayEntry.intensity * 100)}% · ${todayEntry.phase} · orb ${todayEntry.orb.toFixed(1)}°`}
+                </Text>
+            )}
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        marginTop: 6,
+    },
+    curve: {
+        flexDirection: 'row',
+        alignItems: 'flex-end',
+        height: CURVE_HEIGHT,
+    },
+    bar: {
+        flex: 1,
+        marginHorizontal: 0.5,
+        borderTopLeftRadius: 1,
+        borderTopRightRadius: 1,
+    },
+    applyingBar: {
+        backgroundColor: '#4A00E0',
+    },
+    separatingBar: {
+        backgroundColor: '#B9A5F5',
+    },
+    todayBar: {
+        backgroundColor: '#FF9800',
+    },
+    caption: {
+        fontSize: 10,
+        color: '#666666',
+        marginTop: 2,
+    },
+});
+
+export default IntensityCurve;
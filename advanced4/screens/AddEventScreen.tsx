@@ -7,7 +7,7 @@
  * - Choose planets from a dropdown selector
  * - Set positive/negative influence types
  *
- * Events are saved to AsyncStorage and integrated with the app's
+ * Events are saved to AsyncStorage (with the active profile's events) and integrated with the app's
  * custom navigation system for a seamless user experience.
  */
 
@@ -24,10 +24,11 @@ import {
 import {LinearGradient} from 'expo-linear-gradient';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import {Picker} from '@react-native-picker/picker';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import {Event} from '../types';
 import Icon from 'react-native-vector-icons/FontAwesome';
 import {useNavigation} from '../navigation/AppNavigator';
+import {getRenderedBodies} from '../utils/bodies';
+import {getProfileItem, setProfileItem} from '../utils/profiles';
 
 const AddEventScreen: React.FC = () => {
     // Get navigation from our custom hook instead of props
@@ -40,8 +41,8 @@ const AddEventScreen: React.FC = () => {
     const [influence, setInfluence] = useState<'positive' | 'negative'>('positive');
     const [showDatePicker, setShowDatePicker] = useState(false);
 
-    // Available planets for selection (excluding Earth and Sun)
-    const planets = ['Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn', 'Uranus', 'Neptune'];
+    // Available planets for selection: bodies shown in the 3D view (excluding Earth and Sun)
+    const planets = getRenderedBodies().filter(body => body.name !== 'Earth' && body.name !== 'Sun');
 
     /**
      * Handles date selection from the date picker
@@ -98,10 +99,10 @@ const AddEventScreen: React.FC = () => {
 
         try {
             // Load existing events from storage
-            const savedEvents = await AsyncStorage.getItem('events');
+            const savedEvents = await getProfileItem('events');
             let events: Event[] = savedEvents ? JSON.parse(savedEvents) : [];
             events.push(newEvent);
-            await AsyncStorage.setItem('events', JSON.stringify(events));
+            await setProfileItem('events', JSON.stringify(events));
             console.log('Saved new event to AsyncStorage:', newEvent);
 
             // Use goBack instead of pop with our custom navigation
@@ -177,7 +178,7 @@ const AddEventScreen: React.FC = () => {
                             onValueChange={(itemValue) => setPlanet(itemValue as string)}
                         >
                             {planets.map((p) => (
-                                <Picker.Item key={p} label={p} value={p} color="#333333"/>
+                                <Picker.Item key={p.name} label={`${p.glyph} ${p.name}`} value={p.name} color="#333333"/>
                             ))}
                         </Picker>
                     </View>
@@ -0,0 +1,277 @@
+/**
+ * A screen component for configuring the aspects used in the application.
+ *
+ * This component lets users:
+ * - Choose which aspects are scanned (including quintiles, biquintiles and septiles)
+ * - Set the orb of each aspect
+ * - Override whether an aspect counts as positive or negative
+ * - Widen or tighten the orbs per body and chart angle with an orb factor
+ *
+ * Every change is saved immediately and used by all aspect calculations.
+ */
+
+import React, {useEffect, useState} from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    TouchableOpacity,
+    ScrollView,
+    Switch,
+    Alert,
+    StatusBar,
+} from 'react-native';
+import {LinearGradient} from 'expo-linear-gradient';
+import Icon from 'react-native-vector-icons/FontAwesome';
+import {AspectConfig, AspectSettings, AspectType} from '../types';
+import {useNavigation} from '../navigation/AppNavigator';
+import {
+    aspectDefinitions,
+    DEFAULT_ASPECT_SETTINGS,
+    getPlanetOrbFactor,
+    loadAspectSettings,
+    saveAspectSettings,
+} from '../utils/aspects';
+import {getNatalBodies} from '../utils/bodies';
+import {natalAngleNames} from '../utils/houses';
+
+// Step of the orb and orb factor controls
+const ORB_STEP = 0.5;
+const FACTOR_STEP = 0.05;
+
+const AspectSettingsScreen: React.FC = () => {
+    const navigation = useNavigation();
+    const [settings, setSettings] = useState<AspectSettings>(DEFAULT_ASPECT_SETTINGS);
+
+    useEffect(() => {
+        loadAspectSettings().then(setSettings);
+    }, []);
+
+    /**
+     * Applies and saves new settings
+     */
+    const updateSettings = (updated: AspectSettings) => {
+        setSettings(updated);
+        saveAspectSettings(updated);
+    };
+
+    /**
+     * Updates the configuration of one aspect
+     */
+    const updateAspect = (type: AspectType, changes: Partial<AspectConfig>) => {
+        updateSettings({
+            ...settings,
+            aspects: {...settings.aspects, [type]: {...settings.aspects[type], ...changes}},
+        });
+    };
+
+    /**
+     * Changes the orb of an aspect by a number of steps (never below one step)
+     */
+    const changeOrb = (type: AspectType, steps: number) => {
+        const orb = Math.max(ORB_STEP, settings.aspects[type].orb + steps * ORB_STEP);
+        updateAspect(type, {orb});
+    };
+
+    /**
+     * Changes the orb factor of a body by a number of steps (never below one step)
+     */
+    const changeFactor = (bodyName: string, steps: number) => {
+        const factor = Math.max(FACTOR_STEP, getPlanetOrbFactor(bodyName, settings) + steps * FACTOR_STEP);
+        updateSettings({
+            ...settings,
+            planetOrbFactors: {...settings.planetOrbFactors, [bodyName]: Math.round(factor * 100) / 100},
+        });
+    };
+
+    /**
+     * Restores the default aspects, orbs and factors after confirmation
+     */
+    const resetSettings = () => {
+        Alert.alert(
+            'Reset Aspects',
+            'Restore the default aspects, orbs and orb factors?',
+            [
+                {text: 'Cancel', style: 'cancel'},
+                {text: 'Reset', style: 'destructive', onPress: () => updateSettings(DEFAULT_ASPECT_SETTINGS)},
+            ]
+        );
+    };
+
+    /**
+     * Renders a value with minus and plus buttons
+     */
+    const renderStepper = (label: string, onChange: (steps: number) => void) => (
+        <View style={styles.stepper}>
+            <TouchableOpacity style={styles.stepButton} onPress={() => onChange(-1)}>
+                <Icon name="minus" size={10} color="#333333"/>
+            </TouchableOpacity>
+            <Text style={styles.stepValue}>{label}</Text>
+            <TouchableOpacity style={styles.stepButton} onPress={() => onChange(1)}>
+                <Icon name="plus" size={10} color="#333333"/>
+            </TouchableOpacity>
+        </View>
+    );
+
+    return (
+        <LinearGradient colors={['#F0F0F0', '#FFFFFF']} style={styles.container}>
+            <StatusBar
+                translucent
+                backgroundColor="transparent"
+                barStyle="light-content"
+            />
+            <ScrollView contentContainerStyle={styles.scrollViewContent}>
+                {/* Header with back button */}
+                <View style={styles.header}>
+                    <TouchableOpacity
+                        style={styles.backButton}
+                        onPress={() => navigation.goBack()}
+                    >
+                        <Icon name="arrow-left" size={18} color="#333333"/>
+                    </TouchableOpacity>
+                    <Text style={styles.headerText}>Aspects & Orbs</Text>
+                    <View style={{width: 40}}/>
+                </View>
+
+                {/* Aspect selection, orbs and influence */}
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>Aspects</Text>
+                    {aspectDefinitions.map((aspect) => {
+                        const config = settings.aspects[aspect.type];
+                        return (
+                            <View key={aspect.type} style={styles.row}>
+                                <Switch
+                                    value={config.enabled}
+                                    onValueChange={(enabled) => updateAspect(aspect.type, {enabled})}
+                                    trackColor={{false: '#E0E0E0', true: '#8E2DE2'}}
+                                />
+                                <Text style={[styles.rowLabel, !config.enabled && styles.disabledText]}>
+                                    {`${aspect.glyph} ${aspect.name} (${Number(aspect.angle.toFixed(1))}°)`}
+                                </Text>
+                                {renderStepper(`${config.orb}°`, (steps) => changeOrb(aspect.type, steps))}
+                                <TouchableOpacity
+                                    style={[
+                                        styles.influenceButton,
+                                        config.influence === 'positive' ? styles.positiveButton : styles.negativeButton,
+                                    ]}
+                                    onPress={() => updateAspect(aspect.type, {
+                                        influence: config.influence === 'positive' ? 'negative' : 'positive',
+                                    })}
+                                >
+                                    <Icon
+                                        name={config.influence === 'positive' ? 'smile-o' : 'frown-o'}
+                                        size={16}
+                                        color="#FFFFFF"
+                                    />
+                                </TouchableOpacity>
+                            </View>
+                        );
+                    })}
+                </View>
+
+                {/* Orb factors per body */}
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>Orb Factors</Text>
+                    <Text style={styles.hint}>
+                        The orb of an aspect is multiplied by the mean factor of its two bodies.
+                    </Text>
+                    {getNatalBodies().map((body) => (
+                        <View key={body.id} style={styles.row}>
+                            <Text style={styles.rowLabel}>{`${body.glyph} ${body.name}`}</Text>
+                            {renderStepper(
+                                `×${getPlanetOrbFactor(body.name, settings).toFixed(2)}`,
+                                (steps) => changeFactor(body.name, steps)
+                            )}
+                        </View>
+                    ))}
+                    {natalAngleNames.map((angleName) => (
+                        <View key={angleName} style={styles.row}>
+                            <Text style={styles.rowLabel}>{angleName}</Text>
+                            {renderStepper(
+                                `×${getPlanetOrbFactor(angleName, settings).toFixed(2)}`,
+                                (steps) => changeFactor(angleName, steps)
+                            )}
+                        </View>
+                    ))}
+                </View>
+
+                <TouchableOpacity style={styles.resetButton} onPress={resetSettings}>
+                    <Text style={styles.resetButtonText}>Reset to Defaults</Text>
+                </TouchableOpacity>
+            </ScrollView>
+        </LinearGradient>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {flex: 1},
+    scrollViewContent: {paddingBottom: 20, paddingHorizontal: 16},
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginTop: 50,
+        marginBottom: 10,
+        paddingHorizontal: 10,
+    },
+    headerText: {fontSize: 20, fontWeight: 'bold', color: '#333333'},
+    backButton: {
+        backgroundColor: '#E0E0E0',
+        padding: 8,
+        borderRadius: 20,
+        justifyContent: 'center',
+        alignItems: 'center',
+        width: 40,
+        height: 40,
+    },
+    section: {
+        marginTop: 10,
+        backgroundColor: '#FFFFFF',
+        padding: 16,
+        borderRadius: 12,
+        shadowColor: '#000',
+        shadowOffset: {width: 0, height: 2},
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+        elevation: 3,
+    },
+    sectionTitle: {fontSize: 16, fontWeight: '600', color: '#333333', marginBottom: 8},
+    hint: {fontSize: 12, color: '#666666', marginBottom: 8},
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 6,
+        gap: 8,
+    },
+    rowLabel: {flex: 1, fontSize: 14, color: '#333333'},
+    disabledText: {color: '#999999'},
+    stepper: {flexDirection: 'row', alignItems: 'center'},
+    stepButton: {
+        backgroundColor: '#E0E0E0',
+        width: 26,
+        height: 26,
+        borderRadius: 13,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    stepValue: {minWidth: 48, textAlign: 'center', fontSize: 14, color: '#333333'},
+    influenceButton: {
+        width: 32,
+        height: 32,
+        borderRadius: 8,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    positiveButton: {backgroundColor: '#4CAF50'},
+    negativeButton: {backgroundColor: '#F44336'},
+    resetButton: {
+        marginTop: 16,
+        padding: 14,
+        borderRadius: 8,
+        alignItems: 'center',
+        backgroundColor: '#E0E0E0',
+    },
+    resetButtonText: {color: '#333333', fontSize: 16, fontWeight: 'bold'},
+});
+
+export default AspectSettingsScreen;
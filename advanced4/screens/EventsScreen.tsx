@@ -4,10 +4,12 @@
  * This component serves as the central hub for managing astrological events, featuring:
  * - Dynamic event listing with planet-specific data loading
  * - Automated transit event calculation based on natal chart positions
+ * - Sky (mundane) event calendar that works without birth data
  * - Interactive calendar range selection for transit calculations
  * - Animation and visual feedback during data loading operations
  * - Integration with the custom navigation system for seamless transitions
  * - Local storage synchronization for persistent event data
+ * - Profile switcher for keeping the charts and events of several people, and their synastry
  *
  * The screen implements a custom focus detection system to refresh data
  * when returning from other screens and optimizes API calls through
@@ -23,30 +25,36 @@ import {
     SafeAreaView,
     StatusBar,
     StyleSheet,
+    Switch,
     Text,
+    TextInput,
     TouchableOpacity,
     TouchableWithoutFeedback,
     View,
 } from 'react-native';
 import {LinearGradient} from 'expo-linear-gradient';
-import {Event, NatalChartEntry, PlanetDataByDate} from '../types';
-import {fetchPlanetPositions} from '../utils/api';
+import {Event, PlanetDataByDate, Profile, SubDailyPlanetData} from '../types';
+import {getEphemerisProvider} from '../utils/ephemerisProvider';
+import {loadZodiacSetting} from '../utils/zodiac';
+import {loadAspectSettings} from '../utils/aspects';
+import {getNatalAngles} from '../utils/houses';
+import {runTransitEngine} from '../utils/transitEngine';
+import {runMundaneEngine} from '../utils/mundaneEngine';
 import Icon from 'react-native-vector-icons/FontAwesome';
 import EventItem from '../components/EventItem';
 import {
-    AspectType,
-    checkForAspect,
     checkNatalChartExists,
-    createTransitEvent,
-    getAspectInfluence,
     loadEventsFromStorage,
     loadNatalChart,
+    loadNatalHouses,
+    mergeCalculatedEvents,
     saveEventsToStorage,
     validateDateRange
 } from '../utils/eventHelpers';
 import {useNavigation} from '../navigation/AppNavigator';
 import CalendarRange from "../components/CalendarRange";
 import PlanetDataService from '../utils/PlanetDataService';
+import {createProfile, deleteProfile, loadActiveProfile, loadProfiles, setActiveProfile} from '../utils/profiles';
 
 /**
  * Custom hook to detect when screen comes into focus
@@ -89,8 +97,14 @@ const EventsScreen = () => {
     const [endDate, setEndDate] = useState(new Date(new Date().setDate(new Date().getDate() + 7)));
     const [isLoadingTransit, setIsLoadingTransit] = useState(false);
     const [modalVisible, setModalVisible] = useState(false);
+    const [includeNatalNodes, setIncludeNatalNodes] = useState(false);
+    const [scanMode, setScanMode] = useState<'transits' | 'sky'>('transits');
     const [progressAnim] = useState(new Animated.Value(0));
     const [actionMenuVisible, setActionMenuVisible] = useState(false);
+    const [profiles, setProfiles] = useState<Profile[]>([]);
+    const [activeProfile, setActiveProfileState] = useState<Profile | null>(null);
+    const [profileMenuVisible, setProfileMenuVisible] = useState(false);
+    const [newProfileName, setNewProfileName] = useState('');
 
     /**
      * Initialize the component on first mount
@@ -98,6 +112,9 @@ const EventsScreen = () => {
      */
     useEffect(() => {
         const initializeEvents = async () => {
+            setProfiles([...await loadProfiles()]);
+            setActiveProfileState(await loadActiveProfile());
+
             const loadedEvents = await loadEventsFromStorage({} as Event);
             setEvents(loadedEvents);
 
@@ -116,6 +133,10 @@ const EventsScreen = () => {
     useScreenFocus(
         useCallback(() => {
             const updateEvents = async () => {
+                // The active profile may have changed on another screen (e.g. a new relationship chart)
+                setProfiles([...await loadProfiles()]);
+                setActiveProfileState(await loadActiveProfile());
+
                 const loadedEvents = await loadEventsFromStorage({} as Event);
                 setEvents(loadedEvents);
 
@@ -161,7 +182,7 @@ const EventsScreen = () => {
                 // If data is available, load it and navigate immediately
                 const planetDataByDate = await PlanetDataService.getAllStoredData();
                 if (planetDataByDate) {
-                    navigateToSolarSystem(event, planetDataByDate);
+                    navigateToSolarSystem(event, planetDataByDate, await PlanetDataService.getSubDailyData());
                 } else {
                     // This branch should rarely execute since we checked availability
                     throw new Error('Failed to retrieve stored planet data');
@@ -182,8 +203,13 @@ const EventsScreen = () => {
      *
      * @param event The event to visualize
      * @param planetDataByDate Planetary data for all dates in the animation range
+     * @param subDailyData Sub-daily samples of fast bodies such as the Moon
      */
-    const navigateToSolarSystem = (event: Event, planetDataByDate: PlanetDataByDate) => {
+    const navigateToSolarSystem = (
+        event: Event,
+        planetDataByDate: PlanetDataByDate,
+        subDailyData?: SubDailyPlanetData
+    ) => {
         if (!event.influence) {
             console.warn('Event is missing influence:', event);
             return;
@@ -198,6 +224,7 @@ const EventsScreen = () => {
         navigation.navigate('SolarSystem', {
             event,
             planetDataByDate,
+            subDailyData,
             preloadedTextures: {},
         });
     };
@@ -251,7 +278,10 @@ const EventsScreen = () => {
 
         try {
             // Load planetary data for the entire date range
-            await PlanetDataService.fetchAndStoreDataForRange(startDateStr, endDateStr);
+            const failedBodies = await PlanetDataService.fetchAndStoreDataForRange(startDateStr, endDateStr);
+            if (failedBodies.length > 0) {
+                console.warn('Planet data loaded without:', failedBodies.map(body => body.name).join(', '));
+            }
 
             // Retrieve all stored data
             const planetDataByDate = await PlanetDataService.getAllStoredData();
@@ -271,7 +301,7 @@ const EventsScreen = () => {
 
             // Automatically navigate if requested
             if (autoNavigate) {
-                navigateToSolarSystem(event, planetDataByDate);
+                navigateToSolarSystem(event, planetDataByDate, await PlanetDataService.getSubDailyData());
             }
 
             return planetDataByDate;
@@ -294,8 +324,9 @@ const EventsScreen = () => {
 
     /**
      * Calculates transit events based on natal chart and selected date range
-     * Complex astrological calculation that identifies planetary aspects
-     * between natal positions and current transits
+     * The chart is the active profile's, which may be a composite or Davison relationship chart
+     * The calculation itself is done by the transit engine, this handler
+     * validates the input, shows the loading state and stores the events
      */
     const fetchTransitEventsData = async () => {
         const validationError = validateDateRange(startDate, endDate);
@@ -310,7 +341,7 @@ const EventsScreen = () => {
         if (!hasNatalChart) {
             Alert.alert(
                 'Natal Chart Required',
-                'Please create your natal chart first before fetching transit events.',
+                'Please create your natal chart first (or retry the bodies that failed) before fetching transit events.',
                 [
                     {text: "Cancel", style: "cancel"},
                     {
@@ -326,156 +357,88 @@ const EventsScreen = () => {
 
         try {
             const natalChart = (await loadNatalChart()) ?? [];
+            const zodiac = await loadZodiacSetting();
+            const aspectSettings = await loadAspectSettings();
+
+            // The angles are only available when the chart was calculated with a birth time
+            const natalHouses = await loadNatalHouses();
+            const natalPoints = natalHouses ? [...natalChart, ...getNatalAngles(natalHouses)] : natalChart;
 
             if (!natalChart || !Array.isArray(natalChart) || natalChart.length === 0) {
                 console.error('TRANSITS ERROR: Natal chart data is invalid or empty');
             }
 
-            const transitPlanets = [
-                {id: '199', name: 'Mercury'},
-                {id: '299', name: 'Venus'},
-                {id: '499', name: 'Mars'},
-                {id: '599', name: 'Jupiter'},
-                {id: '699', name: 'Saturn'},
-                {id: '799', name: 'Uranus'},
-                {id: '899', name: 'Neptune'},
-            ];
-
-            const aspectOrbs: Record<AspectType, number> = {
-                Conjunction: 8,
-                Opposition: 8,
-                Trine: 6,
-                Square: 6,
-                Sextile: 4,
-                SemiSquare: 2,
-                Quincunx: 3,
-                SemiSextile: 2,
-            };
+            const {events: transitEvents, failedBodies} = await runTransitEngine(natalPoints, getEphemerisProvider(), {
+                startDate: startDate.toISOString(),
+                endDate: endDate.toISOString(),
+                zodiac,
+                aspectSettings,
+                includeNatalNodes,
+            });
+
+            // Merge transit events into the existing events list (recalculated transits are updated, not duplicated)
+            setEvents((prevEvents) => {
+                const {events: updatedEvents, added, updated} = mergeCalculatedEvents(prevEvents, transitEvents);
+                console.log(`TRANSITS: Merged transit events - added: ${added}, updated: ${updated}`);
+                saveEventsToStorage(updatedEvents);
+                return updatedEvents;
+            });
 
-            const aspects: { type: AspectType; angle: number }[] = [
-                {type: 'Conjunction', angle: 0},
-                {type: 'Opposition', angle: 180},
-                {type: 'Trine', angle: 120},
-                {type: 'Square', angle: 90},
-                {type: 'Sextile', angle: 60},
-                {type: 'SemiSquare', angle: 45},
-                {type: 'Quincunx', angle: 150},
-                {type: 'SemiSextile', angle: 30},
-            ];
-
-            // Initialize empty data map and try to pre-fill from storage when possible
-            const transitData: { [key: string]: { date: string; longitude: number }[] } = {};
-
-            // Fetch transit positions for each planet over the selected date range
-            for (const planet of transitPlanets) {
-                transitData[planet.name] = await fetchPlanetPositions(planet.id, startDate.toISOString(), endDate.toISOString());
+            if (failedBodies.length > 0) {
+                console.warn('TRANSITS: Positions could not be fetched for:', failedBodies);
+                Alert.alert(
+                    'Incomplete Transits',
+                    `Could not fetch positions for: ${failedBodies.map(body => body.name).join(', ')}. Transits of these bodies are missing.`
+                );
             }
+        } catch (error) {
+            console.error('TRANSITS ERROR: Failed calculating transit events:', error);
+            Alert.alert('Error', 'Failed to fetch transit events. Please try again.');
+        } finally {
+            setIsLoadingTransit(false);
+            setModalVisible(false);
+        }
+    };
 
-            // Track active and completed transit events
-            const activeEvents: {
-                [key: string]: {
-                    startDate: string;
-                    endDate: string;
-                    peakDate: string;
-                    peakDiff: number;
-                    natalPlanet: string;
-                    transitPlanet: string;
-                    aspectType: AspectType;
-                    influence: 'positive' | 'negative';
-                };
-            } = {};
-            const transitEvents: Event[] = [];
-
-            // Calculate aspects between natal chart and transit positions
-            natalChart.forEach((natalPlanet: NatalChartEntry) => {
-                const natalName = natalPlanet.name;
-                if (natalName === 'Sun' || natalName === 'Moon') return;
-                const natalLongitude = natalPlanet.longitude;
-
-                transitPlanets.forEach((transitPlanet) => {
-                    const transitPositions = transitData[transitPlanet.name];
-                    if (!transitPositions || transitPositions.length === 0) {
-                        return;
-                    }
+    /**
+     * Calculates sky events (aspects between planets, ingresses, lunar phases, stations, void-of-course Moon, eclipses) for the selected range
+     * Needs no natal chart, so it also serves users who have not entered birth data
+     */
+    const fetchSkyEventsData = async () => {
+        const validationError = validateDateRange(startDate, endDate);
+        if (validationError) {
+            Alert.alert('Validation Error', validationError);
+            return;
+        }
+
+        setIsLoadingTransit(true);
 
-                    aspects.forEach((aspect) => {
-                        const orb = aspectOrbs[aspect.type];
-                        const eventKey = `${natalName}-${transitPlanet.name}-${aspect.type}`;
-
-                        transitPositions.forEach((position) => {
-                            const diff = checkForAspect(
-                                natalLongitude,
-                                position.longitude,
-                                aspect.angle,
-                                orb
-                            );
-
-                            if (diff !== null) {
-                                const date = position.date;
-
-                                if (!activeEvents[eventKey]) {
-                                    activeEvents[eventKey] = {
-                                        startDate: date,
-                                        endDate: date,
-                                        peakDate: date,
-                                        peakDiff: diff,
-                                        natalPlanet: natalName,
-                                        transitPlanet: transitPlanet.name,
-                                        aspectType: aspect.type,
-                                        influence: getAspectInfluence(aspect.type),
-                                    };
-                                } else {
-                                    activeEvents[eventKey].endDate = date;
-                                    if (diff < activeEvents[eventKey].peakDiff) {
-                                        activeEvents[eventKey].peakDate = date;
-                                        activeEvents[eventKey].peakDiff = diff;
-                                    }
-                                }
-                            } else if (activeEvents[eventKey]) {
-                                const event = activeEvents[eventKey];
-                                transitEvents.push(
-                                    createTransitEvent(
-                                        event.natalPlanet,
-                                        event.transitPlanet,
-                                        event.aspectType,
-                                        event.startDate,
-                                        event.endDate,
-                                        event.peakDate,
-                                        event.influence
-                                    )
-                                );
-                                delete activeEvents[eventKey];
-                            }
-                        });
-
-                        if (activeEvents[eventKey]) {
-                            const event = activeEvents[eventKey];
-                            transitEvents.push(
-                                createTransitEvent(
-                                    event.natalPlanet,
-                                    event.transitPlanet,
-                                    event.aspectType,
-                                    event.startDate,
-                                    event.endDate,
-                                    event.peakDate,
-                                    event.influence
-                                )
-                            );
-                            delete activeEvents[eventKey];
-                        }
-                    });
-                });
+        try {
+            const {events: skyEvents, failedBodies} = await runMundaneEngine(getEphemerisProvider(), {
+                startDate: startDate.toISOString(),
+                endDate: endDate.toISOString(),
+                zodiac: await loadZodiacSetting(),
+                aspectSettings: await loadAspectSettings(),
             });
 
-            // Add transit events to the existing events list
+            // Merge sky events into the existing events list
             setEvents((prevEvents) => {
-                const updatedEvents = [...prevEvents, ...transitEvents];
+                const {events: updatedEvents, added, updated} = mergeCalculatedEvents(prevEvents, skyEvents);
+                console.log(`SKY EVENTS: Merged sky events - added: ${added}, updated: ${updated}`);
                 saveEventsToStorage(updatedEvents);
                 return updatedEvents;
             });
+
+            if (failedBodies.length > 0) {
+                console.warn('SKY EVENTS: Positions could not be fetched for:', failedBodies);
+                Alert.alert(
+                    'Incomplete Sky Events',
+                    `Could not fetch positions for: ${failedBodies.map(body => body.name).join(', ')}. Events of these bodies are missing.`
+                );
+            }
         } catch (error) {
-            console.error('TRANSITS ERROR: Failed calculating transit events:', error);
-            Alert.alert('Error', 'Failed to fetch transit events. Please try again.');
+            console.error('SKY EVENTS ERROR: Failed calculating sky events:', error);
+            Alert.alert('Error', 'Failed to fetch sky events. Please try again.');
         } finally {
             setIsLoadingTransit(false);
             setModalVisible(false);
@@ -483,7 +446,67 @@ const EventsScreen = () => {
     };
 
     /**
-     * Render the screen header with title
+     * Reloads the profiles with the events and natal chart state of the active profile
+     */
+    const refreshActiveProfile = async () => {
+        setProfiles([...await loadProfiles()]);
+        setActiveProfileState(await loadActiveProfile());
+
+        const loadedEvents = await loadEventsFromStorage({} as Event);
+        setEvents(loadedEvents);
+
+        const hasNatalChart = await checkNatalChartExists();
+        setNatalChartExists(hasNatalChart);
+    };
+
+    /**
+     * Switches to another profile
+     */
+    const selectProfile = async (profileId: string) => {
+        setProfileMenuVisible(false);
+        if (profileId === activeProfile?.id) return;
+
+        await setActiveProfile(profileId);
+        await refreshActiveProfile();
+    };
+
+    /**
+     * Creates a profile from the entered name and switches to it
+     */
+    const addProfile = async () => {
+        if (!newProfileName.trim()) {
+            Alert.alert('Missing Name', 'Please enter a name for the profile.');
+            return;
+        }
+
+        const profile = await createProfile(newProfileName);
+        setNewProfileName('');
+        await selectProfile(profile.id);
+    };
+
+    /**
+     * Deletes a profile with its chart and events after confirmation
+     */
+    const removeProfile = (profile: Profile) => {
+        Alert.alert(
+            'Delete Profile',
+            `Delete ${profile.name} with their natal chart and events?`,
+            [
+                {text: 'Cancel', style: 'cancel'},
+                {
+                    text: 'Delete',
+                    style: 'destructive',
+                    onPress: async () => {
+                        await deleteProfile(profile.id);
+                        await refreshActiveProfile();
+                    },
+                },
+            ]
+        );
+    };
+
+    /**
+     * Render the screen header with title and the profile switcher
      */
     const renderHeader = () => (
         <View style={styles.header}>
@@ -491,9 +514,89 @@ const EventsScreen = () => {
                 <Text style={styles.appTitle}>Astro Balance</Text>
                 <Text style={styles.headerText}>Events</Text>
             </View>
+            {activeProfile && (
+                <TouchableOpacity
+                    style={[styles.profileButton, isLoadingTransit && styles.disabledButton]}
+                    onPress={() => setProfileMenuVisible(true)}
+                    disabled={isLoadingTransit}
+                >
+                    <Icon name="user" size={14} color="#4A00E0"/>
+                    <Text style={styles.profileButtonText} numberOfLines={1}>{activeProfile.name}</Text>
+                    <Icon name="caret-down" size={12} color="#4A00E0"/>
+                </TouchableOpacity>
+            )}
         </View>
     );
 
+    /**
+     * Render the profile switcher modal
+     * Lists the profiles (the only one left cannot be deleted) and creates new ones
+     */
+    const renderProfileMenu = () => (
+        <Modal
+            animationType="fade"
+            transparent={true}
+            visible={profileMenuVisible}
+            onRequestClose={() => setProfileMenuVisible(false)}
+        >
+            <TouchableWithoutFeedback onPress={() => setProfileMenuVisible(false)}>
+                <View style={styles.modalContainer}>
+                    <TouchableWithoutFeedback>
+                        <View style={styles.modalContent}>
+                            <Text style={styles.modalTitle}>Profiles</Text>
+                            {profiles.map(profile => (
+                                <View key={profile.id} style={styles.profileRow}>
+                                    <TouchableOpacity
+                                        style={styles.profileRowName}
+                                        onPress={() => selectProfile(profile.id)}
+                                    >
+                                        <Icon
+                                            name={profile.id === activeProfile?.id ? 'check-circle' : 'circle-o'}
+                                            size={18}
+                                            color="#4A00E0"
+                                            style={styles.actionMenuIcon}
+                                        />
+                                        <Text style={styles.actionMenuText}>{profile.name}</Text>
+                                    </TouchableOpacity>
+                                    {profiles.length > 1 && (
+                                        <TouchableOpacity onPress={() => removeProfile(profile)}>
+                                            <Icon name="trash" size={16} color="#F44336"/>
+                                        </TouchableOpacity>
+                                    )}
+                                </View>
+                            ))}
+                            <View style={styles.newProfileRow}>
+                                <TextInput
+                                    style={styles.newProfileInput}
+                                    value={newProfileName}
+                                    onChangeText={setNewProfileName}
+                                    placeholder="New profile name"
+                                    placeholderTextColor="#999999"
+                                    onSubmitEditing={addProfile}
+                                />
+                                <TouchableOpacity style={styles.newProfileButton} onPress={addProfile}>
+                                    <Icon name="plus" size={16} color="#FFFFFF"/>
+                                </TouchableOpacity>
+                            </View>
+                            {profiles.length > 1 && (
+                                <TouchableOpacity
+                                    style={[styles.actionMenuItem, styles.compareChartsItem]}
+                                    onPress={() => {
+                                        setProfileMenuVisible(false);
+                                        navigation.navigate('Synastry');
+                                    }}
+                                >
+                                    <Icon name="heart" size={16} color="#4A00E0" style={styles.actionMenuIcon}/>
+                                    <Text style={styles.actionMenuText}>Compare Charts (Synastry)</Text>
+                                </TouchableOpacity>
+                            )}
+                        </View>
+                    </TouchableWithoutFeedback>
+                </View>
+            </TouchableWithoutFeedback>
+        </Modal>
+    );
+
     /**
      * Render the action menu modal with options
      */
@@ -523,12 +626,36 @@ const EventsScreen = () => {
                                 style={styles.actionMenuItem}
                                 onPress={() => {
                                     setActionMenuVisible(false);
+                                    setScanMode('transits');
                                     setModalVisible(true);
                                 }}
                             >
                                 <Icon name="calendar" size={16} color="#4A00E0" style={styles.actionMenuIcon}/>
                                 <Text style={styles.actionMenuText}>Calculate Transit Events</Text>
                             </TouchableOpacity>
+
+                            <TouchableOpacity
+                                style={styles.actionMenuItem}
+                                onPress={() => {
+                                    setActionMenuVisible(false);
+                                    setScanMode('sky');
+                                    setModalVisible(true);
+                                }}
+                            >
+                                <Icon name="globe" size={16} color="#4A00E0" style={styles.actionMenuIcon}/>
+                                <Text style={styles.actionMenuText}>Calculate Sky Events</Text>
+                            </TouchableOpacity>
+
+                            <TouchableOpacity
+                                style={styles.actionMenuItem}
+                                onPress={() => {
+                                    setActionMenuVisible(false);
+                                    navigation.navigate('AspectSettings');
+                                }}
+                            >
+                                <Icon name="sliders" size={16} color="#4A00E0" style={styles.actionMenuIcon}/>
+                                <Text style={styles.actionMenuText}>Aspects & Orbs</Text>
+                            </TouchableOpacity>
                         </View>
                     </TouchableWithoutFeedback>
                 </View>
@@ -554,6 +681,16 @@ const EventsScreen = () => {
                         endDate={endDate}
                         onRangeSelected={handleDateRangeSelected}
                     />
+                    {scanMode === 'transits' && (
+                        <View style={styles.optionRow}>
+                            <Text style={styles.optionText}>Include transits to natal nodes</Text>
+                            <Switch
+                                value={includeNatalNodes}
+                                onValueChange={setIncludeNatalNodes}
+                                trackColor={{false: '#E0E0E0', true: '#8E2DE2'}}
+                            />
+                        </View>
+                    )}
                     <View style={styles.modalButtonsContainer}>
                         <TouchableOpacity
                             style={styles.cancelButton}
@@ -563,7 +700,7 @@ const EventsScreen = () => {
                         </TouchableOpacity>
                         <TouchableOpacity
                             style={[styles.fetchButton, isLoadingTransit && styles.disabledButton]}
-                            onPress={fetchTransitEventsData}
+                            onPress={scanMode === 'sky' ? fetchSkyEventsData : fetchTransitEventsData}
                             disabled={isLoadingTransit}
                         >
                             <LinearGradient
@@ -589,7 +726,8 @@ const EventsScreen = () => {
             <Icon name="calendar-o" size={60} color="rgba(0,0,0,0.2)"/>
             <Text style={styles.emptyText}>No Events Yet</Text>
             <Text style={styles.emptySubText}>
-                Create events manually or calculate transit events{"\n"}
+                Create events manually, calculate transit events{"\n"}
+                or calculate sky events (no birth data needed){"\n"}
                 to start balancing your astrological influences
             </Text>
         </View>
@@ -659,6 +797,7 @@ const EventsScreen = () => {
             >
                 {renderModal()}
                 {renderActionMenu()}
+                {renderProfileMenu()}
                 <SafeAreaView style={{flex: 1}}>
                     <FlatList
                         data={sortedEvents}
@@ -723,6 +862,63 @@ const styles = StyleSheet.create({
         fontWeight: '500',
         color: '#666666',
     },
+    profileButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#FFFFFF',
+        paddingVertical: 8,
+        paddingHorizontal: 12,
+        borderRadius: 20,
+        maxWidth: 160,
+        shadowColor: '#000',
+        shadowOffset: {width: 0, height: 1},
+        shadowOpacity: 0.15,
+        shadowRadius: 2,
+        elevation: 2,
+    },
+    profileButtonText: {
+        fontSize: 14,
+        fontWeight: '500',
+        color: '#4A00E0',
+        marginHorizontal: 6,
+        flexShrink: 1,
+    },
+    profileRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingVertical: 10,
+        borderBottomWidth: StyleSheet.hairlineWidth,
+        borderBottomColor: '#E0E0E0',
+    },
+    profileRowName: {
+        flex: 1,
+        flexDirection: 'row',
+        alignItems: 'center',
+    },
+    newProfileRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        marginTop: 16,
+    },
+    newProfileInput: {
+        flex: 1,
+        backgroundColor: '#F2F2F2',
+        padding: 12,
+        borderRadius: 8,
+        fontSize: 16,
+        color: '#333333',
+        marginRight: 8,
+    },
+    newProfileButton: {
+        backgroundColor: '#4A00E0',
+        padding: 14,
+        borderRadius: 8,
+    },
+    compareChartsItem: {
+        marginTop: 8,
+        paddingHorizontal: 0,
+    },
     floatingButtonsContainer: {
         position: 'absolute',
         right: 20,
@@ -787,6 +983,16 @@ const styles = StyleSheet.create({
         marginBottom: 20,
         textAlign: 'center',
     },
+    optionRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginTop: 12,
+    },
+    optionText: {
+        fontSize: 14,
+        color: '#333333',
+    },
     modalButtonsContainer: {
         flexDirection: 'row',
         justifyContent: 'space-between',
@@ -4,16 +4,23 @@
  * This component provides a complete interface for creating and viewing natal charts:
  * - Precise birthdate and time selection with native pickers
  * - Location search with geocoding through Nominatim API
+ * - Time zone resolution for the birth location with historical offsets
  * - Intelligent debounced search with location suggestions
  * - API integration for fetching accurate planetary positions
- * - Persistent storage of natal chart data
+ * - Per-body failure reporting with retry of only the failed bodies
+ * - Ascendant, Midheaven and house cusps for a selectable house system (when the birth time is known)
+ * - Tropical or sidereal zodiac (selectable ayanamsa) for sign assignment
+ * - Aspect grid of all body pairs and aspect patterns (Grand Trine, T-Square, Grand Cross, Yod, Kite, Stellium)
+ * - Chart wheel with houses and aspect lines, shareable as an image
+ * - Persistent storage of natal chart data, per profile (the active profile's chart is shown)
+ * - Composite and Davison charts of relationship profiles, recalculated from the two natal charts
  * - Visual display of calculated planetary positions with zodiac signs
  *
  * The natal chart data serves as the foundation for transit calculations
  * and personalized astrological interpretations throughout the application.
  */
 
-import React, {useState, useEffect, useCallback, useRef} from 'react';
+import React, {useState, useEffect, useCallback, useMemo, useRef} from 'react';
 import {
     View,
     Text,
@@ -25,14 +32,30 @@ import {
     TextInput,
     ActivityIndicator,
     Keyboard, StatusBar,
+    Switch,
+    useWindowDimensions,
 } from 'react-native';
 import {LinearGradient} from 'expo-linear-gradient';
 import DateTimePicker from '@react-native-community/datetimepicker';
+import {Picker} from '@react-native-picker/picker';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import {fetchNatalChart} from '../utils/api';
-import {NatalChartEntry} from '../types';
+import {getEphemerisProvider} from '../utils/ephemerisProvider';
+import {BirthTimeZone, HouseCusps, HouseSystem, NatalAspects, NatalChartEntry, Profile, ZodiacType} from '../types';
 import Icon from 'react-native-vector-icons/FontAwesome';
 import {useNavigation} from '../navigation/AppNavigator';
+import {getFailedNatalBodies} from '../utils/eventHelpers';
+import {formatUtcOffset, resolveBirthTimeZone} from '../utils/timezone';
+import {assignHouses, calculateNatalHouses, houseSystemNames} from '../utils/houses';
+import {convertToUTC, getZodiacSign} from '../utils/api';
+import {loadZodiacSetting, saveZodiacSetting, zodiacNames} from '../utils/zodiac';
+import {getBodyGlyph} from '../utils/bodies';
+import {loadAspectSettings} from '../utils/aspects';
+import {aspectPatternNames, calculateNatalAspects} from '../utils/natalAspects';
+import AspectGrid from '../components/AspectGrid';
+import ChartWheel from '../components/ChartWheel';
+import {shareChartImage} from '../utils/chartExport';
+import {getProfileItem, loadActiveProfile, loadProfiles, removeProfileItem, setProfileItem} from '../utils/profiles';
+import {calculateRelationshipChart, loadBirthData, relationshipChartNames} from '../utils/relationshipCharts';
 
 /**
  * Interface for location search results from Nominatim API
@@ -52,12 +75,19 @@ const NatalChartScreen: React.FC = () => {
     // State for birth information
     const [birthDate, setBirthDate] = useState(new Date());
     const [birthTime, setBirthTime] = useState(new Date());
+    const [birthTimeKnown, setBirthTimeKnown] = useState(true);
     const [showDatePicker, setShowDatePicker] = useState(false);
     const [showTimePicker, setShowTimePicker] = useState(false);
     const [latitude, setLatitude] = useState(0);
     const [longitude, setLongitude] = useState(0);
     const [natalChart, setNatalChart] = useState<NatalChartEntry[]>([]);
+    const [chartTimeZone, setChartTimeZone] = useState<BirthTimeZone | null>(null);
+    const [houseSystem, setHouseSystem] = useState<HouseSystem>('placidus');
+    const [natalHouses, setNatalHouses] = useState<HouseCusps | null>(null);
+    const [natalAspects, setNatalAspects] = useState<NatalAspects | null>(null);
+    const [zodiac, setZodiac] = useState<ZodiacType>('tropical');
     const [isLoading, setIsLoading] = useState(false);
+    const [isRetrying, setIsRetrying] = useState(false);
     const [progressAnim] = useState(new Animated.Value(0));
 
     // Location search states
@@ -68,6 +98,16 @@ const NatalChartScreen: React.FC = () => {
     const [showResults, setShowResults] = useState(false);
     const debounceTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
+    // Chart wheel view captured for sharing, sized to the screen (container paddings excluded)
+    const chartWheelRef = useRef<View>(null);
+    const {width: windowWidth} = useWindowDimensions();
+    const wheelSize = Math.min(windowWidth - 64, 420);
+    const [isSharing, setIsSharing] = useState(false);
+
+    // Profile whose chart is shown, with the names of the profiles a relationship chart comes from
+    const [profile, setProfile] = useState<Profile | null>(null);
+    const [relationshipSourceNames, setRelationshipSourceNames] = useState<string[]>([]);
+
     /**
      * Load saved natal chart and location on component mount
      * Retrieves previously saved data from AsyncStorage
@@ -75,16 +115,25 @@ const NatalChartScreen: React.FC = () => {
     useEffect(() => {
         const loadSavedData = async () => {
             try {
-                const savedChart = await AsyncStorage.getItem('natalChart');
-                if (savedChart) {
-                    const parsedChart = JSON.parse(savedChart);
+                const activeProfile = await loadActiveProfile();
+                setProfile(activeProfile);
+                if (activeProfile.relationship) {
+                    const {firstProfileId, secondProfileId} = activeProfile.relationship;
+                    const profiles = await loadProfiles();
+                    setRelationshipSourceNames([firstProfileId, secondProfileId]
+                        .map(id => profiles.find(source => source.id === id)?.name ?? 'a deleted profile'));
+                }
+
+                const savedChart = await getProfileItem('natalChart');
+                const parsedChart: NatalChartEntry[] | null = savedChart ? JSON.parse(savedChart) : null;
+                if (parsedChart) {
                     setNatalChart(parsedChart);
                 }
 
                 // Load saved coordinates if available
-                const savedLatitude = await AsyncStorage.getItem('birthLatitude');
-                const savedLongitude = await AsyncStorage.getItem('birthLongitude');
-                const savedLocationName = await AsyncStorage.getItem('birthLocationName');
+                const savedLatitude = await getProfileItem('birthLatitude');
+                const savedLongitude = await getProfileItem('birthLongitude');
+                const savedLocationName = await getProfileItem('birthLocationName');
 
                 if (savedLatitude && savedLongitude) {
                     setLatitude(parseFloat(savedLatitude));
@@ -96,8 +145,8 @@ const NatalChartScreen: React.FC = () => {
                 }
 
                 // Load saved birth date and time if available
-                const savedBirthDate = await AsyncStorage.getItem('birthDate');
-                const savedBirthTime = await AsyncStorage.getItem('birthTime');
+                const savedBirthDate = await getProfileItem('birthDate');
+                const savedBirthTime = await getProfileItem('birthTime');
 
                 if (savedBirthDate) {
                     setBirthDate(new Date(savedBirthDate));
@@ -106,6 +155,39 @@ const NatalChartScreen: React.FC = () => {
                 if (savedBirthTime) {
                     setBirthTime(new Date(savedBirthTime));
                 }
+
+                // Charts saved before the setting existed were calculated with a known birth time
+                const savedBirthTimeKnown = await getProfileItem('birthTimeKnown');
+                setBirthTimeKnown(savedBirthTimeKnown !== 'false');
+
+                // Load the time zone the saved chart was calculated with
+                const savedTimeZone = await getProfileItem('birthTimeZone');
+                if (savedTimeZone) {
+                    setChartTimeZone(JSON.parse(savedTimeZone));
+                }
+
+                // Load the selected house system and the houses of the saved chart
+                const savedHouseSystem = await AsyncStorage.getItem('houseSystem');
+                const savedHouses = await getProfileItem('natalHouses');
+
+                if (savedHouseSystem) {
+                    setHouseSystem(savedHouseSystem as HouseSystem);
+                }
+
+                if (savedHouses) {
+                    setNatalHouses(JSON.parse(savedHouses));
+                }
+
+                // The aspect grid and patterns follow the current aspect settings, which may have
+                // changed since the chart was saved (a composite has no birth moment, so no phases)
+                const birthData = await loadBirthData(activeProfile.id);
+                if (parsedChart && birthData) {
+                    const birthUtcDate = activeProfile.relationship?.kind === 'composite' ? null : birthData.utcDate;
+                    setNatalAspects(calculateNatalAspects(parsedChart, birthUtcDate, await loadAspectSettings()));
+                }
+
+                // Load the app-wide zodiac setting
+                setZodiac(await loadZodiacSetting());
             } catch (error) {
                 console.error('Failed loading saved natal chart data:', error);
             }
@@ -209,9 +291,9 @@ const NatalChartScreen: React.FC = () => {
         setSelectedLocation(location.display_name);
 
         // Save selected location
-        AsyncStorage.setItem('birthLatitude', location.lat);
-        AsyncStorage.setItem('birthLongitude', location.lon);
-        AsyncStorage.setItem('birthLocationName', location.display_name);
+        setProfileItem('birthLatitude', location.lat);
+        setProfileItem('birthLongitude', location.lon);
+        setProfileItem('birthLocationName', location.display_name);
 
         // Clear search results and hide results list
         setSearchResults([]);
@@ -231,6 +313,142 @@ const NatalChartScreen: React.FC = () => {
         }
     };
 
+    /**
+     * Combines the selected birth date and time into a local date-time string (YYYY-MM-DDTHH:mm).
+     * Uses the wall-clock values shown in the pickers; the birth location decides the time zone.
+     * An unknown birth time is replaced by noon, which keeps the Moon within about 7° of its actual position.
+     */
+    const getBirthDateString = () => {
+        const pad = (value: number) => String(value).padStart(2, '0');
+        const time = birthTimeKnown ? `${pad(birthTime.getHours())}:${pad(birthTime.getMinutes())}` : '12:00';
+        return `${birthDate.getFullYear()}-${pad(birthDate.getMonth() + 1)}-${pad(birthDate.getDate())}T${time}`;
+    };
+
+    /**
+     * Time zone of the selected location at the selected birth moment
+     */
+    const birthDateString = getBirthDateString();
+    const birthTimeZone = useMemo<BirthTimeZone | null>(() => {
+        if (!selectedLocation) return null;
+        try {
+            return resolveBirthTimeZone(birthDateString, latitude, longitude);
+        } catch (error) {
+            console.error('Failed resolving birth time zone:', error);
+            return null;
+        }
+    }, [selectedLocation, latitude, longitude, birthDateString]);
+
+    /**
+     * Birth moment in UTC for the current birth data
+     */
+    const getBirthUtcDate = () => convertToUTC(getBirthDateString(), latitude, longitude);
+
+    /**
+     * Calculates the aspect grid and patterns of a chart and saves them with it
+     */
+    const saveNatalAspects = async (chart: NatalChartEntry[]) => {
+        const aspects = calculateNatalAspects(chart, getBirthUtcDate(), await loadAspectSettings());
+        setNatalAspects(aspects);
+        await setProfileItem('natalAspects', JSON.stringify(aspects));
+    };
+
+    /**
+     * Calculates houses for the current birth data, places the chart bodies in them and saves both
+     * @param chart - Natal chart to place in houses
+     * @param system - House system to use
+     * @returns The chart with house placements
+     */
+    const applyHouses = async (chart: NatalChartEntry[], system: HouseSystem): Promise<NatalChartEntry[]> => {
+        // Houses and angles depend on the birth time, without it the chart has none
+        if (!birthTimeKnown) {
+            const chartWithoutHouses = chart.map(({house, ...entry}) => entry);
+            setNatalHouses(null);
+            setNatalChart(chartWithoutHouses);
+            await removeProfileItem('natalHouses');
+            await setProfileItem('natalChart', JSON.stringify(chartWithoutHouses));
+            await saveNatalAspects(chartWithoutHouses);
+            return chartWithoutHouses;
+        }
+
+        const houses = calculateNatalHouses(getBirthDateString(), latitude, longitude, system);
+        const chartWithHouses = assignHouses(chart, houses);
+
+        setNatalHouses(houses);
+        setNatalChart(chartWithHouses);
+        await setProfileItem('natalHouses', JSON.stringify(houses));
+        await setProfileItem('natalChart', JSON.stringify(chartWithHouses));
+        await saveNatalAspects(chartWithHouses);
+
+        if (houses.system !== system) {
+            Alert.alert(
+                'House System',
+                `${houseSystemNames[system]} houses are undefined at this latitude. ${houseSystemNames[houses.system]} houses are shown instead.`
+            );
+        }
+        return chartWithHouses;
+    };
+
+    /**
+     * Handles house system selection and recalculates the houses of an existing chart
+     */
+    const onHouseSystemChange = async (system: HouseSystem) => {
+        setHouseSystem(system);
+        try {
+            await AsyncStorage.setItem('houseSystem', system);
+            if (natalChart.length > 0 && !(latitude === 0 && longitude === 0)) {
+                await applyHouses(natalChart, system);
+            }
+        } catch (error) {
+            console.error('Failed to recalculate houses:', error);
+            Alert.alert('Error', 'Failed to calculate houses. Please try again.');
+        }
+    };
+
+    /**
+     * Handles zodiac selection: saves the app-wide setting and reassigns the signs of an existing chart
+     */
+    const onZodiacChange = async (selectedZodiac: ZodiacType) => {
+        setZodiac(selectedZodiac);
+        try {
+            await saveZodiacSetting(selectedZodiac);
+            if (natalChart.length === 0 || (latitude === 0 && longitude === 0)) return;
+
+            const birthUtcDate = getBirthUtcDate();
+            const chartInZodiac = natalChart.map(entry => {
+                if (entry.status === 'failed' || entry.sign === 'Unknown') return entry;
+                const position = getZodiacSign(entry.longitude, birthUtcDate, selectedZodiac);
+                return {...entry, sign: position.sign, degreeInSign: position.degree, zodiac: selectedZodiac};
+            });
+
+            // Whole Sign houses follow the sign boundaries of the zodiac
+            await applyHouses(chartInZodiac, houseSystem);
+        } catch (error) {
+            console.error('Failed to apply zodiac setting:', error);
+            Alert.alert('Error', 'Failed to apply the zodiac. Please try again.');
+        }
+    };
+
+    /**
+     * Formats a tropical ecliptic longitude at the birth moment as degrees within its zodiac sign
+     */
+    const formatZodiacPosition = (eclipticLongitude: number) => {
+        const position = getZodiacSign(eclipticLongitude, getBirthUtcDate(), zodiac);
+        return `${position.sign} ${position.degree.toFixed(2)}°`;
+    };
+
+    /**
+     * Informs the user about bodies that could not be calculated
+     */
+    const reportFailedBodies = (chart: NatalChartEntry[]) => {
+        const failedBodies = getFailedNatalBodies(chart);
+        if (failedBodies.length > 0) {
+            Alert.alert(
+                'Incomplete Natal Chart',
+                `Could not calculate: ${failedBodies.join(', ')}. Use "Retry Failed" to request only these bodies again.`
+            );
+        }
+    };
+
     /**
      * Fetches the natal chart data from the API based on provided birth information
      * Validates inputs and handles the API request with proper error handling
@@ -270,13 +488,10 @@ const NatalChartScreen: React.FC = () => {
 
         try {
             // Combine date and time into a single string
-            const birthDateStr = `${birthDate.toISOString().split('T')[0]}T${birthTime
-                .toISOString()
-                .split('T')[1]
-                .slice(0, 5)}`;
+            const birthDateStr = getBirthDateString();
 
-            // Fetch natal chart from API
-            const chart = await fetchNatalChart(birthDateStr, latitude, longitude);
+            // Fetch natal chart from the configured ephemeris provider
+            const chart = await getEphemerisProvider().getNatalSnapshot(birthDateStr, latitude, longitude);
 
             // Verify we have proper chart data
             if (!Array.isArray(chart) || chart.length === 0) {
@@ -285,18 +500,21 @@ const NatalChartScreen: React.FC = () => {
                 return;
             }
 
-            // Update state with the fetched chart
-            setNatalChart(chart);
-
-            // Save to AsyncStorage for use in other screens
-            await AsyncStorage.setItem('natalChart', JSON.stringify(chart));
+            // Place the bodies in houses, update state and save to AsyncStorage for use in other screens
+            const chartWithHouses = await applyHouses(chart, houseSystem);
 
             // Save birth date and time for future use
-            await AsyncStorage.setItem('birthDate', birthDate.toISOString());
-            await AsyncStorage.setItem('birthTime', birthTime.toISOString());
+            await setProfileItem('birthDate', birthDate.toISOString());
+            await setProfileItem('birthTime', birthTime.toISOString());
+            await setProfileItem('birthTimeKnown', String(birthTimeKnown));
+
+            // Save the time zone used to convert the birth time to UTC
+            const resolvedTimeZone = resolveBirthTimeZone(birthDateStr, latitude, longitude);
+            setChartTimeZone(resolvedTimeZone);
+            await setProfileItem('birthTimeZone', JSON.stringify(resolvedTimeZone));
 
             // Verify the save was successful
-            const savedChartStr = await AsyncStorage.getItem('natalChart');
+            const savedChartStr = await getProfileItem('natalChart');
 
             if (!savedChartStr) {
                 console.error('Failed to save chart to AsyncStorage');
@@ -307,6 +525,7 @@ const NatalChartScreen: React.FC = () => {
             // Hide search results if visible
             setShowResults(false);
 
+            reportFailedBodies(chartWithHouses);
         } catch (error) {
             console.error('Failed to fetch or save natal chart:', error);
             Alert.alert('Error', 'Failed to fetch natal chart. Please try again.');
@@ -316,6 +535,109 @@ const NatalChartScreen: React.FC = () => {
         }
     };
 
+    /**
+     * Requests only the bodies that failed in the current chart and merges the results
+     */
+    const retryFailedBodies = async () => {
+        const failedBodies = getFailedNatalBodies(natalChart);
+        if (failedBodies.length === 0) return;
+
+        setIsRetrying(true);
+        try {
+            const retried = await getEphemerisProvider()
+                .getNatalSnapshot(getBirthDateString(), latitude, longitude, failedBodies);
+
+            const mergedChart = natalChart.map(entry => {
+                const replacement = retried.find(r => r.name === entry.name);
+                return replacement && replacement.status !== 'failed' ? replacement : entry;
+            });
+
+            const updatedChart = await applyHouses(mergedChart, houseSystem);
+
+            reportFailedBodies(updatedChart);
+        } catch (error) {
+            console.error('Failed to retry natal chart bodies:', error);
+            Alert.alert('Error', 'Failed to retry the failed bodies. Please try again.');
+        } finally {
+            setIsRetrying(false);
+        }
+    };
+
+    /**
+     * Recalculates the composite or Davison chart of a relationship profile from its two natal charts
+     */
+    const recalculateRelationshipChart = async () => {
+        if (!profile) return;
+
+        setIsLoading(true);
+        try {
+            const relationshipChart = await calculateRelationshipChart(profile);
+            setNatalChart(relationshipChart.chart);
+            setNatalHouses(relationshipChart.houses);
+            setNatalAspects(relationshipChart.aspects);
+            setBirthDate(relationshipChart.birthDate);
+            setBirthTime(relationshipChart.birthDate);
+            setBirthTimeKnown(relationshipChart.birthTimeKnown);
+            setLatitude(relationshipChart.latitude);
+            setLongitude(relationshipChart.longitude);
+
+            reportFailedBodies(relationshipChart.chart);
+        } catch (error) {
+            console.error('Failed to calculate relationship chart:', error);
+            Alert.alert('Error', error instanceof Error ? error.message : 'Failed to calculate the chart. Please try again.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    /**
+     * Renders the source of a relationship chart in place of the birth data form
+     */
+    const renderRelationshipInfo = () => profile?.relationship && (
+        <View style={styles.inputContainer}>
+            <Text style={styles.label}>{relationshipChartNames[profile.relationship.kind]} Chart</Text>
+            <Text style={styles.relationshipText}>
+                {profile.relationship.kind === 'composite'
+                    ? `Midpoints of the natal charts of ${relationshipSourceNames.join(' and ')}.`
+                    : `Chart of the moment and place halfway between the births of ${relationshipSourceNames.join(' and ')}`
+                    + ` (${birthDate.toLocaleDateString()} ${birthTimeKnown ? birthTime.toLocaleTimeString([], {hour: '2-digit', minute: '2-digit'}) : 'noon'}`
+                    + `, ${latitude.toFixed(2)}°, ${longitude.toFixed(2)}°).`}
+            </Text>
+            <Text style={styles.relationshipText}>
+                Recalculate the chart after changing either natal chart, the house system or the zodiac.
+            </Text>
+            <TouchableOpacity
+                style={styles.addButton}
+                onPress={recalculateRelationshipChart}
+                disabled={isLoading}
+            >
+                <LinearGradient colors={['#4A00E0', '#8E2DE2']} style={styles.addButtonGradient}>
+                    <Text style={styles.addButtonText}>{isLoading ? 'Calculating...' : 'Recalculate Chart'}</Text>
+                </LinearGradient>
+            </TouchableOpacity>
+        </View>
+    );
+
+    /**
+     * Shares the chart wheel as an image
+     */
+    const shareChartWheel = async () => {
+        setIsSharing(true);
+        try {
+            const uri = await shareChartImage(chartWheelRef, 'Share Natal Chart');
+            if (!uri) {
+                Alert.alert('Sharing Unavailable', 'Sharing images is not available on this device.');
+            }
+        } catch (error) {
+            console.error('Failed to share chart wheel:', error);
+            Alert.alert('Error', 'Failed to export the chart image. Please try again.');
+        } finally {
+            setIsSharing(false);
+        }
+    };
+
+    const failedBodies = getFailedNatalBodies(natalChart);
+
     /**
      * Clear selected location and related stored data
      */
@@ -324,9 +646,9 @@ const NatalChartScreen: React.FC = () => {
         setSelectedLocation(null);
         setLatitude(0);
         setLongitude(0);
-        AsyncStorage.removeItem('birthLatitude');
-        AsyncStorage.removeItem('birthLongitude');
-        AsyncStorage.removeItem('birthLocationName');
+        removeProfileItem('birthLatitude');
+        removeProfileItem('birthLongitude');
+        removeProfileItem('birthLocationName');
     };
 
     return (
@@ -342,7 +664,10 @@ const NatalChartScreen: React.FC = () => {
                 <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
                     <Icon name="arrow-left" size={18} color="#333333"/>
                 </TouchableOpacity>
-                <Text style={styles.headerText}>Natal Chart</Text>
+                <View style={styles.headerTitle}>
+                    <Text style={styles.headerText}>Natal Chart</Text>
+                    {profile && <Text style={styles.headerSubtitle}>{profile.name}</Text>}
+                </View>
                 <View style={{width: 40}}/>
             </View>
 
@@ -350,171 +675,328 @@ const NatalChartScreen: React.FC = () => {
                 contentContainerStyle={styles.scrollViewContent}
                 keyboardShouldPersistTaps="handled"
             >
-                <View style={styles.inputContainer}>
-                    {/* Birth Date Selection */}
-                    <Text style={styles.label}>Birth Date</Text>
-                    <TouchableOpacity
-                        style={styles.dateButton}
-                        onPress={() => {
-                            setShowResults(false);
-                            setShowDatePicker(true);
-                        }}
-                    >
-                        <Text style={styles.dateButtonText}>{birthDate.toLocaleDateString()}</Text>
-                        <Icon name="calendar" size={18} color="#333333"/>
-                    </TouchableOpacity>
-                    {showDatePicker && (
-                        <DateTimePicker
-                            value={birthDate}
-                            mode="date"
-                            display="default"
-                            onChange={onDateChange}
-                        />
-                    )}
-
-                    {/* Birth Time Selection */}
-                    <Text style={styles.label}>Birth Time</Text>
-                    <TouchableOpacity
-                        style={styles.dateButton}
-                        onPress={() => {
-                            setShowResults(false);
-                            setShowTimePicker(true);
-                        }}
-                    >
-                        <Text style={styles.dateButtonText}>
-                            {birthTime.toLocaleTimeString([], {hour: '2-digit', minute: '2-digit'})}
-                        </Text>
-                        <Icon name="clock-o" size={18} color="#333333"/>
-                    </TouchableOpacity>
-                    {showTimePicker && (
-                        <DateTimePicker
-                            value={birthTime}
-                            mode="time"
-                            display="default"
-                            onChange={onTimeChange}
-                        />
-                    )}
-
-                    {/* Location Selection */}
-                    <Text style={styles.label}>Birth Location</Text>
-
-                    {/* Location Input with selected location display */}
-                    {selectedLocation ? (
-                        <View style={styles.selectedLocationContainer}>
-                            <View style={styles.selectedLocation}>
-                                <Text
-                                    style={styles.selectedLocationText}
-                                    numberOfLines={2}
-                                    ellipsizeMode="tail"
-                                >
-                                    {selectedLocation}
-                                </Text>
-                                <Text style={styles.coordinatesText}>
-                                    Lat: {latitude.toFixed(4)}, Lon: {longitude.toFixed(4)}
-                                </Text>
+                {profile?.relationship ? renderRelationshipInfo() : (
+                    <View style={styles.inputContainer}>
+                        {/* Birth Date Selection */}
+                        <Text style={styles.label}>Birth Date</Text>
+                        <TouchableOpacity
+                            style={styles.dateButton}
+                            onPress={() => {
+                                setShowResults(false);
+                                setShowDatePicker(true);
+                            }}
+                        >
+                            <Text style={styles.dateButtonText}>{birthDate.toLocaleDateString()}</Text>
+                            <Icon name="calendar" size={18} color="#333333"/>
+                        </TouchableOpacity>
+                        {showDatePicker && (
+                            <DateTimePicker
+                                value={birthDate}
+                                mode="date"
+                                display="default"
+                                onChange={onDateChange}
+                            />
+                        )}
+
+                        {/* Birth Time Selection */}
+                        <View style={styles.labelRow}>
+                            <Text style={styles.label}>Birth Time</Text>
+                            <View style={styles.switchRow}>
+                                <Text style={styles.switchLabel}>Known</Text>
+                                <Switch
+                                    value={birthTimeKnown}
+                                    onValueChange={setBirthTimeKnown}
+                                    trackColor={{false: '#E0E0E0', true: '#8E2DE2'}}
+                                />
                             </View>
-                            <TouchableOpacity
-                                style={styles.clearButton}
-                                onPress={clearSelectedLocation}
-                            >
-                                <Icon name="times" size={18} color="#666666"/>
-                            </TouchableOpacity>
                         </View>
-                    ) : (
-                        <>
-                            <View style={styles.searchContainer}>
-                                <TextInput
-                                    style={styles.searchInput}
-                                    placeholder="Enter city, address or place name"
-                                    value={searchQuery}
-                                    onChangeText={debouncedSearch}
-                                    autoCorrect={false}
-                                    onFocus={() => searchQuery.length >= 3 && setShowResults(true)}
-                                />
+                        <TouchableOpacity
+                            style={[styles.dateButton, !birthTimeKnown && styles.disabledButton]}
+                            disabled={!birthTimeKnown}
+                            onPress={() => {
+                                setShowResults(false);
+                                setShowTimePicker(true);
+                            }}
+                        >
+                            <Text style={styles.dateButtonText}>
+                                {birthTimeKnown
+                                    ? birthTime.toLocaleTimeString([], {hour: '2-digit', minute: '2-digit'})
+                                    : 'Unknown (noon chart, no houses)'}
+                            </Text>
+                            <Icon name="clock-o" size={18} color="#333333"/>
+                        </TouchableOpacity>
+                        {showTimePicker && (
+                            <DateTimePicker
+                                value={birthTime}
+                                mode="time"
+                                display="default"
+                                onChange={onTimeChange}
+                            />
+                        )}
+
+                        {/* Location Selection */}
+                        <Text style={styles.label}>Birth Location</Text>
+
+                        {/* Location Input with selected location display */}
+                        {selectedLocation ? (
+                            <View style={styles.selectedLocationContainer}>
+                                <View style={styles.selectedLocation}>
+                                    <Text
+                                        style={styles.selectedLocationText}
+                                        numberOfLines={2}
+                                        ellipsizeMode="tail"
+                                    >
+                                        {selectedLocation}
+                                    </Text>
+                                    <Text style={styles.coordinatesText}>
+                                        Lat: {latitude.toFixed(4)}, Lon: {longitude.toFixed(4)}
+                                    </Text>
+                                    {birthTimeZone && (
+                                        <Text style={styles.coordinatesText}>
+                                            Time zone: {birthTimeZone.zone} ({formatUtcOffset(birthTimeZone.offsetMinutes)}
+                                            {birthTimeZone.abbreviation ? `, ${birthTimeZone.abbreviation}` : ''})
+                                        </Text>
+                                    )}
+                                </View>
                                 <TouchableOpacity
-                                    style={styles.searchButton}
-                                    onPress={handleSearchPress}
+                                    style={styles.clearButton}
+                                    onPress={clearSelectedLocation}
                                 >
-                                    <Icon name="search" size={18} color="#FFFFFF"/>
+                                    <Icon name="times" size={18} color="#666666"/>
                                 </TouchableOpacity>
                             </View>
-
-                            {/* Search Results */}
-                            {showResults && (
-                                <View style={styles.resultsContainer}>
-                                    {isSearching ? (
-                                        <ActivityIndicator size="small" color="#4A00E0"
-                                                           style={styles.loadingIndicator}/>
-                                    ) : searchResults.length > 0 ? (
-                                        <ScrollView nestedScrollEnabled={true} style={styles.resultsList}>
-                                            {searchResults.map((result) => (
-                                                <TouchableOpacity
-                                                    key={result.place_id}
-                                                    style={styles.resultItem}
-                                                    onPress={() => selectLocationResult(result)}
-                                                >
-                                                    <Text style={styles.resultText} numberOfLines={2}
-                                                          ellipsizeMode="tail">
-                                                        {result.display_name}
-                                                    </Text>
-                                                    <Text style={styles.resultCoords}>
-                                                        Lat: {parseFloat(result.lat).toFixed(4)},
-                                                        Lon: {parseFloat(result.lon).toFixed(4)}
-                                                    </Text>
-                                                </TouchableOpacity>
-                                            ))}
-                                        </ScrollView>
-                                    ) : searchQuery.length >= 3 ? (
-                                        <Text style={styles.noResultsText}>No locations found</Text>
-                                    ) : searchQuery.length > 0 ? (
-                                        <Text style={styles.noResultsText}>Enter at least 3 characters</Text>
-                                    ) : null}
+                        ) : (
+                            <>
+                                <View style={styles.searchContainer}>
+                                    <TextInput
+                                        style={styles.searchInput}
+                                        placeholder="Enter city, address or place name"
+                                        value={searchQuery}
+                                        onChangeText={debouncedSearch}
+                                        autoCorrect={false}
+                                        onFocus={() => searchQuery.length >= 3 && setShowResults(true)}
+                                    />
+                                    <TouchableOpacity
+                                        style={styles.searchButton}
+                                        onPress={handleSearchPress}
+                                    >
+                                        <Icon name="search" size={18} color="#FFFFFF"/>
+                                    </TouchableOpacity>
                                 </View>
-                            )}
-                        </>
-                    )}
-
-                    {/* Fetch Button */}
-                    <TouchableOpacity
-                        style={[styles.addButton, {marginTop: 16}]}
-                        onPress={fetchNatalChartData}
-                        disabled={isLoading}
-                    >
-                        <LinearGradient colors={['#4A00E0', '#8E2DE2']} style={styles.addButtonGradient}>
-                            <Text style={styles.addButtonText}>
-                                {isLoading ? 'Generating Chart...' : 'Get Natal Chart'}
-                            </Text>
-                        </LinearGradient>
-                    </TouchableOpacity>
-
-                    {/* Loading Progress Bar */}
-                    {isLoading && (
-                        <Animated.View
-                            style={[
-                                styles.progressBar,
-                                {
-                                    width: progressAnim.interpolate({
-                                        inputRange: [0, 1],
-                                        outputRange: ['0%', '100%'],
-                                    }),
-                                },
-                            ]}
-                        />
-                    )}
-                </View>
+
+                                {/* Search Results */}
+                                {showResults && (
+                                    <View style={styles.resultsContainer}>
+                                        {isSearching ? (
+                                            <ActivityIndicator size="small" color="#4A00E0"
+                                                               style={styles.loadingIndicator}/>
+                                        ) : searchResults.length > 0 ? (
+                                            <ScrollView nestedScrollEnabled={true} style={styles.resultsList}>
+                                                {searchResults.map((result) => (
+                                                    <TouchableOpacity
+                                                        key={result.place_id}
+                                                        style={styles.resultItem}
+                                                        onPress={() => selectLocationResult(result)}
+                                                    >
+                                                        <Text style={styles.resultText} numberOfLines={2}
+                                                              ellipsizeMode="tail">
+                                                            {result.display_name}
+                                                        </Text>
+                                                        <Text style={styles.resultCoords}>
+                                                            Lat: {parseFloat(result.lat).toFixed(4)},
+                                                            Lon: {parseFloat(result.lon).toFixed(4)}
+                                                        </Text>
+                                                    </TouchableOpacity>
+                                                ))}
+                                            </ScrollView>
+                                        ) : searchQuery.length >= 3 ? (
+                                            <Text style={styles.noResultsText}>No locations found</Text>
+                                        ) : searchQuery.length > 0 ? (
+                                            <Text style={styles.noResultsText}>Enter at least 3 characters</Text>
+                                        ) : null}
+                                    </View>
+                                )}
+                            </>
+                        )}
+
+                        {/* House System Selection */}
+                        <Text style={[styles.label, {marginTop: 16}]}>House System</Text>
+                        <View style={styles.pickerContainer}>
+                            <Picker
+                                selectedValue={houseSystem}
+                                style={styles.picker}
+                                onValueChange={(itemValue) => onHouseSystemChange(itemValue as HouseSystem)}
+                            >
+                                {(Object.keys(houseSystemNames) as HouseSystem[]).map((system) => (
+                                    <Picker.Item key={system} label={houseSystemNames[system]} value={system}
+                                                 color="#333333"/>
+                                ))}
+                            </Picker>
+                        </View>
+
+                        {/* Zodiac Selection */}
+                        <Text style={styles.label}>Zodiac</Text>
+                        <View style={styles.pickerContainer}>
+                            <Picker
+                                selectedValue={zodiac}
+                                style={styles.picker}
+                                onValueChange={(itemValue) => onZodiacChange(itemValue as ZodiacType)}
+                            >
+                                {(Object.keys(zodiacNames) as ZodiacType[]).map((type) => (
+                                    <Picker.Item key={type} label={zodiacNames[type]} value={type} color="#333333"/>
+                                ))}
+                            </Picker>
+                        </View>
+
+                        {/* Fetch Button */}
+                        <TouchableOpacity
+                            style={styles.addButton}
+                            onPress={fetchNatalChartData}
+                            disabled={isLoading}
+                        >
+                            <LinearGradient colors={['#4A00E0', '#8E2DE2']} style={styles.addButtonGradient}>
+                                <Text style={styles.addButtonText}>
+                                    {isLoading ? 'Generating Chart...' : 'Get Natal Chart'}
+                                </Text>
+                            </LinearGradient>
+                        </TouchableOpacity>
+
+                        {/* Loading Progress Bar */}
+                        {isLoading && (
+                            <Animated.View
+                                style={[
+                                    styles.progressBar,
+                                    {
+                                        width: progressAnim.interpolate({
+                                            inputRange: [0, 1],
+                                            outputRange: ['0%', '100%'],
+                                        }),
+                                    },
+                                ]}
+                            />
+                        )}
+                    </View>
+                )}
 
                 {/* Display Natal Chart Data */}
                 {natalChart.length > 0 && (
                     <View style={styles.natalChartContainer}>
-                        <Text style={styles.sectionTitle}>Natal Chart Data</Text>
+                        <Text style={styles.sectionTitle}>
+                            {profile?.relationship ? relationshipChartNames[profile.relationship.kind] : 'Natal'} Chart Data ({zodiacNames[zodiac]})
+                        </Text>
+                        {chartTimeZone && (
+                            <Text style={styles.timeZoneText}>
+                                Calculated for {chartTimeZone.zone} ({formatUtcOffset(chartTimeZone.offsetMinutes)}
+                                {chartTimeZone.abbreviation ? `, ${chartTimeZone.abbreviation}` : ''})
+                            </Text>
+                        )}
+
+                        {/* Failed bodies summary with retry action */}
+                        {failedBodies.length > 0 && (
+                            <View style={styles.failedContainer}>
+                                <Text style={styles.failedText}>
+                                    Failed to calculate: {failedBodies.join(', ')}
+                                </Text>
+                                <TouchableOpacity
+                                    style={styles.retryButton}
+                                    onPress={retryFailedBodies}
+                                    disabled={isRetrying || isLoading}
+                                >
+                                    {isRetrying ? (
+                                        <ActivityIndicator size="small" color="#FFFFFF"/>
+                                    ) : (
+                                        <Text style={styles.retryButtonText}>Retry Failed</Text>
+                                    )}
+                                </TouchableOpacity>
+                            </View>
+                        )}
+
+                        {/* Chart wheel, captured as an image for sharing */}
+                        <View ref={chartWheelRef} collapsable={false} style={styles.chartWheel}>
+                            <ChartWheel
+                                chart={natalChart}
+                                houses={natalHouses}
+                                aspects={natalAspects?.aspects}
+                                zodiac={zodiac}
+                                birthUtcDate={getBirthUtcDate()}
+                                size={wheelSize}
+                            />
+                        </View>
+                        <TouchableOpacity
+                            style={[styles.shareButton, isSharing && styles.disabledButton]}
+                            onPress={shareChartWheel}
+                            disabled={isSharing}
+                        >
+                            <Icon name="share-alt" size={14} color="#FFFFFF"/>
+                            <Text style={styles.shareButtonText}>Share Chart</Text>
+                        </TouchableOpacity>
+
                         {natalChart.map((item, index) => (
                             <View key={index} style={styles.natalItem}>
-                                <Text style={styles.eventItem}>
-                                    <Text style={styles.planetText}>{item.name}</Text>: {item.sign}{' '}
-                                    {item.degreeInSign.toFixed(2)}° (Longitude: {item.longitude.toFixed(2)}°)
-                                </Text>
+                                {item.status === 'failed' || item.sign === 'Unknown' ? (
+                                    <Text style={styles.eventItem}>
+                                        <Text style={styles.failedPlanetText}>{getBodyGlyph(item.name)} {item.name}</Text>: not calculated
+                                    </Text>
+                                ) : (
+                                    <Text style={styles.eventItem}>
+                                        <Text style={styles.planetText}>{getBodyGlyph(item.name)} {item.name}</Text>: {item.sign}{' '}
+                                        {item.degreeInSign.toFixed(2)}° (Tropical longitude: {item.longitude.toFixed(2)}°)
+                                        {item.house ? ` · House ${item.house}` : ''}
+                                    </Text>
+                                )}
                             </View>
                         ))}
+
+                        {/* Aspect grid and patterns */}
+                        {natalAspects && (
+                            <>
+                                <Text style={[styles.sectionTitle, {marginTop: 12}]}>Aspects</Text>
+                                <AspectGrid
+                                    bodies={natalChart
+                                        .filter(item => item.status !== 'failed' && item.sign !== 'Unknown')
+                                        .map(item => item.name)}
+                                    aspects={natalAspects.aspects}
+                                />
+                                <Text style={[styles.sectionTitle, {marginTop: 12}]}>Aspect Patterns</Text>
+                                {natalAspects.patterns.length === 0 ? (
+                                    <Text style={styles.timeZoneText}>No major configurations in this chart.</Text>
+                                ) : (
+                                    natalAspects.patterns.map((pattern, index) => (
+                                        <View key={index} style={styles.natalItem}>
+                                            <Text style={styles.eventItem}>
+                                                <Text style={styles.planetText}>{aspectPatternNames[pattern.type]}</Text>
+                                                {pattern.sign ? ` in ${pattern.sign}` : ''}: {pattern.bodies.join(', ')}
+                                                {pattern.apex ? ` (apex ${pattern.apex})` : ''}
+                                            </Text>
+                                        </View>
+                                    ))
+                                )}
+                            </>
+                        )}
+
+                        {/* Angles and house cusps */}
+                        {natalHouses && (
+                            <>
+                                <Text style={[styles.sectionTitle, {marginTop: 12}]}>
+                                    Houses ({houseSystemNames[natalHouses.system]})
+                                </Text>
+                                <View style={styles.natalItem}>
+                                    <Text style={styles.eventItem}>
+                                        <Text style={styles.planetText}>Ascendant</Text>: {formatZodiacPosition(natalHouses.ascendant)}
+                                    </Text>
+                                    <Text style={styles.eventItem}>
+                                        <Text style={styles.planetText}>Midheaven</Text>: {formatZodiacPosition(natalHouses.midheaven)}
+                                    </Text>
+                                </View>
+                                {natalHouses.cusps.map((cusp, index) => (
+                                    <View key={index} style={styles.natalItem}>
+                                        <Text style={styles.eventItem}>
+                                            <Text style={styles.planetText}>House {index + 1}</Text>: {formatZodiacPosition(cusp)}
+                                        </Text>
+                                    </View>
+                                ))}
+                            </>
+                        )}
                     </View>
                 )}
             </ScrollView>
@@ -534,11 +1016,23 @@ const styles = StyleSheet.create({
         marginBottom: 10,
         paddingHorizontal: 16,
     },
+    headerTitle: {
+        alignItems: 'center',
+    },
     headerText: {
         fontSize: 20,
         fontWeight: 'bold',
         color: '#333333',
     },
+    headerSubtitle: {
+        fontSize: 13,
+        color: '#666666',
+    },
+    relationshipText: {
+        fontSize: 14,
+        color: '#666666',
+        marginBottom: 8,
+    },
     backButton: {
         backgroundColor: '#E0E0E0',
         padding: 8,
@@ -595,6 +1089,14 @@ const styles = StyleSheet.create({
         color: '#333333',
         marginBottom: 8,
     },
+    labelRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+    },
+    switchRow: {flexDirection: 'row', alignItems: 'center', marginBottom: 8},
+    switchLabel: {fontSize: 14, color: '#666666', marginRight: 6},
+    disabledButton: {opacity: 0.6},
     dateButton: {
         flexDirection: 'row',
         justifyContent: 'space-between',
@@ -605,6 +1107,12 @@ const styles = StyleSheet.create({
         marginBottom: 16,
     },
     dateButtonText: {color: '#333333', fontSize: 16},
+    pickerContainer: {
+        backgroundColor: '#E0E0E0',
+        borderRadius: 8,
+        marginBottom: 16,
+    },
+    picker: {color: '#333333', height: 50},
     searchContainer: {
         flexDirection: 'row',
         marginBottom: 6,
@@ -704,6 +1212,48 @@ const styles = StyleSheet.create({
     addButtonText: {color: '#FFFFFF', fontSize: 16, fontWeight: 'bold'},
     eventItem: {color: '#333333', fontSize: 16},
     planetText: {color: '#4CAF50', fontWeight: 'bold'},
+    failedPlanetText: {color: '#F44336', fontWeight: 'bold'},
+    timeZoneText: {
+        fontSize: 13,
+        color: '#666666',
+        marginBottom: 10,
+    },
+    failedContainer: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#FDECEA',
+        padding: 10,
+        borderRadius: 8,
+        marginBottom: 12,
+    },
+    failedText: {
+        flex: 1,
+        color: '#B71C1C',
+        fontSize: 14,
+        marginRight: 8,
+    },
+    retryButton: {
+        backgroundColor: '#F44336',
+        borderRadius: 8,
+        paddingVertical: 8,
+        paddingHorizontal: 12,
+        minWidth: 100,
+        alignItems: 'center',
+    },
+    retryButtonText: {color: '#FFFFFF', fontSize: 14, fontWeight: 'bold'},
+    chartWheel: {alignItems: 'center', backgroundColor: '#FFFFFF', paddingVertical: 8},
+    shareButton: {
+        flexDirection: 'row',
+        alignSelf: 'center',
+        alignItems: 'center',
+        gap: 8,
+        backgroundColor: '#8E2DE2',
+        borderRadius: 8,
+        paddingVertical: 8,
+        paddingHorizontal: 16,
+        marginBottom: 12,
+    },
+    shareButtonText: {color: '#FFFFFF', fontSize: 14, fontWeight: 'bold'},
     progressBar: {
         position: 'absolute',
         bottom: 0,
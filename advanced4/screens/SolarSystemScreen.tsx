@@ -8,6 +8,7 @@
  * - Multi-phase animation sequence (orbital motion → brain visualization → wave effects)
  * - Smooth transitions between animation states with proper cleanup
  * - Texture preloading system to prevent visual glitches during rendering
+ * - Eclipse highlights: the scene darkens (solar) or turns red (lunar) as the animation passes an eclipse
  */
 
 import React, {useState, useEffect, useCallback, useMemo, Suspense, useRef} from 'react';
@@ -18,13 +19,15 @@ import {LinearGradient} from 'expo-linear-gradient';
 import Icon from 'react-native-vector-icons/Ionicons';
 import AnimationHandler from '../components/AnimationHandler';
 import DateTimeDisplay from '../components/DateTimeDisplay';
-import {CelestialBodyConfig, Event, PlanetDataByDate} from '../types';
+import {CelestialBodyConfig, Eclipse, Event, PlanetDataByDate, SubDailyPlanetData} from '../types';
 import BrainHeadModel from '../components/BrainHeadModel';
 import WaveAnimation from '../components/WaveAnimation';
 import * as THREE from 'three';
 import Initializer from '../components/Initializer';
 import CameraController from '../components/CameraController';
 import {preloadTextures} from '../utils/TexturePreloader';
+import {getRenderedBodies} from '../utils/bodies';
+import {findEclipses} from '../utils/lunar';
 import {useNavigation, useRoute} from '../navigation/AppNavigator';
 import StarField from "../components/StarField";
 
@@ -38,21 +41,31 @@ interface ConfirmExitDialogProps {
 }
 
 /**
- * Celestial bodies configuration: defines names, colors, and sizes of planets
- * in the solar system for visualization. Defined outside component to avoid
- * unnecessary recreation on each render.
+ * Celestial bodies configuration: defines names, colors, sizes and textures of the
+ * bodies rendered in 3D, taken from the body registry. Defined outside component to
+ * avoid unnecessary recreation on each render. The order matches PLANET_IDS in
+ * PlanetDataService, which indexes the stored daily data arrays.
  */
-const celestialBodies: CelestialBodyConfig[] = [
-    {name: 'Sun', color: 'yellow', size: 2},
-    {name: 'Mercury', color: 'gray', size: 0.4},
-    {name: 'Venus', color: 'orange', size: 0.7},
-    {name: 'Earth', color: 'blue', size: 1},
-    {name: 'Mars', color: 'red', size: 0.65},
-    {name: 'Jupiter', color: 'brown', size: 1.5},
-    {name: 'Saturn', color: 'gold', size: 1.25},
-    {name: 'Uranus', color: 'cyan', size: 1},
-    {name: 'Neptune', color: 'darkblue', size: 1},
-];
+const celestialBodies: CelestialBodyConfig[] = getRenderedBodies().map(body => ({
+    name: body.name,
+    color: body.color ?? 'gray',
+    size: body.size ?? 0.5,
+    textureKey: body.textureKey ?? undefined,
+}));
+
+// How long an eclipse stays highlighted after the animation passes it (milliseconds)
+const ECLIPSE_HIGHLIGHT_MS = 3000;
+
+/**
+ * Scene lighting while an eclipse is highlighted: a solar eclipse darkens the scene,
+ * a lunar eclipse bathes it in the red light of the eclipsed Moon
+ */
+const getEclipseLighting = (eclipse: Eclipse | null): { color: string; intensity: number } => {
+    if (!eclipse) return {color: '#FFFFFF', intensity: 1};
+    return eclipse.kind === 'solar'
+        ? {color: '#FFFFFF', intensity: eclipse.type === 'partial' ? 0.6 : 0.25}
+        : {color: '#FF6E40', intensity: 0.7};
+};
 
 /**
  * Isolated component for wave animation between planets
@@ -162,6 +175,7 @@ const SolarSystemScreen: React.FC = () => {
     const params = route.params || {};
     const selectedEvent: Event | undefined = params.event;
     const planetDataByDate: PlanetDataByDate = params.planetDataByDate || {};
+    const subDailyData: SubDailyPlanetData | undefined = params.subDailyData;
     const animationDuration = 20;
 
     // Animation state management
@@ -196,6 +210,12 @@ const SolarSystemScreen: React.FC = () => {
     // Brain model loading state
     const [brainModelsLoaded, setBrainModelsLoaded] = useState(false);
 
+    // Eclipses in the animated range and the one currently highlighted
+    const eclipses = useMemo(() => findEclipses(startDate, endDate), [startDate, endDate]);
+    const [activeEclipse, setActiveEclipse] = useState<Eclipse | null>(null);
+    const lastAnimatedDayRef = useRef('');
+    const eclipseLighting = getEclipseLighting(activeEclipse);
+
     // Event data
     const selectedPlanet = selectedEvent?.planet;
     const interaction = selectedEvent?.influence;
@@ -262,6 +282,32 @@ const SolarSystemScreen: React.FC = () => {
         }
     }, [isAnimationActive, startBrainAnimation]);
 
+    /**
+     * Highlights an eclipse when the animated date passes its day
+     */
+    useEffect(() => {
+        const day = currentDate.toISOString().split('T')[0];
+        const previousDay = lastAnimatedDayRef.current;
+        lastAnimatedDayRef.current = day;
+
+        const passed = eclipses.find((eclipse) => {
+            const eclipseDay = eclipse.date.split('T')[0];
+            return eclipseDay > previousDay && eclipseDay <= day;
+        });
+        if (passed) {
+            setActiveEclipse(passed);
+        }
+    }, [currentDate, eclipses]);
+
+    /**
+     * Ends the eclipse highlight after a while, unless the selected event is that eclipse
+     */
+    useEffect(() => {
+        if (!activeEclipse || selectedEvent?.mundaneEvent?.eclipse?.date === activeEclipse.date) return;
+        const timeout = setTimeout(() => setActiveEclipse(null), ECLIPSE_HIGHLIGHT_MS);
+        return () => clearTimeout(timeout);
+    }, [activeEclipse, selectedEvent]);
+
     /**
      * Обработчик успешной загрузки 3D-моделей мозга
      */
@@ -371,7 +417,7 @@ const SolarSystemScreen: React.FC = () => {
                 backgroundColor="transparent"
                 barStyle="light-content"
             />
-            <DateTimeDisplay date={currentDate}/>
+            <DateTimeDisplay date={currentDate} eclipse={activeEclipse}/>
             <Canvas
                 style={styles.canvas}
                 frameloop={readyToAnimate && isAnimationActive ? 'always' : 'demand'}
@@ -388,8 +434,8 @@ const SolarSystemScreen: React.FC = () => {
                         </mesh>
                     }
                 >
-                    <ambientLight intensity={1}/>
-                    <pointLight position={[10, 10, 10]} intensity={1}/>
+                    <ambientLight color={eclipseLighting.color} intensity={eclipseLighting.intensity}/>
+                    <pointLight position={[10, 10, 10]} color={eclipseLighting.color} intensity={eclipseLighting.intensity}/>
 
                     <Initializer onReady={handleReadyToAnimate}/>
                     <CameraInteractionObserver
@@ -406,6 +452,7 @@ const SolarSystemScreen: React.FC = () => {
                                 animationDuration={animationDuration}
                                 onDateChange={setCurrentDate}
                                 planetDataByDate={planetDataByDate}
+                                subDailyData={subDailyData}
                                 celestialBodies={celestialBodies}
                                 isAnimationActive={isAnimationActive}
                                 setIsAnimationActive={setIsAnimationActive}
@@ -0,0 +1,446 @@
+/**
+ * A screen component for comparing the natal charts of two profiles (synastry).
+ *
+ * This component lets users:
+ * - Choose the two people from the saved profiles
+ * - Widen or tighten the orbs of the comparison (on top of the aspect settings)
+ * - See the harmonious and challenging contacts between the charts, tightest first
+ * - See in which houses of one chart the other person's bodies fall (when the birth time is known)
+ * - Create the composite or Davison chart of the couple, kept as a profile of its own
+ *
+ * Both charts must have been calculated on the natal chart screen of their profile.
+ */
+
+import React, {useEffect, useMemo, useState} from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    TouchableOpacity,
+    ScrollView,
+    StatusBar,
+    Alert,
+} from 'react-native';
+import {LinearGradient} from 'expo-linear-gradient';
+import {Picker} from '@react-native-picker/picker';
+import Icon from 'react-native-vector-icons/FontAwesome';
+import {AspectSettings, HouseCusps, HouseOverlay, NatalChartEntry, Profile, RelationshipChartKind} from '../types';
+import {useNavigation} from '../navigation/AppNavigator';
+import {loadNatalChart, loadNatalHouses} from '../utils/eventHelpers';
+import {loadActiveProfile, loadProfiles, setActiveProfile} from '../utils/profiles';
+import {createRelationshipProfile, relationshipChartNames} from '../utils/relationshipCharts';
+import {DEFAULT_ASPECT_SETTINGS, getAspectDefinition, loadAspectSettings} from '../utils/aspects';
+import {getBodyGlyph} from '../utils/bodies';
+import {calculateSynastry} from '../utils/synastry';
+
+// Step and range of the synastry orb factor
+const ORB_SCALE_STEP = 0.25;
+const MIN_ORB_SCALE = 0.25;
+const MAX_ORB_SCALE = 1.5;
+
+/**
+ * Natal chart of a profile with its houses
+ */
+interface ProfileChart {
+    chart: NatalChartEntry[] | null;
+    houses: HouseCusps | null;
+}
+
+/**
+ * Loads the natal chart and houses of a profile
+ */
+async function loadProfileChart(profileId: string): Promise<ProfileChart> {
+    return {chart: await loadNatalChart(profileId), houses: await loadNatalHouses(profileId)};
+}
+
+const SynastryScreen: React.FC = () => {
+    const navigation = useNavigation();
+    const [profiles, setProfiles] = useState<Profile[]>([]);
+    const [firstProfileId, setFirstProfileId] = useState<string | null>(null);
+    const [secondProfileId, setSecondProfileId] = useState<string | null>(null);
+    const [firstChart, setFirstChart] = useState<ProfileChart | null>(null);
+    const [secondChart, setSecondChart] = useState<ProfileChart | null>(null);
+    const [settings, setSettings] = useState<AspectSettings>(DEFAULT_ASPECT_SETTINGS);
+    const [orbScale, setOrbScale] = useState(1);
+    const [isCreatingChart, setIsCreatingChart] = useState(false);
+
+    /**
+     * Load the profiles and the aspect settings on mount
+     * The active profile is compared with the next one by default
+     */
+    useEffect(() => {
+        const loadSavedData = async () => {
+            const savedProfiles = await loadProfiles();
+            const activeProfile = await loadActiveProfile();
+            setProfiles([...savedProfiles]);
+            setFirstProfileId(activeProfile.id);
+            setSecondProfileId(savedProfiles.find(profile => profile.id !== activeProfile.id)?.id ?? activeProfile.id);
+            setSettings(await loadAspectSettings());
+        };
+        loadSavedData();
+    }, []);
+
+    useEffect(() => {
+        if (firstProfileId) loadProfileChart(firstProfileId).then(setFirstChart);
+    }, [firstProfileId]);
+
+    useEffect(() => {
+        if (secondProfileId) loadProfileChart(secondProfileId).then(setSecondChart);
+    }, [secondProfileId]);
+
+    const getProfileName = (profileId: string | null) =>
+        profiles.find(profile => profile.id === profileId)?.name ?? '';
+    const firstName = getProfileName(firstProfileId);
+    const secondName = getProfileName(secondProfileId);
+
+    const synastry = useMemo(() => {
+        if (!firstChart?.chart || !secondChart?.chart) return null;
+        return calculateSynastry(
+            firstChart.chart,
+            secondChart.chart,
+            firstChart.houses,
+            secondChart.houses,
+            settings,
+            orbScale
+        );
+    }, [firstChart, secondChart, settings, orbScale]);
+
+    /**
+     * Changes the orb factor by a number of steps within its range
+     */
+    const changeOrbScale = (steps: number) => {
+        setOrbScale(Math.min(MAX_ORB_SCALE, Math.max(MIN_ORB_SCALE, orbScale + steps * ORB_SCALE_STEP)));
+    };
+
+    /**
+     * Creates the composite or Davison chart of the two people and opens it as the active profile
+     */
+    const createRelationshipChart = async (kind: RelationshipChartKind) => {
+        const first = profiles.find(profile => profile.id === firstProfileId);
+        const second = profiles.find(profile => profile.id === secondProfileId);
+        if (!first || !second) return;
+
+        setIsCreatingChart(true);
+        try {
+            const profile = await createRelationshipProfile(kind, first, second);
+            await setActiveProfile(profile.id);
+            navigation.navigate('NatalChart');
+        } catch (error) {
+            console.error('Failed to create relationship chart:', error);
+            Alert.alert('Error', error instanceof Error ? error.message : 'Failed to create the chart. Please try again.');
+        } finally {
+            setIsCreatingChart(false);
+        }
+    };
+
+    /**
+     * Renders a profile picker
+     */
+    const renderProfilePicker = (label: string, selected: string | null, onChange: (profileId: string) => void) => (
+        <>
+            <Text style={styles.label}>{label}</Text>
+            <View style={styles.pickerContainer}>
+                <Picker
+                    selectedValue={selected ?? undefined}
+                    style={styles.picker}
+                    onValueChange={(itemValue) => onChange(itemValue as string)}
+                >
+                    {profiles.map((profile) => (
+                        <Picker.Item key={profile.id} label={profile.name} value={profile.id} color="#333333"/>
+                    ))}
+                </Picker>
+            </View>
+        </>
+    );
+
+    /**
+     * Renders the house overlays of one person in the other's chart
+     */
+    const renderOverlays = (title: string, overlays: HouseOverlay[] | null, housesOwner: string) => (
+        <>
+            <Text style={[styles.sectionTitle, {marginTop: 12}]}>{title}</Text>
+            {overlays ? (
+                overlays.map((overlay) => (
+                    <View key={overlay.body} style={styles.item}>
+                        <Text style={styles.itemText}>
+                            <Text style={styles.bodyText}>{getBodyGlyph(overlay.body)} {overlay.body}</Text>
+                            {` in house ${overlay.house}`}
+                        </Text>
+                    </View>
+                ))
+            ) : (
+                <Text style={styles.noteText}>{housesOwner}'s birth time is unknown, so the chart has no houses.</Text>
+            )}
+        </>
+    );
+
+    // Profiles whose chart cannot be compared yet
+    const missingCharts = [
+        firstChart && !firstChart.chart ? firstName : null,
+        secondChart && !secondChart.chart && secondProfileId !== firstProfileId ? secondName : null,
+    ].filter((name): name is string => !!name);
+
+    return (
+        <LinearGradient colors={['#F0F0F0', '#FFFFFF']} style={styles.container}>
+            <StatusBar
+                translucent
+                backgroundColor="transparent"
+                barStyle="dark-content"
+            />
+
+            {/* Header with back button */}
+            <View style={styles.header}>
+                <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+                    <Icon name="arrow-left" size={18} color="#333333"/>
+                </TouchableOpacity>
+                <Text style={styles.headerText}>Synastry</Text>
+                <View style={{width: 40}}/>
+            </View>
+
+            <ScrollView contentContainerStyle={styles.scrollViewContent}>
+                <View style={styles.card}>
+                    {renderProfilePicker('First Person', firstProfileId, setFirstProfileId)}
+                    {renderProfilePicker('Second Person', secondProfileId, setSecondProfileId)}
+
+                    <View style={styles.orbRow}>
+                        <Text style={styles.label}>Orbs</Text>
+                        <View style={styles.stepper}>
+                            <TouchableOpacity style={styles.stepButton} onPress={() => changeOrbScale(-1)}>
+                                <Icon name="minus" size={10} color="#333333"/>
+                            </TouchableOpacity>
+                            <Text style={styles.stepValue}>{Math.round(orbScale * 100)}%</Text>
+                            <TouchableOpacity style={styles.stepButton} onPress={() => changeOrbScale(1)}>
+                                <Icon name="plus" size={10} color="#333333"/>
+                            </TouchableOpacity>
+                        </View>
+                    </View>
+                    <TouchableOpacity style={styles.linkButton} onPress={() => navigation.navigate('AspectSettings')}>
+                        <Icon name="sliders" size={14} color="#4A00E0"/>
+                        <Text style={styles.linkButtonText}>Aspects & Orbs</Text>
+                    </TouchableOpacity>
+                </View>
+
+                {profiles.length < 2 && (
+                    <Text style={styles.noteText}>
+                        Add a profile for the other person on the events screen to compare charts.
+                    </Text>
+                )}
+                {missingCharts.map((name) => (
+                    <Text key={name} style={styles.noteText}>
+                        {name} has no complete natal chart yet. Calculate it on the natal chart screen of the profile.
+                    </Text>
+                ))}
+
+                {synastry && (
+                    <View style={styles.card}>
+                        {/* Summary of harmonious and challenging contacts */}
+                        <Text style={styles.sectionTitle}>Summary</Text>
+                        <View style={styles.harmonyBar}>
+                            <View style={[styles.harmonyPositive, {flex: synastry.harmony}]}/>
+                            <View style={[styles.harmonyNegative, {flex: 100 - synastry.harmony}]}/>
+                        </View>
+                        <Text style={styles.itemText}>
+                            {synastry.harmonious} harmonious and {synastry.challenging} challenging contacts
+                            {synastry.aspects.length > 0 ? ` (${synastry.harmony}% harmonious by closeness)` : ''}
+                        </Text>
+
+                        {/* Inter-chart aspects */}
+                        <Text style={[styles.sectionTitle, {marginTop: 12}]}>
+                            {firstName} – {secondName} Aspects
+                        </Text>
+                        {synastry.aspects.length === 0 ? (
+                            <Text style={styles.noteText}>No aspects between the charts with these orbs.</Text>
+                        ) : (
+                            synastry.aspects.map((aspect) => (
+                                <View key={`${aspect.firstBody}-${aspect.secondBody}`} style={styles.item}>
+                                    <Text style={styles.itemText}>
+                                        <Text style={styles.bodyText}>{getBodyGlyph(aspect.firstBody)} {aspect.firstBody}</Text>
+                                        <Text style={aspect.influence === 'positive' ? styles.positive : styles.negative}>
+                                            {` ${getAspectDefinition(aspect.aspectType)?.glyph ?? '?'} `}
+                                        </Text>
+                                        <Text style={styles.bodyText}>{getBodyGlyph(aspect.secondBody)} {aspect.secondBody}</Text>
+                                        {` · ${getAspectDefinition(aspect.aspectType)?.name ?? aspect.aspectType}, orb ${aspect.orb.toFixed(2)}°`}
+                                    </Text>
+                                </View>
+                            ))
+                        )}
+
+                        {/* House overlays in both directions */}
+                        {renderOverlays(`${firstName} in ${secondName}'s Houses`, synastry.firstInSecondHouses, secondName)}
+                        {renderOverlays(`${secondName} in ${firstName}'s Houses`, synastry.secondInFirstHouses, firstName)}
+                    </View>
+                )}
+
+                {/* Relationship charts, usable like a natal chart (e.g. for transits) */}
+                {synastry && firstProfileId !== secondProfileId && (
+                    <View style={styles.card}>
+                        <Text style={styles.sectionTitle}>Relationship Charts</Text>
+                        <Text style={styles.noteText}>
+                            Composite: midpoints of both charts. Davison: chart of the moment and place halfway
+                            between both births. Each is added as a profile, so transits can be calculated to it.
+                        </Text>
+                        {(Object.keys(relationshipChartNames) as RelationshipChartKind[]).map((kind) => (
+                            <TouchableOpacity
+                                key={kind}
+                                style={[styles.chartButton, isCreatingChart && styles.disabledButton]}
+                                onPress={() => createRelationshipChart(kind)}
+                                disabled={isCreatingChart}
+                            >
+                                <LinearGradient colors={['#4A00E0', '#8E2DE2']} style={styles.chartButtonGradient}>
+                                    <Text style={styles.chartButtonText}>Create {relationshipChartNames[kind]} Chart</Text>
+                                </LinearGradient>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+                )}
+            </ScrollView>
+        </LinearGradient>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginTop: 50,
+        marginBottom: 10,
+        paddingHorizontal: 16,
+    },
+    headerText: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#333333',
+    },
+    backButton: {
+        backgroundColor: '#E0E0E0',
+        padding: 8,
+        borderRadius: 20,
+        justifyContent: 'center',
+        alignItems: 'center',
+        width: 40,
+        height: 40,
+    },
+    scrollViewContent: {
+        paddingTop: 10,
+        paddingBottom: 40,
+        paddingHorizontal: 16,
+    },
+    card: {
+        backgroundColor: '#FFFFFF',
+        padding: 16,
+        borderRadius: 12,
+        shadowColor: '#000',
+        shadowOffset: {width: 0, height: 2},
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+        elevation: 3,
+        marginBottom: 20,
+    },
+    label: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#333333',
+        marginBottom: 8,
+    },
+    pickerContainer: {
+        backgroundColor: '#E0E0E0',
+        borderRadius: 8,
+        marginBottom: 16,
+    },
+    picker: {color: '#333333', height: 50},
+    orbRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+    },
+    stepper: {flexDirection: 'row', alignItems: 'center', marginBottom: 8},
+    stepButton: {
+        backgroundColor: '#E0E0E0',
+        width: 26,
+        height: 26,
+        borderRadius: 13,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    stepValue: {minWidth: 48, textAlign: 'center', fontSize: 14, color: '#333333'},
+    linkButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        alignSelf: 'flex-start',
+        paddingVertical: 6,
+    },
+    linkButtonText: {
+        marginLeft: 8,
+        fontSize: 14,
+        fontWeight: '500',
+        color: '#4A00E0',
+    },
+    sectionTitle: {
+        fontSize: 18,
+        fontWeight: 'bold',
+        color: '#333333',
+        marginBottom: 12,
+    },
+    item: {
+        backgroundColor: '#F5F5F5',
+        padding: 10,
+        borderRadius: 8,
+        marginBottom: 8,
+    },
+    itemText: {
+        fontSize: 14,
+        color: '#333333',
+    },
+    bodyText: {
+        fontWeight: 'bold',
+        color: '#4CAF50',
+    },
+    positive: {
+        fontWeight: 'bold',
+        color: '#2E7D32',
+    },
+    negative: {
+        fontWeight: 'bold',
+        color: '#C62828',
+    },
+    noteText: {
+        fontSize: 14,
+        color: '#666666',
+        fontStyle: 'italic',
+        marginBottom: 12,
+    },
+    chartButton: {
+        borderRadius: 8,
+        overflow: 'hidden',
+        marginBottom: 8,
+    },
+    chartButtonGradient: {
+        paddingVertical: 12,
+        alignItems: 'center',
+    },
+    chartButtonText: {
+        color: '#FFFFFF',
+        fontSize: 16,
+        fontWeight: 'bold',
+    },
+    disabledButton: {opacity: 0.6},
+    harmonyBar: {
+        flexDirection: 'row',
+        height: 10,
+        borderRadius: 5,
+        overflow: 'hidden',
+        marginBottom: 8,
+    },
+    harmonyPositive: {
+        backgroundColor: '#2E7D32',
+    },
+    harmonyNegative: {
+        backgroundColor: '#C62828',
+    },
+});
+
+export default SynastryScreen;
@@ -115,8 +115,15 @@ const PlanetDataManagementScreen = () => {
 
         setIsLoadingRange(true);
         try {
-            await PlanetDataService.fetchAndStoreDataForRange(startStr, endStr);
-            Alert.alert('Success', `Data loaded for range: ${startStr} to ${endStr}`);
+            const failedBodies = await PlanetDataService.fetchAndStoreDataForRange(startStr, endStr);
+            if (failedBodies.length > 0) {
+                Alert.alert(
+                    'Partially Loaded',
+                    `Data loaded for range: ${startStr} to ${endStr}, except for: ${failedBodies.map(body => body.name).join(', ')}`
+                );
+            } else {
+                Alert.alert('Success', `Data loaded for range: ${startStr} to ${endStr}`);
+            }
 
             // Important: Completely refresh the list of available dates
             await loadStoredData();
@@ -139,8 +146,15 @@ const PlanetDataManagementScreen = () => {
     const initializeDefaultData = async () => {
         setIsInitializing(true);
         try {
-            await PlanetDataService.initializeDataStore();
-            Alert.alert('Success', 'Data initialized for current month + 2 months ahead');
+            const failedBodies = await PlanetDataService.initializeDataStore();
+            if (failedBodies.length > 0) {
+                Alert.alert(
+                    'Partially Initialized',
+                    `Data initialized for current month + 2 months ahead, except for: ${failedBodies.map(body => body.name).join(', ')}`
+                );
+            } else {
+                Alert.alert('Success', 'Data initialized for current month + 2 months ahead');
+            }
             loadStoredData(); // Refresh the data list
         } catch (error) {
             console.error('Failed to initialize default data:', error);
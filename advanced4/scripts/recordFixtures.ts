@@ -0,0 +1,95 @@
+/**
+ * Records Horizons responses into fixtures/horizons.json for the fixture ephemeris provider.
+ *
+ * Requests the transit positions (sub-daily for fast bodies), the daily positions used by the
+ * sky event scan and the orbital elements used by the 3D view for a date range, and optionally
+ * the natal snapshot of a birth moment, directly from Horizons through a recording transport.
+ * New responses are merged into the existing file, so several ranges and birth moments can be
+ * recorded one after another. Requests that fail are listed after saving.
+ *
+ * Usage: npm run record-fixtures -- <startDate> <endDate> [<birthDate> <latitude> <longitude>]
+ *        (dates as YYYY-MM-DD, the birth date as local YYYY-MM-DDTHH:mm at the birth location)
+ */
+
+import {readFileSync, writeFileSync} from 'fs';
+import path from 'path';
+import {FailedBody} from '../types';
+import {fetchDirect} from '../utils/api';
+import {getRenderedBodies, getTransitingBodies} from '../utils/bodies';
+import {createRecordingTransport, HorizonsEphemerisProvider, MemoryFixtureStore} from '../utils/ephemerisProvider';
+import {describeHorizonsError} from '../utils/horizonsParser';
+import {fetchTransitPositions} from '../utils/transitEngine';
+
+const FIXTURE_FILE = path.join(__dirname, '..', 'fixtures', 'horizons.json');
+
+/**
+ * Birth moment and location of a recorded natal snapshot
+ */
+interface BirthData {
+    birthDate: string;
+    latitude: number;
+    longitude: number;
+}
+
+async function recordFixtures(startDate: string, endDate: string, birth: BirthData | null): Promise<void> {
+    const store = new MemoryFixtureStore(JSON.parse(readFileSync(FIXTURE_FILE, 'utf8')));
+    const provider = new HorizonsEphemerisProvider(createRecordingTransport(fetchDirect, store), 'recording');
+    const transitingBodies = getTransitingBodies();
+
+    // Positions of the transit scan, then the daily positions of the sky event scan
+    const {failedBodies} = await fetchTransitPositions(provider, transitingBodies, startDate, endDate);
+    for (const body of transitingBodies) {
+        try {
+            await provider.getPlanetPositions(body.id, startDate, endDate);
+        } catch (error) {
+            failedBodies.push({name: body.name, error: describeHorizonsError(error)});
+        }
+    }
+
+    // Orbital elements of the 3D view (the Sun sits at the center and is never requested)
+    for (const body of getRenderedBodies().filter(body => body.id !== '10')) {
+        try {
+            await provider.getOrbitalElements(body.id, startDate, endDate);
+            if (body.samplesPerDay && body.samplesPerDay > 1) {
+                await provider.getOrbitalElementSamples(body.id, startDate, endDate, body.samplesPerDay);
+            }
+        } catch (error) {
+            failedBodies.push({name: body.name, error: describeHorizonsError(error)});
+        }
+    }
+
+    // Natal snapshot of the birth moment (calculated points come from the local ephemeris and are not recorded)
+    if (birth) {
+        const chart = await provider.getNatalSnapshot(birth.birthDate, birth.latitude, birth.longitude);
+        chart.filter(entry => entry.status === 'failed')
+            .forEach(entry => failedBodies.push({name: `${entry.name} (natal)`, error: entry.error ?? 'unknown error'}));
+    }
+
+    const responses = store.toJSON();
+    writeFileSync(FIXTURE_FILE, `${JSON.stringify(responses, null, 2)}\n`);
+    console.log(`[RecordFixtures] Saved ${Object.keys(responses).length} responses to ${FIXTURE_FILE}`);
+    reportFailures(failedBodies);
+}
+
+/**
+ * Lists the bodies whose requests failed and marks the run as failed
+ * @param failedBodies - Bodies whose requests failed, with the reasons
+ */
+function reportFailures(failedBodies: FailedBody[]): void {
+    if (failedBodies.length === 0) return;
+    for (const {name, error} of failedBodies) {
+        console.error(`[RecordFixtures] Not recorded: ${name} (${error})`);
+    }
+    process.exitCode = 1;
+}
+
+const [startDate, endDate, birthDate, latitude, longitude] = process.argv.slice(2);
+if (!startDate || !endDate || (birthDate && (isNaN(Number(latitude)) || isNaN(Number(longitude))))) {
+    console.error('Usage: npm run record-fixtures -- <startDate> <endDate> [<birthDate> <latitude> <longitude>]');
+    process.exit(1);
+}
+const birth = birthDate ? {birthDate, latitude: Number(latitude), longitude: Number(longitude)} : null;
+recordFixtures(startDate, endDate, birth).catch((error) => {
+    console.error('[RecordFixtures] Recording failed:', error);
+    process.exit(1);
+});
@@ -26,6 +26,14 @@ export interface PlanetDataByDate {
     [date: string]: PlanetData[];
 }
 
+/**
+ * Sub-daily orbital samples of fast bodies (e.g. the Moon), keyed by body name
+ * and then by UTC sample time in ISO format
+ */
+export interface SubDailyPlanetData {
+    [bodyName: string]: { [time: string]: PlanetData };
+}
+
 /**
  * Represents an astrological event, either a manual entry or transit event.
  * Contains timing information, associated planet, and influence type.
@@ -40,6 +48,10 @@ export interface Event {
     isLoading?: boolean;                        // Loading state indicator
     isTransitEvent?: boolean;                   // Whether this is a transit event
     transitEvent?: TransitEvent;                // Additional details for transit events
+    isStationEvent?: boolean;                   // Whether this is a planetary station
+    stationEvent?: StationEvent;                // Additional details for station events
+    isMundaneEvent?: boolean;                   // Whether this is a sky event, independent of any natal chart
+    mundaneEvent?: MundaneEvent;                // Additional details for sky events
 }
 
 /**
@@ -52,6 +64,98 @@ export interface TransitEvent {
     aspectType: string;                         // Type of aspect (Conjunction, Opposition, etc.)
     date: string;                               // Date of the transit in ISO format
     influence: 'positive' | 'negative';         // Whether the aspect is considered positive or negative
+    transitSign?: string;                       // Sign of the transit planet at the peak, in the selected zodiac
+    includesRetrograde?: boolean;               // Whether the transit planet is retrograde during the window
+    enterOrbDate?: string;                      // Moment the aspect enters its orb (ISO, minute precision)
+    exactDate?: string;                         // Moment the aspect is exact, or closest if it never perfects (ISO)
+    leaveOrbDate?: string;                      // Moment the aspect leaves its orb (ISO, minute precision)
+    perfects?: boolean;                         // Whether the aspect becomes exact within the window
+    passes?: TransitPass[];                     // Exact hits of the transit (several around a retrograde)
+    days?: TransitDay[];                        // Orb, phase and intensity for each day of the window
+}
+
+/**
+ * Strength of a transit on one day of its window.
+ */
+export interface TransitDay {
+    date: string;                               // Day (YYYY-MM-DD), position at 0h UT
+    orb: number;                                // Distance from the exact aspect in degrees
+    phase: 'applying' | 'separating';           // Whether the aspect is getting closer or moving apart
+    intensity: number;                          // Strength from 0 (out of orb) to 1 (exact, heaviest planet)
+}
+
+/**
+ * Single exact hit of a transit. Slow planets can perfect the same aspect up to
+ * three times around a retrograde; each hit is a pass of the parent transit.
+ */
+export interface TransitPass {
+    number: number;                             // Pass number, starting at 1
+    exactDate: string;                          // Moment of exactness, or of the closest approach (ISO)
+    perfects: boolean;                          // Whether the aspect becomes exact in this pass
+    retrograde: boolean;                        // Whether the transit planet is retrograde at the hit
+    enterOrbDate?: string;                      // Start of the orb window containing the pass (ISO)
+    leaveOrbDate?: string;                      // End of the orb window containing the pass (ISO)
+}
+
+/**
+ * Represents a station, the moment a planet turns retrograde or direct.
+ */
+export interface StationEvent {
+    planet: string;                             // The stationing planet
+    direction: 'retrograde' | 'direct';         // Direction of motion after the station
+    date: string;                               // Moment of the station in ISO format (sub-day precision)
+    longitude: number;                          // Tropical ecliptic longitude at the station in degrees
+    sign?: string;                              // Sign at the station, in the selected zodiac
+}
+
+/**
+ * Kinds of sky (mundane) events.
+ */
+export type MundaneEventKind = 'aspect' | 'ingress' | 'lunation' | 'station' | 'voidOfCourse' | 'eclipse';
+
+/**
+ * The four main phases of the Moon, at elongations of 0°, 90°, 180° and 270° from the Sun.
+ */
+export type LunarPhase = 'new' | 'firstQuarter' | 'full' | 'lastQuarter';
+
+/**
+ * Represents a solar or lunar eclipse at its greatest eclipse.
+ */
+export interface Eclipse {
+    kind: 'solar' | 'lunar';                    // Eclipse of the Sun (at a new moon) or of the Moon (at a full moon)
+    type: 'total' | 'annular' | 'hybrid' | 'partial' | 'penumbral'; // Type of the eclipse
+    date: string;                               // Moment of greatest eclipse (ISO)
+    magnitude: number;                          // Magnitude (umbral magnitude for lunar eclipses)
+    saros: number;                              // Number of the saros series
+    gamma: number;                              // Distance of the shadow axis from the Earth's center, in Earth radii
+    longitude: number;                          // Tropical ecliptic longitude of the Moon in degrees
+}
+
+/**
+ * Represents a sky (mundane) event: an aspect between two moving bodies, a sign ingress,
+ * a lunar phase, a station, a void-of-course Moon or an eclipse. These events do not depend on a natal chart.
+ */
+export interface MundaneEvent {
+    kind: MundaneEventKind;                     // Kind of sky event
+    date: string;                               // Exact moment of the event (ISO)
+    endDate?: string;                           // End of an event with a duration (void-of-course Moon, ISO)
+    planets: string[];                          // Bodies involved (two for aspects and lunations)
+    aspectType?: AspectType;                    // Aspect between the bodies (aspects)
+    sign?: string;                              // Sign entered (ingresses) or occupied (lunations, stations, void-of-course, eclipses)
+    phase?: LunarPhase;                         // Phase of a lunation
+    retrograde?: boolean;                       // Whether an ingress happens in retrograde motion
+    direction?: 'retrograde' | 'direct';        // Direction a station turns to
+    eclipse?: Eclipse;                          // Details of an eclipse
+}
+
+/**
+ * Interval during which a planet moves retrograde.
+ * Periods cut by the edges of the scanned range start or end at the range edge.
+ */
+export interface RetrogradePeriod {
+    planet: string;                             // The retrograde planet
+    start: string;                              // Station retrograde (or range start) in ISO format
+    end: string;                                // Station direct (or range end) in ISO format
 }
 
 /**
@@ -61,6 +165,7 @@ export interface CelestialBodyConfig {
     name: string;     // Name of the celestial body
     color: string;    // Color used for rendering
     size: number;     // Relative size for visualization
+    textureKey?: string; // Key of the preloaded texture, color is used when missing
 }
 
 /**
@@ -72,6 +177,7 @@ export type RootStackParamList = {
     SolarSystem: {
         event: Event;           // Event data (contains peakDate for animation end)
         planetDataByDate: PlanetDataByDate; // Planetary data for all days in animation range
+        subDailyData?: SubDailyPlanetData;  // Sub-daily samples of fast bodies such as the Moon
         preloadedTextures?: { [key: string]: any };
     };
     ModelDisplay: undefined;
@@ -79,8 +185,10 @@ export type RootStackParamList = {
     ScrollTest: undefined;
     NatalChart: undefined;
     AddEvent: undefined;
+    AspectSettings: undefined;
     TransitEvents: undefined;
     TestMenu: undefined;
+    Synastry: undefined;
 };
 
 /**
@@ -89,7 +197,203 @@ export type RootStackParamList = {
  */
 export interface NatalChartEntry {
     name: string;         // Planet name
-    longitude: number;    // Ecliptic longitude in degrees (0-360)
+    longitude: number;    // Tropical ecliptic longitude in degrees (0-360)
     sign: string;         // Zodiac sign
     degreeInSign: number; // Degrees within the sign (0-30)
-}
\ No newline at end of file
+    zodiac?: ZodiacType;  // Zodiac the sign and degree refer to (tropical when missing)
+    status?: 'ok' | 'failed'; // Whether the position was computed successfully
+    error?: string;       // Failure reason when status is 'failed'
+    house?: number;       // House (1-12) the body falls in for the selected house system
+}
+
+/**
+ * Body whose data could not be fetched, with the failure reason.
+ */
+export interface FailedBody {
+    name: string;         // Body name
+    error: string;        // Failure reason
+}
+
+/**
+ * Zodiacs supported for sign assignment: tropical, or sidereal with an ayanamsa.
+ */
+export type ZodiacType = 'tropical' | 'lahiri' | 'faganBradley' | 'raman' | 'krishnamurti';
+
+/**
+ * House systems supported for natal charts.
+ */
+export type HouseSystem = 'placidus' | 'koch' | 'equal' | 'wholeSign';
+
+/**
+ * Angles and house cusps of a natal chart.
+ * Placidus and Koch are undefined near the poles; system then holds the fallback actually used.
+ */
+export interface HouseCusps {
+    system: HouseSystem;  // House system the cusps were calculated with
+    ascendant: number;    // Ecliptic longitude of the Ascendant in degrees (0-360)
+    midheaven: number;    // Ecliptic longitude of the Midheaven (MC) in degrees (0-360)
+    cusps: number[];      // Ecliptic longitudes of the 12 house cusps, cusps[0] is the 1st house
+}
+
+/**
+ * Aspect between two bodies of a natal chart.
+ */
+export interface NatalAspect {
+    firstBody: string;                          // Body earlier in the chart order
+    secondBody: string;                         // Body later in the chart order
+    aspectType: AspectType;                     // Aspect formed between the bodies
+    orb: number;                                // Distance from the exact aspect in degrees
+    phase?: 'applying' | 'separating';          // Whether the aspect was getting closer at birth (when both speeds are known)
+}
+
+/**
+ * Configurations of several natal aspects.
+ */
+export type AspectPatternType = 'GrandTrine' | 'TSquare' | 'GrandCross' | 'Yod' | 'Stellium' | 'Kite';
+
+/**
+ * Aspect configuration found in a natal chart.
+ */
+export interface AspectPattern {
+    type: AspectPatternType;                    // Kind of configuration
+    bodies: string[];                           // Bodies forming the configuration
+    apex?: string;                              // Focal body (T-Square, Yod, Kite)
+    sign?: string;                              // Sign of a stellium
+}
+
+/**
+ * Aspect grid and configurations of a natal chart, stored with the chart.
+ */
+export interface NatalAspects {
+    aspects: NatalAspect[];                     // Aspect of every body pair that forms one, tightest first per pair
+    patterns: AspectPattern[];                  // Configurations found among the aspects
+}
+
+/**
+ * Aspect between a body of one chart and a body of another (synastry).
+ */
+export interface SynastryAspect {
+    firstBody: string;                          // Body or angle of the first chart
+    secondBody: string;                         // Body or angle of the second chart
+    aspectType: AspectType;                     // Aspect formed between the bodies
+    orb: number;                                // Distance from the exact aspect in degrees
+    influence: 'positive' | 'negative';         // Whether the contact is harmonious or challenging
+}
+
+/**
+ * House of the other chart a body falls in.
+ */
+export interface HouseOverlay {
+    body: string;                               // Body of one chart
+    house: number;                              // House (1-12) of the other chart
+}
+
+/**
+ * Comparison of two natal charts.
+ */
+export interface SynastryResult {
+    aspects: SynastryAspect[];                  // Inter-chart aspects, tightest first
+    firstInSecondHouses: HouseOverlay[] | null; // First chart's bodies in the second chart's houses (null without its houses)
+    secondInFirstHouses: HouseOverlay[] | null; // Second chart's bodies in the first chart's houses (null without its houses)
+    harmonious: number;                         // Number of positive contacts
+    challenging: number;                        // Number of negative contacts
+    harmony: number;                            // Share of the contacts' weight that is harmonious (0-100), tight aspects weigh more
+}
+
+/**
+ * Relationship charts: the midpoints of two natal charts (composite) or the chart of
+ * the moment and place halfway between two births (Davison).
+ */
+export type RelationshipChartKind = 'composite' | 'davison';
+
+/**
+ * Profiles a relationship chart is calculated from.
+ */
+export interface RelationshipChartSource {
+    kind: RelationshipChartKind;                // Method of the relationship chart
+    firstProfileId: string;                     // Profile of the first person
+    secondProfileId: string;                    // Profile of the second person
+}
+
+/**
+ * Person whose birth data, natal chart and events are kept in the app.
+ * The profile data itself is stored under keys scoped to the profile ID.
+ */
+export interface Profile {
+    id: string;                                 // Unique ID, prefix of the profile's storage keys
+    name: string;                               // Display name (e.g. "Me", "Anna")
+    createdAt: string;                          // Creation moment (ISO)
+    relationship?: RelationshipChartSource;     // Set when the profile holds the relationship chart of two others
+}
+
+/**
+ * Time zone resolved for a birth location and moment.
+ * Stored alongside the natal chart so the UTC conversion can be reviewed later.
+ */
+export interface BirthTimeZone {
+    zone: string;          // IANA time zone name (e.g. "Europe/Madrid")
+    offsetMinutes: number; // UTC offset in effect at the birth moment, in minutes
+    abbreviation: string;  // Zone abbreviation at the birth moment (e.g. "CEST")
+}
+
+/**
+ * Category of a chart body; 'point' marks calculated points such as the lunar nodes.
+ */
+export type BodyKind = 'luminary' | 'planet' | 'dwarfPlanet' | 'centaur' | 'asteroid' | 'point';
+
+/**
+ * Entry of the body registry describing a chart body and where it is used.
+ */
+export interface BodyDefinition {
+    id: string;                 // Horizons ID, or a local identifier for calculated points
+    horizonsId: string | null;  // JPL Horizons COMMAND, null for points Horizons does not provide
+    name: string;               // Display name, also used as the key in charts and events
+    glyph: string;              // Astrological glyph
+    kind: BodyKind;             // Category of the body
+    textureKey: string | null;  // Texture used in the 3D visualization, null when untextured
+    rendered3D: boolean;        // Whether the body is drawn in the 3D solar system
+    natal: boolean;             // Whether the body is part of the natal chart
+    transiting: boolean;        // Whether the body is scanned for transits to the natal chart
+    orbitalPeriod: number;      // Period in days, used when Horizons does not report one
+    color?: string;             // Fallback color in the 3D visualization
+    size?: number;              // Relative size in the 3D visualization
+    orbitCorrection?: number;   // Compression of the orbit in the 3D visualization
+    transitWeight?: number;     // Relative strength of the body's transits (0-1)
+    orbFactor?: number;         // Default multiplier of aspect orbs involving the body
+    samplesPerDay?: number;     // Orbital element samples per day for fast bodies
+    transitSamplesPerDay?: number; // Position samples per day in transit scans (daily when missing)
+}
+
+/**
+ * Aspects that can be scanned in charts and transits.
+ */
+export type AspectType =
+    | 'Conjunction'
+    | 'Opposition'
+    | 'Trine'
+    | 'Square'
+    | 'Sextile'
+    | 'SemiSquare'
+    | 'Quincunx'
+    | 'SemiSextile'
+    | 'Quintile'
+    | 'BiQuintile'
+    | 'Septile';
+
+/**
+ * User configuration of a single aspect.
+ */
+export interface AspectConfig {
+    enabled: boolean;                    // Whether the aspect is scanned
+    orb: number;                         // Orb in degrees before the planet factors are applied
+    influence: 'positive' | 'negative';  // Classification of the aspect
+}
+
+/**
+ * Aspect settings used by every aspect calculation in the app.
+ * The orb of an aspect between two bodies is the aspect orb times the mean of their orb factors.
+ */
+export interface AspectSettings {
+    aspects: { [type in AspectType]: AspectConfig };
+    planetOrbFactors: { [bodyName: string]: number };  // Overrides of the registry orb factors
+}
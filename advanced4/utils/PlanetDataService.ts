@@ -2,28 +2,24 @@
  * Planet Data Service module for managing orbital data storage.
  * Provides caching, retrieval, and updating of planetary orbital elements
  * to minimize API calls and ensure data availability for visualization.
+ * Fast bodies (the Moon) are additionally stored with several samples per day.
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import {PlanetData} from '../types';
-import {fetchPlanetData} from './api';
-
-// Storage keys for persistent data
-const PLANET_DATA_KEY = 'planet_data_v2';
-const PLANET_DATA_META_KEY = 'planet_data_meta_v2';
-
-// Planet IDs for JPL Horizons API requests
-const PLANET_IDS = [
-    {id: '10', name: 'Sun'},
-    {id: '199', name: 'Mercury'},
-    {id: '299', name: 'Venus'},
-    {id: '399', name: 'Earth'},
-    {id: '499', name: 'Mars'},
-    {id: '599', name: 'Jupiter'},
-    {id: '699', name: 'Saturn'},
-    {id: '799', name: 'Uranus'},
-    {id: '899', name: 'Neptune'},
-];
+import {FailedBody, PlanetData, SubDailyPlanetData} from '../types';
+import {getEphemerisProvider} from './ephemerisProvider';
+import {getRenderedBodies} from './bodies';
+import {describeHorizonsError} from './horizonsParser';
+
+// Storage keys for persistent data (v3 added the Moon to the daily arrays)
+const PLANET_DATA_KEY = 'planet_data_v3';
+const PLANET_DATA_META_KEY = 'planet_data_meta_v3';
+const SUB_DAILY_DATA_KEY = 'planet_data_subdaily_v1';
+
+// Planet IDs for JPL Horizons API requests, in the same order as the bodies of the visualization.
+// Bodies with samplesPerDay are also stored with sub-daily samples.
+const PLANET_IDS: { id: string; name: string; samplesPerDay?: number }[] = getRenderedBodies()
+    .map(({id, name, samplesPerDay}) => ({id, name, samplesPerDay}));
 
 type PlanetDataByDate = {
     [date: string]: PlanetData[];
@@ -69,6 +65,33 @@ class PlanetDataService {
         }
     }
 
+    /**
+     * Retrieves stored sub-daily samples of fast bodies from local storage
+     * @returns Samples by body name and time, or an empty object if none exist
+     */
+    async getSubDailyData(): Promise<SubDailyPlanetData> {
+        try {
+            const data = await AsyncStorage.getItem(SUB_DAILY_DATA_KEY);
+            return data ? JSON.parse(data) : {};
+        } catch (error) {
+            console.error('[PlanetDataService] Error loading sub-daily data from storage:', error);
+            return {};
+        }
+    }
+
+    /**
+     * Saves sub-daily samples of fast bodies to local storage
+     * @param data - Samples by body name and time
+     */
+    async saveSubDailyData(data: SubDailyPlanetData): Promise<void> {
+        try {
+            await AsyncStorage.setItem(SUB_DAILY_DATA_KEY, JSON.stringify(data));
+        } catch (error) {
+            console.error('[PlanetDataService] Error saving sub-daily data to storage:', error);
+            throw error;
+        }
+    }
+
     /**
      * Retrieves metadata about stored planetary data
      * @returns Metadata object or null if no metadata exists
@@ -132,7 +155,7 @@ class PlanetDataService {
      */
     async clearAllData(): Promise<void> {
         try {
-            await AsyncStorage.multiRemove([PLANET_DATA_KEY, PLANET_DATA_META_KEY]);
+            await AsyncStorage.multiRemove([PLANET_DATA_KEY, PLANET_DATA_META_KEY, SUB_DAILY_DATA_KEY]);
             console.log('[PlanetDataService] All planet data successfully cleared');
         } catch (error) {
             console.error('[PlanetDataService] Error clearing planet data:', error);
@@ -169,13 +192,16 @@ class PlanetDataService {
      * Optimized version that uses a single request per planet for the entire date range
      * @param startDateStr - Start date in YYYY-MM-DD format
      * @param endDateStr - End date in YYYY-MM-DD format
+     * @returns Planets whose data could not be fetched, the data of the others is stored
      */
-    async fetchAndStoreDataForRange(startDateStr: string, endDateStr: string): Promise<void> {
+    async fetchAndStoreDataForRange(startDateStr: string, endDateStr: string): Promise<FailedBody[]> {
+        const failedBodies: FailedBody[] = [];
         try {
             console.log(`[PlanetDataService] Starting data fetch for range ${startDateStr} to ${endDateStr}`);
 
             // Get existing data or initialize empty object
             const existingData = await this.getAllStoredData() || {};
+            const existingSubDailyData = await this.getSubDailyData();
 
             // Generate list of dates to process
             const dateList = this.getDatesBetween(startDateStr, endDateStr);
@@ -216,7 +242,7 @@ class PlanetDataService {
                     console.log(`[PlanetDataService] Fetching data for ${planet.name} for date range ${startDateStr} to ${endDateStr}`);
 
                     // Request data for the entire date range in one API call
-                    const planetDataForRange = await fetchPlanetData(planet.id, startDateStr, endDateStr);
+                    const planetDataForRange = await getEphemerisProvider().getOrbitalElements(planet.id, startDateStr, endDateStr);
 
                     if (planetDataForRange.length === 0) {
                         console.warn(`[PlanetDataService] No data returned for ${planet.name}`);
@@ -240,8 +266,22 @@ class PlanetDataService {
                         }
                     }
 
+                    // Fast bodies also get sub-daily samples for smooth animation
+                    if (planet.samplesPerDay && planet.samplesPerDay > 1) {
+                        const samples = await getEphemerisProvider()
+                            .getOrbitalElementSamples(planet.id, startDateStr, endDateStr, planet.samplesPerDay);
+                        console.log(`[PlanetDataService] Received ${samples.length} sub-daily samples for ${planet.name}`);
+
+                        const bodySamples = existingSubDailyData[planet.name] || {};
+                        for (const {time, data} of samples) {
+                            bodySamples[time] = data;
+                        }
+                        existingSubDailyData[planet.name] = bodySamples;
+                    }
+
                 } catch (error) {
                     console.error(`[PlanetDataService] Error fetching data for ${planet.name}:`, error);
+                    failedBodies.push({name: planet.name, error: describeHorizonsError(error)});
                 }
             }
 
@@ -260,6 +300,7 @@ class PlanetDataService {
 
             // Save all data to storage
             await this.saveAllData(existingData);
+            await this.saveSubDailyData(existingSubDailyData);
 
             // Update metadata with new date range
             const meta = await this.getMetaData() || {
@@ -288,6 +329,7 @@ class PlanetDataService {
 
             console.log(`[PlanetDataService] Updating metadata range: ${meta.dataRange.start} to ${meta.dataRange.end}`);
             await this.setMetaData(meta);
+            return failedBodies;
 
         } catch (error) {
             console.error('[PlanetDataService] Error in fetchAndStoreDataForRange:', error);
@@ -298,8 +340,9 @@ class PlanetDataService {
     /**
      * Initializes the planet data store
      * By default, loads data for current month plus 2 months ahead
+     * @returns Planets whose data could not be fetched (none when the stored data is current)
      */
-    async initializeDataStore(): Promise<void> {
+    async initializeDataStore(): Promise<FailedBody[]> {
         try {
             const now = new Date();
             const yesterday = new Date(now);
@@ -319,7 +362,7 @@ class PlanetDataService {
                 // If data is current (covers the current date), do nothing
                 if (endDate > now) {
                     console.log(`[PlanetDataService] Data store is already initialized with data until ${meta.dataRange.end}`);
-                    return;
+                    return [];
                 }
 
                 // Otherwise update data for the next 3 months
@@ -328,8 +371,7 @@ class PlanetDataService {
                 const futureDateStr = futureDate.toISOString().split('T')[0];
 
                 console.log(`[PlanetDataService] Updating data range from ${currentDateStr} to ${futureDateStr}`);
-                await this.fetchAndStoreDataForRange(currentDateStr, futureDateStr);
-                return;
+                return await this.fetchAndStoreDataForRange(currentDateStr, futureDateStr);
             }
 
             // If no metadata exists, initialize store with data for current month + 2 months ahead
@@ -339,7 +381,7 @@ class PlanetDataService {
             const futureDateStr = futureDate.toISOString().split('T')[0];
 
             console.log(`[PlanetDataService] Initializing data store with range ${currentDateStr} to ${futureDateStr}`);
-            await this.fetchAndStoreDataForRange(currentDateStr, futureDateStr);
+            return await this.fetchAndStoreDataForRange(currentDateStr, futureDateStr);
 
         } catch (error) {
             console.error('[PlanetDataService] Error initializing data store:', error);
@@ -364,6 +406,18 @@ class PlanetDataService {
                 }
             }
             await this.saveAllData(filteredData);
+
+            // Remove sub-daily samples before the cutoff as well
+            const subDailyData = await this.getSubDailyData();
+            for (const bodyName of Object.keys(subDailyData)) {
+                for (const time of Object.keys(subDailyData[bodyName])) {
+                    if (new Date(time) < cutoff) {
+                        delete subDailyData[bodyName][time];
+                    }
+                }
+            }
+            await this.saveSubDailyData(subDailyData);
+
             // Update metadata
             const meta = await this.getMetaData();
             if (meta && meta.dataRange) {
@@ -410,12 +464,22 @@ class PlanetDataService {
             for (const date of dateList) {
                 if (!allData[date] ||
                     !Array.isArray(allData[date]) ||
-                    allData[date].length !== 9 ||
+                    allData[date].length !== PLANET_IDS.length ||
                     allData[date].some(data => data === null)) {
                     return false;
                 }
             }
 
+            // Check that fast bodies have sub-daily samples for all dates
+            const subDailyData = await this.getSubDailyData();
+            for (const planet of PLANET_IDS) {
+                if (!planet.samplesPerDay || planet.samplesPerDay <= 1) continue;
+                const sampledDates = new Set(Object.keys(subDailyData[planet.name] || {}).map(time => time.split('T')[0]));
+                if (dateList.some(date => !sampledDates.has(date))) {
+                    return false;
+                }
+            }
+
             return true;
         } catch (error) {
             console.error('Error checking data availability:', error);
@@ -0,0 +1,90 @@
+import {describe, it} from 'node:test';
+import assert from 'node:assert/strict';
+import {isCoreBody} from '../bodies';
+import {FixtureEphemerisProvider, LocalEphemerisProvider, MemoryFixtureStore} from '../ephemerisProvider';
+import {runTransitEngine} from '../transitEngine';
+
+// Range and birth moment of the bundled fixtures (fixtures/horizons.json). Noon UTC keeps the
+// calendar days of the requests the same in every time zone within ±11 hours.
+const START = '2025-01-01T12:00:00Z';
+const END = '2025-01-07T12:00:00Z';
+const BIRTH = {date: '1990-05-15T06:30', latitude: 40.7128, longitude: -74.006};
+
+/**
+ * Difference between two longitudes in degrees, across 0°
+ */
+function angularDistance(a: number, b: number): number {
+    const diff = Math.abs(a - b) % 360;
+    return diff > 180 ? 360 - diff : diff;
+}
+
+describe('FixtureEphemerisProvider with the bundled fixtures', () => {
+    const fixture = new FixtureEphemerisProvider();
+    const local = new LocalEphemerisProvider();
+
+    it('replays the daily positions of a range', async () => {
+        const mars = await fixture.getPlanetPositions('499', START, END);
+        const expected = await local.getPlanetPositions('499', START, END);
+        assert.deepEqual(mars.map(position => position.date), expected.map(position => position.date));
+        mars.forEach((position, index) => {
+            assert.ok(angularDistance(position.longitude, expected[index].longitude) < 0.1, `${position.date}: ${position.longitude}`);
+        });
+    });
+
+    it('replays the hourly positions of the Moon', async () => {
+        const moon = await fixture.getPlanetPositionSamples('301', START, END, 24);
+        assert.equal(moon.length, 7 * 24 + 1);
+        assert.equal(moon[1].date, '2025-01-01T01:00:00.000Z');
+        // The observer site sits on the Earth's surface, so the parallax of the Moon is part of the difference
+        const expected = await local.getPlanetPositionSamples('301', START, END, 24);
+        const expectedByTime = new Map(expected.map(position => [position.date, position.longitude]));
+        moon.filter(position => expectedByTime.has(position.date)).forEach((position) => {
+            assert.ok(angularDistance(position.longitude, expectedByTime.get(position.date)!) < 1.5, position.date);
+        });
+    });
+
+    it('replays the orbital elements of the 3D view', async () => {
+        const elements = await fixture.getOrbitalElements('499', START, END);
+        assert.deepEqual(elements.map(entry => entry.date), [
+            '2025-01-01', '2025-01-02', '2025-01-03', '2025-01-04', '2025-01-05', '2025-01-06', '2025-01-07',
+        ]);
+        const [{data}] = elements;
+        assert.ok(Math.abs(data.e - 0.0934) < 0.001);
+        assert.ok(Math.abs(data.a / 1.496e8 - 1.524) < 0.01);
+        assert.ok(Math.abs(data.T - 687) < 1);
+
+        const moonSamples = await fixture.getOrbitalElementSamples('301', START, END, 4);
+        assert.equal(moonSamples[0].time, '2025-01-01T00:00:00.000Z');
+        assert.equal(moonSamples[1].time, '2025-01-01T06:00:00.000Z');
+    });
+
+    it('replays the natal snapshot of the recorded birth moment', async () => {
+        const chart = await fixture.getNatalSnapshot(BIRTH.date, BIRTH.latitude, BIRTH.longitude);
+        const expected = await local.getNatalSnapshot(BIRTH.date, BIRTH.latitude, BIRTH.longitude);
+        assert.ok(expected.filter(entry => isCoreBody(entry.name)).length >= 10);
+        for (const entry of expected.filter(entry => isCoreBody(entry.name))) {
+            const replayed = chart.find(candidate => candidate.name === entry.name);
+            assert.equal(replayed?.status, 'ok', entry.name);
+            assert.ok(angularDistance(replayed!.longitude, entry.longitude) < 1.5, entry.name);
+            if (entry.name !== 'Moon') assert.equal(replayed!.sign, entry.sign, entry.name);
+        }
+    });
+
+    it('runs the transit engine on the recorded range', async () => {
+        const {events, failedBodies} = await runTransitEngine([{name: 'Sun', longitude: 285.4}], fixture, {
+            startDate: START,
+            endDate: END,
+            zodiac: 'tropical',
+        });
+        assert.deepEqual(failedBodies.filter(body => isCoreBody(body.name)), []);
+        // The transiting Sun crosses 285.4° on January 5
+        const conjunction = events.find(event =>
+            event.transitEvent?.transitPlanet === 'Sun' && event.transitEvent.aspectType === 'Conjunction');
+        assert.equal(conjunction?.transitEvent?.exactDate?.split('T')[0], '2025-01-05');
+    });
+
+    it('rejects requests that were not recorded', async () => {
+        const empty = new FixtureEphemerisProvider(new MemoryFixtureStore());
+        await assert.rejects(empty.getPlanetPositions('499', START, END), /No recorded fixture for request/);
+    });
+});
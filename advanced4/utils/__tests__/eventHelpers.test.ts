@@ -0,0 +1,74 @@
+import {describe, it} from 'node:test';
+import assert from 'node:assert/strict';
+import {Event, NatalChartEntry, TransitDay, TransitPass} from '../../types';
+import {createTransitEvent, isNatalChartComplete, mergeCalculatedEvents} from '../eventHelpers';
+
+function pass(exactDate: string, perfects = true): TransitPass {
+    return {number: 1, exactDate, perfects, retrograde: false};
+}
+
+function day(date: string, orb: number): TransitDay {
+    return {date, orb, phase: 'applying', intensity: 0.5};
+}
+
+function saturnTransit(startDate: string, endDate: string, passes: TransitPass[], days: TransitDay[]): Event {
+    return createTransitEvent('Sun', 'Saturn', 'Conjunction', startDate, endDate, passes[0].exactDate.split('T')[0],
+        'negative', 'Aries', passes, days);
+}
+
+describe('mergeCalculatedEvents', () => {
+    it('merges overlapping runs of a transit instead of keeping one of them', () => {
+        const saved = saturnTransit('2025-01-10', '2025-02-01',
+            [pass('2025-01-20T06:00:00.000Z')],
+            [day('2025-01-31', 0.9), day('2025-02-01', 1)]);
+        const calculated = saturnTransit('2025-01-25', '2025-04-10',
+            [pass('2025-01-20T06:00:00.000Z'), pass('2025-04-02T12:00:00.000Z')],
+            [day('2025-02-01', 0.8), day('2025-02-02', 0.7)]);
+
+        const {events, added, updated} = mergeCalculatedEvents([saved], [calculated]);
+        assert.equal(added, 0);
+        assert.equal(updated, 1);
+        assert.equal(events.length, 1);
+
+        const merged = events[0];
+        assert.equal(merged.startDate, '2025-01-10');
+        assert.equal(merged.endDate, '2025-04-10');
+        assert.deepEqual(merged.transitEvent!.passes!.map(p => [p.number, p.exactDate]), [
+            [1, '2025-01-20T06:00:00.000Z'],
+            [2, '2025-04-02T12:00:00.000Z'],
+        ]);
+        assert.deepEqual(merged.transitEvent!.days!.map(d => [d.date, d.orb]), [
+            ['2025-01-31', 0.9],
+            ['2025-02-01', 0.8],
+            ['2025-02-02', 0.7],
+        ]);
+    });
+
+    it('appends events that match nothing and leaves manual events alone', () => {
+        const manual: Event = {
+            name: 'Trip', startDate: '2025-01-01', endDate: '2025-01-05', peakDate: '2025-01-03', planet: '', influence: 'positive',
+        };
+        const calculated = saturnTransit('2025-06-01', '2025-06-20', [pass('2025-06-10T00:00:00.000Z')], []);
+
+        const {events, added, updated} = mergeCalculatedEvents([manual], [calculated]);
+        assert.deepEqual(events, [manual, calculated]);
+        assert.equal(added, 1);
+        assert.equal(updated, 0);
+    });
+});
+
+describe('isNatalChartComplete', () => {
+    const entry = (name: string, status: NatalChartEntry['status'] = 'ok'): NatalChartEntry => ({
+        name, longitude: 10, sign: status === 'ok' ? 'Aries' : 'Unknown', degreeInSign: 10, status,
+    });
+
+    it('accepts a chart whose only failures are minor bodies', () => {
+        assert.equal(isNatalChartComplete([entry('Sun'), entry('Mars'), entry('Vesta', 'failed'), entry('Chiron', 'failed')]), true);
+    });
+
+    it('rejects a chart with a failed core body', () => {
+        assert.equal(isNatalChartComplete([entry('Sun'), entry('Mars', 'failed'), entry('Vesta')]), false);
+        assert.equal(isNatalChartComplete([entry('Pluto', 'failed')]), false);
+        assert.equal(isNatalChartComplete([]), false);
+    });
+});
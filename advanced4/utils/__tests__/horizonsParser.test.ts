@@ -0,0 +1,214 @@
+import {describe, it} from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    HorizonsNoDataError,
+    HorizonsParseError,
+    HorizonsQuotaError,
+    HorizonsRequestError,
+    parseElementsTable,
+    parseObserverTable,
+} from '../horizonsParser';
+
+// OBSERVER table of Mars (QUANTITIES='31') as returned with format=text, header shortened
+const MARS_OBSERVER = `API VERSION: 1.2
+API SOURCE: NASA/JPL Horizons API
+
+*******************************************************************************
+Ephemeris / API_USER Wed Jan  1 12:00:00 2025 Pasadena, USA      / Horizons
+*******************************************************************************
+Target body name: Mars (499)                      {source: mar099}
+Center body name: Earth (399)                     {source: DE441}
+Center-site name: (user defined site below)
+*******************************************************************************
+Start time      : A.D. 2025-Jan-01 00:00:00.0000 UT
+Stop  time      : A.D. 2025-Jan-03 00:00:00.0000 UT
+Step-size       : 1440 minutes
+*******************************************************************************
+ Date__(UT)__HR:MN     ObsEcLon    ObsEcLat
+***************************************************
+$$SOE
+ 2025-Jan-01 00:00  121.9271748   3.3124516
+ 2025-Jan-02 00:00  121.5943847   3.3792205
+ 2025-Jan-03 00:00  121.2522152   3.4453601
+$$EOE
+***************************************************
+`;
+
+// Hourly OBSERVER table of the Moon for a topocentric site, with solar and lunar presence flags
+const MOON_OBSERVER_WITH_FLAGS = `*******************************************************************************
+Target body name: Moon (301)                      {source: DE441}
+Center body name: Earth (399)                     {source: DE441}
+Center-site name: (user defined site below)
+*******************************************************************************
+ Date__(UT)__HR:MN     ObsEcLon    ObsEcLat
+***************************************************
+$$SOE
+ 2025-Mar-14 18:00 *m  173.2201846  -0.8142287
+ 2025-Mar-14 19:00 Cr  173.7813406  -0.8603129
+ 2025-Mar-14 20:00 N   174.3420318  -0.9061740
+ 2025-Mar-14 21:00 At  174.9022681  -0.9517923
+ 2025-Mar-14 22:00     175.4620600  -0.9971488
+$$EOE
+***************************************************
+`;
+
+// ELEMENTS table of Mars as returned with format=json
+const MARS_ELEMENTS = JSON.stringify({
+    signature: {source: 'NASA/JPL Horizons API', version: '1.2'},
+    result: `*******************************************************************************
+Target body name: Mars (499)                      {source: mar099}
+Center body name: Sun (10)                        {source: DE441}
+Center-site name: BODY CENTER
+*******************************************************************************
+Output units    : KM-S, deg, Julian Day Number (Tp)
+Reference frame : Ecliptic of J2000.0
+*******************************************************************************
+$$SOE
+2460676.500000000 = A.D. 2025-Jan-01 00:00:00.0000 TDB
+ EC= 9.341380554135406E-02 QR= 2.066513826398521E+08 IN= 1.847658536652275E+00
+ OM= 4.948639354303775E+01 W = 2.866810826392793E+02 Tp=  2460446.895139520802
+ N = 6.065316219471054E-06 MA= 1.244862230584449E+02 TA= 1.337205447105372E+02
+ A = 2.279445132147184E+08 AD= 2.492376437895847E+08 PR= 5.935642907797071E+07
+2460677.500000000 = A.D. 2025-Jan-02 00:00:00.0000 TDB
+ EC= 9.341380769932804E-02 QR= 2.066513821962104E+08 IN= 1.847658314029140E+00
+ OM= 4.948638553281379E+01 W = 2.866811028168101E+02 Tp=  2460446.895156318228
+ N = 6.065316217456931E-06 MA= 1.250102438188596E+02 TA= 1.342237812466098E+02
+ A = 2.279445132903672E+08 AD= 2.492376443845240E+08 PR= 5.935642909768126E+07
+$$EOE
+*******************************************************************************
+`,
+});
+
+describe('parseObserverTable', () => {
+    it('reads the rows of a text response without flag columns', () => {
+        const rows = parseObserverTable(MARS_OBSERVER);
+        assert.deepEqual(rows.map(row => row.date.toISOString()), [
+            '2025-01-01T00:00:00.000Z',
+            '2025-01-02T00:00:00.000Z',
+            '2025-01-03T00:00:00.000Z',
+        ]);
+        assert.deepEqual(rows.map(row => row.longitude), [121.9271748, 121.5943847, 121.2522152]);
+        assert.equal(rows[0].latitude, 3.3124516);
+        assert.ok(rows.every(row => row.solarPresence === null && row.lunarPresence === null));
+    });
+
+    it('reads the solar and lunar presence flags and the values after them', () => {
+        const rows = parseObserverTable(MOON_OBSERVER_WITH_FLAGS);
+        assert.deepEqual(rows.map(row => [row.solarPresence, row.lunarPresence]), [
+            ['daylight', 'above'],
+            ['civil', 'rise'],
+            ['nautical', null],
+            ['astronomical', 'transit'],
+            [null, null],
+        ]);
+        assert.deepEqual(rows.map(row => row.longitude), [173.2201846, 173.7813406, 174.3420318, 174.9022681, 175.4620600]);
+        assert.equal(rows[3].latitude, -0.9517923);
+        assert.equal(rows[4].date.toISOString(), '2025-03-14T22:00:00.000Z');
+    });
+
+    it('reads the result of a JSON response', () => {
+        const rows = parseObserverTable(JSON.stringify({
+            signature: {source: 'NASA/JPL Horizons API', version: '1.2'},
+            result: MARS_OBSERVER,
+        }));
+        assert.equal(rows.length, 3);
+        assert.equal(rows[2].longitude, 121.2522152);
+    });
+
+    it('reports a malformed row with its line', () => {
+        const broken = MARS_OBSERVER.replace('121.5943847', 'n.a.');
+        assert.throws(() => parseObserverTable(broken), (error: unknown) => {
+            assert.ok(error instanceof HorizonsParseError);
+            assert.equal(error.lineNumber, 19);
+            assert.match(error.line, /2025-Jan-02 00:00/);
+            return true;
+        });
+    });
+
+    it('rejects an empty ephemeris section', () => {
+        const empty = MARS_OBSERVER.replace(/\$\$SOE\n[\s\S]*\$\$EOE/, '$$$$SOE\n$$$$EOE');
+        assert.throws(() => parseObserverTable(empty), HorizonsNoDataError);
+    });
+});
+
+describe('parseElementsTable', () => {
+    it('reads every epoch of a JSON response', () => {
+        const rows = parseElementsTable(MARS_ELEMENTS);
+        assert.deepEqual(rows.map(row => [row.julianDay, row.date]), [
+            [2460676.5, '2025-01-01'],
+            [2460677.5, '2025-01-02'],
+        ]);
+
+        const [first] = rows;
+        assert.equal(first.EC, 9.341380554135406E-02);
+        assert.equal(first.QR, 2.066513826398521E+08);
+        assert.equal(first.IN, 1.847658536652275);
+        assert.equal(first.OM, 4.948639354303775E+01);
+        assert.equal(first.W, 2.866810826392793E+02);
+        assert.equal(first.Tp, 2460446.895139520802);
+        assert.equal(first.N, 6.065316219471054E-06);
+        assert.equal(first.MA, 1.244862230584449E+02);
+        assert.equal(first.A, 2.279445132147184E+08);
+        assert.equal(first.PR, 5.935642907797071E+07);
+    });
+
+    it('reports an epoch with missing elements', () => {
+        const incomplete = MARS_ELEMENTS.replace(' MA= 1.250102438188596E+02', '');
+        assert.throws(() => parseElementsTable(incomplete), (error: unknown) => {
+            assert.ok(error instanceof HorizonsParseError);
+            assert.match(error.message, /Missing elements MA/);
+            assert.match(error.line, /2025-Jan-02/);
+            return true;
+        });
+    });
+});
+
+describe('Horizons error banners', () => {
+    const textResponse = (banner: string) => `API VERSION: 1.2
+API SOURCE: NASA/JPL Horizons API
+
+${banner}
+`;
+
+    it('reports a target without ephemeris as missing data', () => {
+        const response = textResponse(
+            '*******************************************************************************\n' +
+            ' No ephemeris for target "Ceres" prior to A.D. 1599-DEC-11 23:59:18.8141 UT\n' +
+            '*******************************************************************************'
+        );
+        assert.throws(() => parseObserverTable(response), HorizonsNoDataError);
+    });
+
+    it('reports an unknown body as missing data', () => {
+        assert.throws(() => parseObserverTable(textResponse(' No matches found.')), HorizonsNoDataError);
+    });
+
+    it('reports rejected parameters as a request error', () => {
+        const response = textResponse(
+            'Cannot interpret date. Type "?!" or try YYYY-MMM-DD {HH:MN} format.'
+        );
+        assert.throws(() => parseObserverTable(response), HorizonsRequestError);
+
+        const jsonResponse = JSON.stringify({
+            signature: {source: 'NASA/JPL Horizons API', version: '1.2'},
+            error: 'Unknown parameter: \'QUANTITY\'',
+        });
+        assert.throws(() => parseElementsTable(jsonResponse), HorizonsRequestError);
+    });
+
+    it('reports request limits as a quota error', () => {
+        assert.throws(
+            () => parseObserverTable(textResponse('Too many requests: the service is temporarily limited, retry later.')),
+            HorizonsQuotaError
+        );
+        assert.throws(() => parseElementsTable('<html><body>503 Service Unavailable</body></html>'), HorizonsQuotaError);
+    });
+
+    it('reports a response without ephemeris section or known banner as missing data', () => {
+        assert.throws(() => parseObserverTable(textResponse('Some text that is not an ephemeris')), HorizonsNoDataError);
+    });
+
+    it('reports a malformed JSON response as a request error', () => {
+        assert.throws(() => parseElementsTable('{"result": "$$SOE'), HorizonsRequestError);
+    });
+});
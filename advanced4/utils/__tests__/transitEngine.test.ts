@@ -0,0 +1,161 @@
+import {describe, it} from 'node:test';
+import assert from 'node:assert/strict';
+import {AspectSettings} from '../../types';
+import {DEFAULT_ASPECT_SETTINGS, getAspectOffsets, getEnabledAspects} from '../aspects';
+import {getBodyByName} from '../bodies';
+import {calculateNatalChart} from '../ephemeris';
+import {LocalEphemerisProvider} from '../ephemerisProvider';
+import {HorizonsNoDataError} from '../horizonsParser';
+import {calculateTransitEvents, PositionSeries, PositionSource, runTransitEngine} from '../transitEngine';
+
+const DAY_MS = 86400000;
+
+// Only conjunctions, with a 1° orb between the Sun and Saturn
+const conjunctionOnly: AspectSettings = {
+    planetOrbFactors: {Sun: 1, Saturn: 1},
+    aspects: Object.fromEntries(
+        Object.entries(DEFAULT_ASPECT_SETTINGS.aspects).map(([type, aspect]) =>
+            [type, {...aspect, enabled: type === 'Conjunction', orb: 1}]
+        )
+    ) as AspectSettings['aspects'],
+};
+
+/**
+ * Daily positions of a planet that moves up to 110° and stations retrograde on day 60
+ * (2025-03-02), passing 108° on day 28.4 (direct) and day 91.6 (retrograde)
+ */
+function stationingPositions(): PositionSeries {
+    const start = Date.UTC(2025, 0, 1);
+    return Array.from({length: 121}, (_, day) => ({
+        date: new Date(start + day * DAY_MS).toISOString().split('T')[0],
+        longitude: 110 - 0.002 * (day - 60) ** 2,
+    }));
+}
+
+describe('calculateTransitEvents', () => {
+    const events = calculateTransitEvents(
+        [{name: 'Sun', longitude: 108}],
+        {Saturn: stationingPositions()},
+        {zodiac: 'tropical', aspectSettings: conjunctionOnly}
+    );
+    const transits = events.filter(event => event.isTransitEvent);
+    const stations = events.filter(event => event.isStationEvent);
+
+    it('groups the orb windows around a station into one multi-pass transit', () => {
+        assert.equal(transits.length, 1);
+        const transit = transits[0].transitEvent!;
+        assert.equal(transit.aspectType, 'Conjunction');
+        assert.equal(transit.includesRetrograde, true);
+
+        const passes = transit.passes!;
+        assert.deepEqual(passes.map(pass => pass.number), [1, 2]);
+        assert.deepEqual(passes.map(pass => pass.retrograde), [false, true]);
+        assert.ok(passes.every(pass => pass.perfects));
+        assert.deepEqual(passes.map(pass => pass.exactDate.split('T')[0]), ['2025-01-29', '2025-04-02']);
+        assert.equal(transits[0].startDate, '2025-01-23');
+        assert.equal(transits[0].endDate, '2025-04-09');
+    });
+
+    it('adds the station of the transit planet', () => {
+        assert.equal(stations.length, 1);
+        assert.equal(stations[0].stationEvent!.planet, 'Saturn');
+        assert.equal(stations[0].stationEvent!.direction, 'retrograde');
+        assert.equal(stations[0].startDate, '2025-03-02');
+        assert.ok(Math.abs(stations[0].stationEvent!.longitude - 110) < 0.01);
+    });
+
+    it('leaves out stations when they are not requested', () => {
+        const withoutStations = calculateTransitEvents(
+            [{name: 'Sun', longitude: 108}],
+            {Saturn: stationingPositions()},
+            {zodiac: 'tropical', aspectSettings: conjunctionOnly, includeStations: false}
+        );
+        assert.ok(withoutStations.every(event => !event.isStationEvent));
+        assert.equal(withoutStations.length, 1);
+    });
+});
+
+describe('calculateTransitEvents on both sides of the natal point', () => {
+    // Mars moving 1° a day from 90° to 119°, squaring a natal Sun at 190° from behind (natal − 90°) on day 10
+    const start = Date.UTC(2025, 0, 1);
+    const mars: PositionSeries = Array.from({length: 30}, (_, day) => ({
+        date: new Date(start + day * DAY_MS).toISOString().split('T')[0],
+        longitude: 90 + day,
+    }));
+    const events = calculateTransitEvents(
+        [{name: 'Sun', longitude: 190}],
+        {Mars: mars},
+        {zodiac: 'tropical', aspectSettings: {...DEFAULT_ASPECT_SETTINGS, planetOrbFactors: {Sun: 1, Mars: 1}}}
+    );
+
+    it('finds the waning square at natal − 90°', () => {
+        assert.deepEqual(events.map(event => event.transitEvent?.aspectType), ['Square']);
+        const [square] = events;
+        assert.equal(square.startDate, '2025-01-05');
+        assert.equal(square.endDate, '2025-01-17');
+
+        const exact = new Date(square.transitEvent!.exactDate!).getTime();
+        assert.ok(Math.abs(exact - Date.UTC(2025, 0, 11)) < 60000);
+        assert.equal(square.transitEvent!.perfects, true);
+    });
+
+    it('measures the intensity curve from the waning side', () => {
+        const days = events[0].transitEvent!.days!;
+        assert.equal(days.length, 13);
+        assert.equal(days[6].date, '2025-01-11');
+        assert.equal(days[6].orb, 0);
+        assert.equal(days[0].orb, 6);
+        assert.equal(days[0].phase, 'applying');
+        assert.equal(days[12].phase, 'separating');
+    });
+});
+
+describe('one-year transit scan', () => {
+    it('reads the hourly Moon once per aspect scan, not once per event', async () => {
+        const natalChart = calculateNatalChart('1990-05-15T06:30', 40.7, -74, ['Sun', 'Moon', 'Mercury', 'Venus', 'Mars']);
+        const moon = await new LocalEphemerisProvider()
+            .getPlanetPositionSamples('301', '2025-01-01T00:00:00Z', '2026-01-01T00:00:00Z', 24);
+        assert.ok(moon.length > 365 * 24);
+
+        // Count the samples read by the engine
+        let reads = 0;
+        const countedMoon = new Proxy(moon, {
+            get(target, key, receiver) {
+                if (typeof key === 'string' && /^\d+$/.test(key)) reads++;
+                return Reflect.get(target, key, receiver);
+            },
+        });
+        const events = calculateTransitEvents(natalChart, {Moon: countedMoon}, {zodiac: 'tropical'});
+        assert.ok(events.length > 500, `${events.length} events`);
+
+        // Every natal point scans the series once per aspect side; the series, the stations and the
+        // intensity days of the events add less than one more read per sample and scan (re-reading
+        // the whole series for every event would exceed that many times over)
+        const scans = natalChart.length * getEnabledAspects(DEFAULT_ASPECT_SETTINGS)
+            .reduce((count, aspect) => count + getAspectOffsets(aspect.angle).length, 0);
+        assert.ok(reads < moon.length * scans * 2, `${reads} reads for ${scans} scans of ${moon.length} samples`);
+    });
+});
+
+describe('runTransitEngine', () => {
+    it('reports the bodies whose positions cannot be fetched and scans the others', async () => {
+        const local = new LocalEphemerisProvider();
+        const source: PositionSource = {
+            getPlanetPositions: async (planetId, startDate, endDate) => {
+                if (planetId === '499') throw new HorizonsNoDataError('No ephemeris for target "Mars"');
+                return local.getPlanetPositions(planetId, startDate, endDate);
+            },
+            getPlanetPositionSamples: local.getPlanetPositionSamples.bind(local),
+        };
+        const {events, failedBodies} = await runTransitEngine([{name: 'Sun', longitude: 100}], source, {
+            startDate: '2025-01-01T00:00:00Z',
+            endDate: '2025-03-01T00:00:00Z',
+            zodiac: 'tropical',
+            transitBodies: ['Mars', 'Venus'].map(name => getBodyByName(name)!),
+        });
+
+        assert.deepEqual(failedBodies, [{name: 'Mars', error: 'HorizonsNoDataError: No ephemeris for target "Mars"'}]);
+        assert.ok(events.length > 0);
+        assert.ok(events.every(event => event.transitEvent?.transitPlanet !== 'Mars' && event.stationEvent?.planet !== 'Mars'));
+    });
+});
@@ -0,0 +1,18 @@
+import {describe, it} from 'node:test';
+import assert from 'node:assert/strict';
+import {calculateTransitDays} from '../transitIntensity';
+
+describe('calculateTransitDays', () => {
+    it('keeps the closest sub-daily sample of a day, compared before rounding', () => {
+        // Both samples of Jan 1 round to an orb of 0.00, the later one is closer and already separating
+        const positions = [
+            {date: '2025-01-01T00:00:00.000Z', longitude: 100.0049},
+            {date: '2025-01-01T12:00:00.000Z', longitude: 99.996},
+            {date: '2025-01-02T00:00:00.000Z', longitude: 99.99},
+        ];
+        const [day] = calculateTransitDays(positions, 'Moon', 100, 0, 10, '2025-01-01', '2025-01-01');
+        assert.equal(day.date, '2025-01-01');
+        assert.equal(day.orb, 0);
+        assert.equal(day.phase, 'separating');
+    });
+});
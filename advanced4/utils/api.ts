@@ -1,26 +1,33 @@
 /**
  * API module for astronomical calculations using JPL Horizons system.
  * Provides functions to fetch planetary data for astrology applications.
- * All requests are routed through a Cloudflare Workers proxy to avoid connectivity issues.
+ * By default requests are routed through a Cloudflare Workers proxy to avoid connectivity issues;
+ * every fetch function accepts an alternative transport (direct, recorded fixtures).
  */
 
-import {PlanetData, NatalChartEntry} from '../types';
-
-// Planet ID codes for JPL Horizons API requests
-const planetCommandCodes = {
-    Sun: '10',
-    Moon: '301',
-    Mercury: '199',
-    Venus: '299',
-    Mars: '499',
-    Jupiter: '599',
-    Saturn: '699',
-    Uranus: '799',
-    Neptune: '899',
-};
+import {PlanetData, NatalChartEntry, ZodiacType} from '../types';
+import {
+    describeHorizonsError,
+    ElementsRow,
+    HorizonsError,
+    parseElementsTable,
+    parseObserverTable,
+} from './horizonsParser';
+import {localBirthTimeToUTC} from './timezone';
+import {getBodyById, getNatalBodies} from './bodies';
+import {getZodiacSetting, toZodiacLongitude} from './zodiac';
 
 // Proxy server URL that forwards requests to NASA Horizons API
-const PROXY_URL = 'https://astro-proxy.mrblack1826.workers.dev/';
+export const PROXY_URL = 'https://astro-proxy.mrblack1826.workers.dev/';
+
+// Base URL of the NASA Horizons API
+export const HORIZONS_API_URL = 'https://ssd.jpl.nasa.gov/api/horizons.api';
+
+/**
+ * Function that performs a request to a Horizons API URL and returns the raw response body.
+ * Allows swapping the data source (proxy, direct, recorded fixtures) without touching parsing.
+ */
+export type HorizonsTransport = (targetUrl: string) => Promise<string>;
 
 /**
  * Formats a date for Horizons API in YYYY-MMM-DD format.
@@ -42,49 +49,46 @@ function formatDateForHorizons(date: Date | string): string {
 }
 
 /**
- * Formats a date with time for Horizons API in YYYY-MMM-DD HH:MM format.
+ * Formats a UTC date with time for Horizons API in YYYY-MMM-DD HH:MM format.
+ * Horizons interprets TLIST times as UT, so the UTC fields of the date are used.
  * @param date - Date object to format
  * @returns Formatted date-time string for Horizons API
  */
 function formatDateTimeForHorizons(date: Date): string {
     const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-    const year = date.getFullYear();
-    const month = months[date.getMonth()];
-    const day = String(date.getDate()).padStart(2, '0');
-    const hours = String(date.getHours()).padStart(2, '0');
-    const minutes = String(date.getMinutes()).padStart(2, '0');
+    const year = date.getUTCFullYear();
+    const month = months[date.getUTCMonth()];
+    const day = String(date.getUTCDate()).padStart(2, '0');
+    const hours = String(date.getUTCHours()).padStart(2, '0');
+    const minutes = String(date.getUTCMinutes()).padStart(2, '0');
     return `${year}-${month}-${day} ${hours}:${minutes}`;
 }
 
 /**
- * Calculates approximate timezone offset in hours based on longitude.
- * Note: This is a simplified approach that doesn't account for political timezone boundaries.
- * @param longitude - Geographic longitude in degrees
- * @returns Estimated timezone offset in hours
- */
-function getTimezoneOffset(longitude: number): number {
-    return Math.round(longitude / 15); // Timezone in hours
-}
-
-/**
- * Converts local birth time to UTC based on longitude.
- * @param birthDate - Local birth date and time as ISO string
+ * Converts local birth time to UTC using the IANA time zone of the birth location.
+ * @param birthDate - Local birth date and time (YYYY-MM-DDTHH:mm)
+ * @param latitude - Geographic latitude in degrees
  * @param longitude - Geographic longitude in degrees
  * @returns Date object in UTC
  */
-function convertToUTC(birthDate: string, longitude: number): Date {
-    const timezoneOffset = getTimezoneOffset(longitude);
-    const date = new Date(birthDate);
-    date.setHours(date.getHours() - timezoneOffset);
-    return date;
+export function convertToUTC(birthDate: string, latitude: number, longitude: number): Date {
+    return localBirthTimeToUTC(birthDate, latitude, longitude);
 }
 
 /**
  * Determines the zodiac sign and degree from ecliptic longitude.
- * @param longitude - Ecliptic longitude in degrees (0-360)
+ * Sidereal zodiacs subtract the ayanamsa for the date before the sign is assigned.
+ * @param tropicalLongitude - Tropical ecliptic longitude in degrees (0-360)
+ * @param date - Date of the position, used for the ayanamsa
+ * @param zodiac - Zodiac to use, defaults to the app setting
  * @returns Object with sign name and degree within the sign
  */
-function getZodiacSign(longitude: number): { sign: string; degree: number } {
+export function getZodiacSign(
+    tropicalLongitude: number,
+    date: Date = new Date(),
+    zodiac: ZodiacType = getZodiacSetting()
+): { sign: string; degree: number } {
+    const longitude = toZodiacLongitude(tropicalLongitude, date, zodiac);
     const signs = [
         {name: 'Aries', start: 0},
         {name: 'Taurus', start: 30},
@@ -111,7 +115,7 @@ function getZodiacSign(longitude: number): { sign: string; degree: number } {
  * @returns Promise resolving to the response text
  * @throws Error if the proxy request fails
  */
-async function fetchThroughProxy(targetUrl: string): Promise<string> {
+export async function fetchThroughProxy(targetUrl: string): Promise<string> {
     // Construct the proxy URL with the encoded target URL as a query parameter
     const proxyRequestUrl = `${PROXY_URL}?url=${encodeURIComponent(targetUrl)}`;
     console.log(`Proxying request through: ${proxyRequestUrl}`);
@@ -125,66 +129,120 @@ async function fetchThroughProxy(targetUrl: string): Promise<string> {
     return await response.text();
 }
 
+/**
+ * Makes a request directly to NASA Horizons API without the proxy.
+ * @param targetUrl - The NASA Horizons API URL to fetch
+ * @returns Promise resolving to the response text
+ * @throws Error if the request fails
+ */
+export async function fetchDirect(targetUrl: string): Promise<string> {
+    console.log(`Requesting Horizons directly: ${targetUrl}`);
+
+    const response = await fetch(targetUrl);
+
+    if (!response.ok) {
+        throw new Error(`Horizons HTTP error: ${response.status} ${response.statusText}`);
+    }
+
+    return await response.text();
+}
+
+/**
+ * Builds a Horizons URL for an OBSERVER ephemeris of ecliptic longitudes.
+ * @param commandCode - JPL Horizons body ID
+ * @param timeParams - Either a single TLIST time or a START/STOP range (daily steps unless a step size is given)
+ * @param siteCoord - Observer site as "longitude,latitude,altitude"
+ * @returns Full Horizons API URL
+ */
+export function buildObserverUrl(
+    commandCode: string,
+    timeParams: { tlist: string } | { start: string; stop: string; stepSize?: string },
+    siteCoord: string = '0,0,0'
+): string {
+    const timeQuery = 'tlist' in timeParams
+        ? `TLIST='${timeParams.tlist}'`
+        : `START_TIME='${timeParams.start}'&STOP_TIME='${timeParams.stop}'&STEP_SIZE='${timeParams.stepSize ?? '1d'}'`;
+    return `${HORIZONS_API_URL}?format=text&COMMAND='${commandCode}'&OBJ_DATA='YES'&MAKE_EPHEM='YES'&EPHEM_TYPE='OBSERVER'&CENTER='coord@399'&${timeQuery}&QUANTITIES='31'&ANG_FORMAT='DEG'&EXTRA_PREC='YES'&CSV_FORMAT='NO'&SITE_COORD='${siteCoord}'`;
+}
+
+/**
+ * Returns the Horizons center for orbital elements of a body.
+ * The Moon is described relative to Earth, every other body relative to the Sun.
+ * @param commandCode - JPL Horizons body ID
+ */
+export function getElementsCenter(commandCode: string): string {
+    return commandCode === '301' ? '500@399' : '500@10';
+}
+
+/**
+ * Builds a Horizons URL for an ELEMENTS ephemeris (heliocentric, geocentric for the Moon).
+ * @param commandCode - JPL Horizons body ID
+ * @param start - Start date in Horizons format
+ * @param stop - Stop date in Horizons format
+ * @param stepSize - Horizons step size, daily by default
+ * @returns Full Horizons API URL
+ */
+export function buildElementsUrl(commandCode: string, start: string, stop: string, stepSize: string = '1d'): string {
+    return `${HORIZONS_API_URL}?format=json&COMMAND='${commandCode}'&OBJ_DATA='YES'&MAKE_EPHEM='YES'&EPHEM_TYPE='ELEMENTS'&CENTER='${getElementsCenter(commandCode)}'&START_TIME='${start}'&STOP_TIME='${stop}'&STEP_SIZE='${stepSize}'`;
+}
+
 /**
  * Fetches a natal chart by querying planetary positions for birth date and location.
  * Uses a proxy server to avoid connectivity issues on certain devices.
+ * Calculated points without a Horizons ID (lunar nodes, Lilith) are not included.
  *
- * @param birthDate - Birth date and time as ISO string
+ * @param birthDate - Local birth date and time (YYYY-MM-DDTHH:mm) at the birth location
  * @param latitude - Geographic latitude in degrees
  * @param longitude - Geographic longitude in degrees
- * @returns Promise resolving to array of natal chart entries
+ * @param transport - Request transport, defaults to the Cloudflare proxy
+ * @param bodies - Optional subset of planet names to fetch (e.g. to retry failed bodies)
+ * @returns Promise resolving to array of natal chart entries, failed bodies carry status 'failed'
  */
-export async function fetchNatalChart(birthDate: string, latitude: number, longitude: number): Promise<NatalChartEntry[]> {
-    const utcDate = convertToUTC(birthDate, longitude);
+export async function fetchNatalChart(
+    birthDate: string,
+    latitude: number,
+    longitude: number,
+    transport: HorizonsTransport = fetchThroughProxy,
+    bodies?: string[]
+): Promise<NatalChartEntry[]> {
+    const utcDate = convertToUTC(birthDate, latitude, longitude);
     const dateTimeStr = formatDateTimeForHorizons(utcDate);
 
     const positions: NatalChartEntry[] = [];
-    for (const planetName in planetCommandCodes) {
-        const commandCode = planetCommandCodes[planetName as keyof typeof planetCommandCodes];
-        // Construct the original NASA URL (we'll pass this to our proxy)
-        const nasaUrl = `https://ssd.jpl.nasa.gov/api/horizons.api?format=text&COMMAND='${commandCode}'&OBJ_DATA='YES'&MAKE_EPHEM='YES'&EPHEM_TYPE='OBSERVER'&CENTER='coord@399'&TLIST='${dateTimeStr}'&QUANTITIES='31'&ANG_FORMAT='DEG'&EXTRA_PREC='YES'&CSV_FORMAT='NO'&SITE_COORD='${longitude},${latitude},0'`;
+    for (const body of getNatalBodies()) {
+        const planetName = body.name;
+        const commandCode = body.horizonsId;
+        if (commandCode === null || (bodies && !bodies.includes(planetName))) continue;
+        // Construct the original NASA URL (the transport decides how it is requested)
+        const nasaUrl = buildObserverUrl(commandCode, {tlist: dateTimeStr}, `${longitude},${latitude},0`);
 
         try {
-            console.log(`Fetching data for ${planetName} via proxy`);
-
-            // Use our proxy function instead of direct fetch
-            const data = await fetchThroughProxy(nasaUrl);
-
-            // Process the response to extract planetary positions
-            const lines = data.split('\n');
-            let inDataSection = false;
-            let found = false;
-            for (const line of lines) {
-                if (line.includes('$$SOE')) inDataSection = true;
-                if (line.includes('$$EOE')) break;
-                if (inDataSection && line.trim() && !line.includes('$$SOE')) {
-                    const cols = line.trim().split(/\s+/);
-                    const longitudeIndex = cols.length === 5 ? 3 : 2;
-                    const longitude = parseFloat(cols[longitudeIndex]);
-                    if (isNaN(longitude)) {
-                        console.error(`Failed to extract longitude for ${planetName} on ${dateTimeStr}. Columns: ${cols.join(', ')}`);
-                        positions.push({name: planetName, longitude: 0, sign: 'Unknown', degreeInSign: 0});
-                        break;
-                    }
-
-                    const zodiac = getZodiacSign(longitude);
-                    positions.push({
-                        name: planetName,
-                        longitude,
-                        sign: zodiac.sign,
-                        degreeInSign: zodiac.degree,
-                    });
-                    found = true;
-                    break;
-                }
-            }
-            if (!found) {
-                console.error(`Data not found for ${planetName} on ${dateTimeStr}`);
-                positions.push({name: planetName, longitude: 0, sign: 'Unknown', degreeInSign: 0});
-            }
+            console.log(`Fetching data for ${planetName}`);
+
+            const data = await transport(nasaUrl);
+
+            // Parse the observer table; a single TLIST entry yields a single row
+            const [row] = parseObserverTable(data);
+            const zodiac = getZodiacSign(row.longitude, utcDate);
+            positions.push({
+                name: planetName,
+                longitude: row.longitude,
+                sign: zodiac.sign,
+                degreeInSign: zodiac.degree,
+                zodiac: getZodiacSetting(),
+                status: 'ok',
+            });
         } catch (err) {
-            console.error(`Error fetching data for ${planetName} on ${dateTimeStr}:`, err);
-            positions.push({name: planetName, longitude: 0, sign: 'Unknown', degreeInSign: 0});
+            const reason = describeHorizonsError(err);
+            console.error(`Error fetching data for ${planetName} on ${dateTimeStr}:`, reason);
+            positions.push({
+                name: planetName,
+                longitude: 0,
+                sign: 'Unknown',
+                degreeInSign: 0,
+                status: 'failed',
+                error: reason,
+            });
         }
     }
     return positions;
@@ -197,9 +255,16 @@ export async function fetchNatalChart(birthDate: string, latitude: number, longi
  * @param planetId - JPL Horizons planet ID
  * @param startDate - Start date as ISO string
  * @param endDate - End date as ISO string
+ * @param transport - Request transport, defaults to the Cloudflare proxy
  * @returns Promise resolving to array of positions with dates
+ * @throws HorizonsError subclass when Horizons returns no data or rejects the request, transport errors as they are
  */
-export async function fetchPlanetPositions(planetId: string, startDate: string, endDate: string): Promise<{
+export async function fetchPlanetPositions(
+    planetId: string,
+    startDate: string,
+    endDate: string,
+    transport: HorizonsTransport = fetchThroughProxy
+): Promise<{
     date: string;
     longitude: number
 }[]> {
@@ -221,82 +286,77 @@ export async function fetchPlanetPositions(planetId: string, startDate: string,
     }
 
     // Construct the original NASA URL
-    const nasaUrl = `https://ssd.jpl.nasa.gov/api/horizons.api?format=text&COMMAND='${planetId}'&OBJ_DATA='YES'&MAKE_EPHEM='YES'&EPHEM_TYPE='OBSERVER'&CENTER='coord@399'&START_TIME='${startDateStr}'&STOP_TIME='${endDateStr}'&STEP_SIZE='1d'&QUANTITIES='31'&ANG_FORMAT='DEG'&EXTRA_PREC='YES'&CSV_FORMAT='NO'&SITE_COORD='0,0,0'`;
-    console.log(`Fetching planet positions for planet ${planetId} via proxy`);
+    const nasaUrl = buildObserverUrl(planetId, {start: startDateStr, stop: endDateStr});
+    console.log(`Fetching planet positions for planet ${planetId}`);
 
     try {
-        // Use our proxy function instead of direct fetch
-        const data = await fetchThroughProxy(nasaUrl);
-
-        // Process the data to extract daily positions
-        const lines = data.split('\n');
-        const positions: { date: string; longitude: number }[] = [];
-        let inDataSection = false;
-
-        const months: { [key: string]: string } = {
-            'Jan': '01', 'Feb': '02', 'Mar': '03', 'Apr': '04', 'May': '05', 'Jun': '06',
-            'Jul': '07', 'Aug': '08', 'Sep': '09', 'Oct': '10', 'Nov': '11', 'Dec': '12'
-        };
-
-        for (const line of lines) {
-            if (line.includes('$$SOE')) {
-                inDataSection = true;
-                continue;
-            }
-            if (line.includes('$$EOE')) break;
-            if (inDataSection && line.trim()) {
-                const cols = line.trim().split(/\s+/);
-                if (cols.length < 4) {
-                    console.error(`Invalid data line for planet ${planetId}: ${line}`);
-                    continue;
-                }
-
-                let longitudeIndex = 2;
-                if (cols[2] === 'm' || cols[2] === '*' || cols[2] === 'C' || cols[2] === 'N' || cols[2] === 'A') {
-                    longitudeIndex = 3;
-                }
-
-                if (cols.length <= longitudeIndex) {
-                    console.error(`Not enough columns for longitude in line for planet ${planetId}: ${line}`);
-                    continue;
-                }
-
-                const dateTimeStr = `${cols[0]} ${cols[1]}`;
-                const [year, monthAbbr, day] = cols[0].split('-');
-                const month = months[monthAbbr];
-                if (!month) {
-                    console.error(`Invalid month abbreviation for planet ${planetId}: ${monthAbbr} in ${dateTimeStr}`);
-                    continue;
-                }
-                const normalizedDateStr = `${year}-${month}-${day}T${cols[1]}:00Z`;
-                const dateObj = new Date(normalizedDateStr);
-                if (isNaN(dateObj.getTime())) {
-                    console.error(`Failed to parse date for planet ${planetId}: ${dateTimeStr}, normalized: ${normalizedDateStr}`);
-                    continue;
-                }
-
-                const longitude = parseFloat(cols[longitudeIndex]);
-                if (isNaN(longitude)) {
-                    console.error(`Failed to extract longitude for planet ${planetId} on ${dateTimeStr}. Columns: ${cols.join(', ')}`);
-                    continue;
-                }
-
-                positions.push({
-                    date: dateObj.toISOString().split('T')[0],
-                    longitude,
-                });
-            }
-        }
-        if (positions.length === 0) {
-            console.warn(`No positions returned for planet ${planetId} from ${startDateStr} to ${endDateStr}`);
-        } else {
-            console.log(`Successfully retrieved ${positions.length} positions for planet ${planetId}`);
-        }
+        const data = await transport(nasaUrl);
+
+        // Parse the observer table into daily positions
+        const positions = parseObserverTable(data).map(row => ({
+            date: row.date.toISOString().split('T')[0],
+            longitude: row.longitude,
+        }));
+
+        console.log(`Successfully retrieved ${positions.length} positions for planet ${planetId}`);
         return positions;
     } catch (error) {
-        console.error(`Error fetching positions for planet ${planetId} from ${startDate} to ${endDate}:`, error);
+        const reason = error instanceof HorizonsError ? `${error.name}: ${error.message}` : error;
+        console.error(`Error fetching positions for planet ${planetId} from ${startDate} to ${endDate}:`, reason);
+        throw error;
+    }
+}
+
+/**
+ * Fetches planet positions several times per day over a date range.
+ * Used for fast bodies such as the Moon, which can form and leave an aspect within a day.
+ *
+ * @param planetId - JPL Horizons planet ID
+ * @param startDate - Start date as ISO string
+ * @param endDate - End date as ISO string (samples cover the whole last day)
+ * @param samplesPerDay - Number of evenly spaced samples per day (a divisor of 24)
+ * @param transport - Request transport, defaults to the Cloudflare proxy
+ * @returns Promise resolving to array of positions with UTC sample times in ISO format
+ * @throws HorizonsError subclass when Horizons returns no data or rejects the request, transport errors as they are
+ */
+export async function fetchPlanetPositionSamples(
+    planetId: string,
+    startDate: string,
+    endDate: string,
+    samplesPerDay: number,
+    transport: HorizonsTransport = fetchThroughProxy
+): Promise<{ date: string; longitude: number }[]> {
+    const startDateObj = new Date(startDate);
+    const endDateObj = new Date(endDate);
+    if (isNaN(startDateObj.getTime()) || isNaN(endDateObj.getTime())) {
+        console.error(`Invalid dates: startDate=${startDate}, endDate=${endDate}`);
         return [];
     }
+
+    const first = endDateObj < startDateObj ? endDateObj : startDateObj;
+    const last = new Date(endDateObj < startDateObj ? startDateObj : endDateObj);
+    last.setDate(last.getDate() + 1);
+
+    const stepSize = `${Math.round(24 / samplesPerDay)}h`;
+    const nasaUrl = buildObserverUrl(planetId, {
+        start: formatDateForHorizons(first),
+        stop: formatDateForHorizons(last),
+        stepSize,
+    });
+
+    try {
+        console.log(`Fetching planet positions for planet ${planetId} every ${stepSize}`);
+
+        const data = await transport(nasaUrl);
+        return parseObserverTable(data).map(row => ({
+            date: row.date.toISOString(),
+            longitude: row.longitude,
+        }));
+    } catch (error) {
+        const reason = error instanceof HorizonsError ? `${error.name}: ${error.message}` : error;
+        console.error(`Error fetching position samples for planet ${planetId} from ${startDate} to ${endDate}:`, reason);
+        throw error;
+    }
 }
 
 /**
@@ -306,12 +366,15 @@ export async function fetchPlanetPositions(planetId: string, startDate: string,
  * @param planetId - JPL Horizons planet ID
  * @param startDate - Start date as ISO string
  * @param endDate - End date as ISO string
+ * @param transport - Request transport, defaults to the Cloudflare proxy
  * @returns Promise resolving to array of planet data with dates
+ * @throws HorizonsError subclass when Horizons returns no data or rejects the request, transport errors as they are
  */
 export async function fetchPlanetData(
     planetId: string,
     startDate: string,
-    endDate: string
+    endDate: string,
+    transport: HorizonsTransport = fetchThroughProxy
 ): Promise<{ date: string; data: PlanetData }[]> {
     let formattedStartDate = formatDateForHorizons(new Date(startDate));
     let formattedEndDate = formatDateForHorizons(new Date(endDate));
@@ -327,185 +390,98 @@ export async function fetchPlanetData(
     }
 
     // Construct the NASA API URL
-    const nasaUrl = `https://ssd.jpl.nasa.gov/api/horizons.api?format=json&COMMAND='${planetId}'&OBJ_DATA='YES'&MAKE_EPHEM='YES'&EPHEM_TYPE='ELEMENTS'&CENTER='500@10'&START_TIME='${formattedStartDate}'&STOP_TIME='${formattedEndDate}'&STEP_SIZE='1d'`;
+    const nasaUrl = buildElementsUrl(planetId, formattedStartDate, formattedEndDate);
 
     try {
-        console.log(`Fetching orbital data for planet ${planetId} via proxy for range ${formattedStartDate} to ${formattedEndDate}`);
-
-        // Use our proxy function and parse JSON from the response
-        const responseText = await fetchThroughProxy(nasaUrl);
-        const data = JSON.parse(responseText);
-
-        // Parse the result into structured data
-        const results: { date: string; data: PlanetData }[] = [];
-        const lines = data.result.split('\n');
-
-        let inDataSection = false;
-        let currentDate = '';
-        let currentData: {
-            a?: number,
-            e?: number,
-            i?: number,
-            om?: number,
-            w?: number,
-            M0?: number,
-            T?: number
-        } = {};
-
-        for (const line of lines) {
-            // Start of data section
-            if (line.includes('$$SOE')) {
-                inDataSection = true;
-                continue;
-            }
-
-            // End of data section
-            if (line.includes('$$EOE')) {
-                inDataSection = false;
-                continue;
-            }
-
-            // Process lines within the data section
-            if (inDataSection) {
-                // Date line (Julian day and Gregorian date)
-                if (line.includes('=') && line.includes('A.D.')) {
-                    // If we have collected data for a previous date, add it to results
-                    if (currentDate && Object.keys(currentData).length >= 6) {
-                        // Use default orbital period for reliability
-                        const defaultPeriod = getPlanetOrbitalPeriod(planetId);
-
-                        results.push({
-                            date: currentDate,
-                            data: {
-                                a: currentData.a || 0,
-                                e: currentData.e || 0,
-                                i: currentData.i || 0,
-                                om: currentData.om || 0,
-                                w: currentData.w || 0,
-                                M0: currentData.M0 || 0,
-                                T: currentData.T || defaultPeriod,
-                            }
-                        });
-                    }
-
-                    // Extract date from the line
-                    const datePart = line.split('=')[1].trim();
-                    // Format: "A.D. 2025-Jul-01 00:00:00.0000 TDB"
-                    const dateMatch = datePart.match(/A\.D\. (\d{4}-\w{3}-\d{2})/);
-                    if (dateMatch) {
-                        // Convert date from "2025-Jul-01" to "2025-07-01" format
-                        const dateStr = dateMatch[1];
-                        const months: { [key: string]: string } = {
-                            'Jan': '01', 'Feb': '02', 'Mar': '03', 'Apr': '04',
-                            'May': '05', 'Jun': '06', 'Jul': '07', 'Aug': '08',
-                            'Sep': '09', 'Oct': '10', 'Nov': '11', 'Dec': '12'
-                        };
-
-                        const [year, monthAbbr, day] = dateStr.split('-');
-                        const month = months[monthAbbr];
-                        if (month) {
-                            currentDate = `${year}-${month}-${day}`;
-                        } else {
-                            currentDate = '';
-                            console.error(`Could not parse month abbreviation: ${monthAbbr}`);
-                        }
-                    } else {
-                        currentDate = '';
-                        console.error(`Could not parse date from: ${datePart}`);
-                    }
-
-                    // Reset data for new day
-                    currentData = {};
-                }
-                // Line with EC, QR and IN values
-                else if (line.trim().startsWith('EC=')) {
-                    const ecMatch = line.match(/EC=\s*([\d.E+-]+)/);
-                    const inMatch = line.match(/IN=\s*([\d.E+-]+)/);
-
-                    if (ecMatch) currentData.e = parseFloat(ecMatch[1]);
-                    if (inMatch) currentData.i = parseFloat(inMatch[1]);
-                }
-                // Line with OM, W and Tp values
-                else if (line.trim().startsWith('OM=')) {
-                    const omMatch = line.match(/OM=\s*([\d.E+-]+)/);
-                    const wMatch = line.match(/W =\s*([\d.E+-]+)/);
-
-                    if (omMatch) currentData.om = parseFloat(omMatch[1]);
-                    if (wMatch) currentData.w = parseFloat(wMatch[1]);
-                }
-                // Line with N, MA and TA values
-                else if (line.trim().startsWith('N =')) {
-                    const maMatch = line.match(/MA=\s*([\d.E+-]+)/);
-                    if (maMatch) currentData.M0 = parseFloat(maMatch[1]);
-                }
-                // Line with A, AD and PR values
-                else if (line.trim().startsWith('A =')) {
-                    const aMatch = line.match(/A =\s*([\d.E+-]+)/);
-                    const prMatch = line.match(/PR=\s*([\d.E+-]+)/);
-
-                    if (aMatch) currentData.a = parseFloat(aMatch[1]);
-                    if (prMatch) {
-                        // PR in seconds, convert to days
-                        currentData.T = parseFloat(prMatch[1]) / 86400;
-                    } else {
-                        currentData.T = getPlanetOrbitalPeriod(planetId);
-                    }
-                }
-            }
-        }
+        console.log(`Fetching orbital data for planet ${planetId} for range ${formattedStartDate} to ${formattedEndDate}`);
 
-        // Add the last data set if it was collected
-        if (currentDate && Object.keys(currentData).length >= 6) {
-            const defaultPeriod = getPlanetOrbitalPeriod(planetId);
-            results.push({
-                date: currentDate,
-                data: {
-                    a: currentData.a || 0,
-                    e: currentData.e || 0,
-                    i: currentData.i || 0,
-                    om: currentData.om || 0,
-                    w: currentData.w || 0,
-                    M0: currentData.M0 || 0,
-                    T: currentData.T || defaultPeriod,
-                }
-            });
-        }
+        // Request through the transport and parse the elements table
+        const responseText = await transport(nasaUrl);
+        const defaultPeriod = getPlanetOrbitalPeriod(planetId);
+
+        const results: { date: string; data: PlanetData }[] = parseElementsTable(responseText).map(row => ({
+            date: row.date,
+            data: toPlanetData(row, defaultPeriod),
+        }));
 
         console.log(`Successfully fetched orbital data for planet ${planetId}: ${results.length} days`);
         return results;
     } catch (error) {
-        console.error(`Error loading data for ${planetId}`, error);
-        return [];
+        const reason = error instanceof HorizonsError ? `${error.name}: ${error.message}` : error;
+        console.error(`Error loading data for ${planetId}`, reason);
+        throw error;
     }
 }
 
+/**
+ * Fetches orbital elements for a body several times per day over a date range.
+ * Used for fast bodies such as the Moon, where daily samples are too coarse for smooth animation.
+ *
+ * @param planetId - JPL Horizons planet ID
+ * @param startDate - Start date as ISO string
+ * @param endDate - End date as ISO string (samples cover the whole last day)
+ * @param samplesPerDay - Number of evenly spaced samples per day (a divisor of 24)
+ * @param transport - Request transport, defaults to the Cloudflare proxy
+ * @returns Promise resolving to array of planet data with UTC sample times in ISO format
+ * @throws HorizonsError subclass when Horizons returns no data or rejects the request, transport errors as they are
+ */
+export async function fetchPlanetDataSamples(
+    planetId: string,
+    startDate: string,
+    endDate: string,
+    samplesPerDay: number,
+    transport: HorizonsTransport = fetchThroughProxy
+): Promise<{ time: string; data: PlanetData }[]> {
+    const startDateObj = new Date(startDate);
+    const endDateObj = new Date(endDate);
+    const first = endDateObj < startDateObj ? endDateObj : startDateObj;
+    const last = new Date(endDateObj < startDateObj ? startDateObj : endDateObj);
+    last.setDate(last.getDate() + 1);
+
+    const stepSize = `${Math.round(24 / samplesPerDay)}h`;
+    const nasaUrl = buildElementsUrl(planetId, formatDateForHorizons(first), formatDateForHorizons(last), stepSize);
+
+    try {
+        console.log(`Fetching orbital samples for planet ${planetId} every ${stepSize}`);
+
+        const responseText = await transport(nasaUrl);
+        const defaultPeriod = getPlanetOrbitalPeriod(planetId);
+
+        return parseElementsTable(responseText).map(row => ({
+            // Julian Day to UTC timestamp (the TDB-UT difference is negligible for animation)
+            time: new Date((row.julianDay - 2440587.5) * 86400000).toISOString(),
+            data: toPlanetData(row, defaultPeriod),
+        }));
+    } catch (error) {
+        const reason = error instanceof HorizonsError ? `${error.name}: ${error.message}` : error;
+        console.error(`Error loading orbital samples for ${planetId}`, reason);
+        throw error;
+    }
+}
+
+/**
+ * Converts a parsed Horizons elements row to the orbital elements used by the visualization.
+ * @param row - Parsed elements row
+ * @param defaultPeriod - Period in days used when Horizons does not report one
+ */
+function toPlanetData(row: ElementsRow, defaultPeriod: number): PlanetData {
+    return {
+        a: row.A,
+        e: row.EC,
+        i: row.IN,
+        om: row.OM,
+        w: row.W,
+        M0: row.MA,
+        // PR in seconds, convert to days
+        T: row.PR ? row.PR / 86400 : defaultPeriod,
+    };
+}
+
 /**
  * Returns the standard orbital period for a specific planet.
  * @param planetId - JPL Horizons planet ID
- * @returns Orbital period in days
+ * @returns Orbital period in days, Earth's period for bodies missing from the registry
  */
 function getPlanetOrbitalPeriod(planetId: string): number {
-    // Period in days
-    switch (planetId) {
-        case '10':
-            return 365.25;    // Sun (relative to Earth)
-        case '199':
-            return 87.97;    // Mercury
-        case '299':
-            return 224.7;    // Venus
-        case '399':
-            return 365.25;   // Earth
-        case '499':
-            return 686.98;   // Mars
-        case '599':
-            return 4332.59;  // Jupiter
-        case '699':
-            return 10759.22; // Saturn
-        case '799':
-            return 30688.5;  // Uranus
-        case '899':
-            return 60190;    // Neptune
-        default:
-            return 365.25;      // Default to Earth's period
-    }
-}
\ No newline at end of file
+    return getBodyById(planetId)?.orbitalPeriod ?? 365.25;
+}
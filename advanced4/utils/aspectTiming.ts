@@ -0,0 +1,317 @@
+/**
+ * Aspect timing module for refining transit aspects to the minute.
+ *
+ * Transits are detected on regular longitude samples (daily, hourly for the Moon).
+ * This module interpolates the samples with a cubic Lagrange polynomial (on the unwrapped longitude) and solves
+ * for the moments the aspect enters its orb, becomes exact and leaves its orb:
+ * - Orb crossings are roots of |deviation| - orb, found by bisection
+ * - Exact moments are roots of the signed deviation; a planet that stations inside
+ *   the orb can perfect the aspect several times in one window, and when it never
+ *   perfects the closest approach is used instead
+ */
+
+const DAY_MS = 86400000;
+
+// Root finding stops once the bracket is narrower than this (milliseconds)
+const TIME_TOLERANCE_MS = 30000;
+
+/**
+ * Longitude sample with the 360° wrap removed
+ */
+export interface LongitudeSample {
+    time: number;       // Timestamp in milliseconds
+    longitude: number;  // Continuous ecliptic longitude in degrees
+}
+
+/**
+ * Moment an aspect is exact (or closest, when it never perfects)
+ */
+export interface ExactHit {
+    time: string;         // Moment of exactness or closest approach (ISO)
+    longitude: number;    // Longitude of the transit planet at that moment (0-360)
+    perfects: boolean;    // Whether the aspect actually becomes exact
+    retrograde: boolean;  // Whether the transit planet is retrograde at that moment
+}
+
+/**
+ * Refined timing of one orb window of a transit aspect.
+ * Orb crossings outside the sampled range cannot be solved and are null.
+ */
+export interface AspectTiming {
+    enterOrb: string | null;  // Moment the aspect enters its orb (ISO)
+    leaveOrb: string | null;  // Moment the aspect leaves its orb (ISO)
+    hits: ExactHit[];         // Exact moments in time order, or a single closest approach
+}
+
+/**
+ * Normalizes an angle to the range -180 to 180 degrees.
+ */
+function normalizeSigned(angle: number): number {
+    return ((angle % 360) + 540) % 360 - 180;
+}
+
+/**
+ * Timestamp of a sample date: a day (YYYY-MM-DD) means 0h UTC, sub-daily samples carry their UTC time.
+ */
+function toSampleTime(date: string): number {
+    return new Date(date.includes('T') ? date : `${date}T00:00:00Z`).getTime();
+}
+
+/**
+ * Converts positions to samples with continuous longitudes.
+ * Build the series once per body and reuse it for every aspect refined on it.
+ */
+export function toLongitudeSeries(positions: { date: string; longitude: number }[]): LongitudeSample[] {
+    const series: LongitudeSample[] = [];
+    for (const position of positions) {
+        const time = toSampleTime(position.date);
+        const previous = series[series.length - 1];
+        const longitude = previous
+            ? previous.longitude + normalizeSigned(position.longitude - previous.longitude)
+            : position.longitude;
+        series.push({time, longitude});
+    }
+    return series;
+}
+
+/**
+ * Index of the last sample at or before a moment (0 before the first sample), by binary search.
+ */
+function findSampleIndex(series: LongitudeSample[], time: number): number {
+    let low = 0;
+    let high = series.length - 1;
+    while (low < high) {
+        const middle = Math.ceil((low + high) / 2);
+        if (series[middle].time <= time) {
+            low = middle;
+        } else {
+            high = middle - 1;
+        }
+    }
+    return low;
+}
+
+/**
+ * Interpolates the longitude at a moment with a cubic Lagrange polynomial
+ * through the four nearest samples (fewer near the edges of short series).
+ */
+function interpolateLongitude(series: LongitudeSample[], time: number): number {
+    const index = findSampleIndex(series, time);
+
+    const first = Math.max(0, Math.min(index - 1, series.length - 4));
+    const points = series.slice(first, first + 4);
+
+    let result = 0;
+    for (let i = 0; i < points.length; i++) {
+        let weight = 1;
+        for (let j = 0; j < points.length; j++) {
+            if (i !== j) weight *= (time - points[j].time) / (points[i].time - points[j].time);
+        }
+        result += weight * points[i].longitude;
+    }
+    return result;
+}
+
+/**
+ * Finds a root of a function in a bracket where it changes sign, by bisection.
+ */
+function findRoot(f: (time: number) => number, start: number, end: number): number {
+    let low = start;
+    let high = end;
+    let fLow = f(low);
+    while (high - low > TIME_TOLERANCE_MS) {
+        const middle = (low + high) / 2;
+        const fMiddle = f(middle);
+        if ((fMiddle < 0) === (fLow < 0)) {
+            low = middle;
+            fLow = fMiddle;
+        } else {
+            high = middle;
+        }
+    }
+    return (low + high) / 2;
+}
+
+/**
+ * Finds the minimum of a unimodal function in an interval by golden-section search.
+ */
+function findMinimum(f: (time: number) => number, start: number, end: number): number {
+    const ratio = (Math.sqrt(5) - 1) / 2;
+    let low = start;
+    let high = end;
+    while (high - low > TIME_TOLERANCE_MS) {
+        const left = high - ratio * (high - low);
+        const right = low + ratio * (high - low);
+        if (f(left) < f(right)) {
+            high = right;
+        } else {
+            low = left;
+        }
+    }
+    return (low + high) / 2;
+}
+
+/**
+ * Refines the timing of an orb window of a transit aspect detected on regular samples.
+ *
+ * @param series - Continuous longitudes of the transit planet (the whole scanned range), see toLongitudeSeries
+ * @param natalLongitude - Longitude of the natal planet in degrees
+ * @param aspectAngle - Angle of the aspect in degrees
+ * @param orb - Orb of the aspect in degrees
+ * @param startDate - First sample inside the orb (YYYY-MM-DD, or ISO time for sub-daily samples)
+ * @param endDate - Last sample inside the orb
+ * @param peakDate - Sample with the smallest deviation
+ * @returns Refined timing of the window
+ */
+export function refineAspectTiming(
+    series: LongitudeSample[],
+    natalLongitude: number,
+    aspectAngle: number,
+    orb: number,
+    startDate: string,
+    endDate: string,
+    peakDate: string
+): AspectTiming {
+    // A single sample cannot be interpolated, the sampled peak is all we know
+    if (series.length < 2) {
+        const longitude = series[0]?.longitude ?? 0;
+        return {
+            enterOrb: null,
+            leaveOrb: null,
+            hits: [{time: new Date(toSampleTime(peakDate)).toISOString(), longitude, perfects: false, retrograde: false}],
+        };
+    }
+
+    const rangeStart = series[0].time;
+    const rangeEnd = series[series.length - 1].time;
+    const step = series[1].time - series[0].time;
+
+    // Signed deviation from the exact aspect, and distance to the orb boundary
+    const deviation = (time: number) => normalizeSigned(interpolateLongitude(series, time) - natalLongitude - aspectAngle);
+    const outsideOrb = (time: number) => Math.abs(deviation(time)) - orb;
+
+    // Entering the orb happened between the sample before the start and the start
+    const start = toSampleTime(startDate);
+    const enterOrb = start > rangeStart && outsideOrb(start - step) > 0
+        ? findRoot(outsideOrb, start - step, start)
+        : null;
+
+    // Leaving the orb happens between the last sample inside and the next sample
+    const end = toSampleTime(endDate);
+    const leaveOrb = end < rangeEnd && outsideOrb(end + step) > 0
+        ? findRoot(outsideOrb, end, end + step)
+        : null;
+
+    // Exact moments are sign changes of the deviation between consecutive samples of the window
+    const exactTimes: number[] = [];
+    const searchStart = Math.max(rangeStart, start - step);
+    const searchEnd = Math.min(rangeEnd, end + step);
+    for (let low = searchStart; low < searchEnd; low += step) {
+        const high = Math.min(low + step, searchEnd);
+        if ((deviation(low) < 0) !== (deviation(high) < 0)) {
+            exactTimes.push(findRoot(deviation, low, high));
+        }
+    }
+
+    // Without a sign change the planet stationed inside the orb: use the closest approach
+    const perfects = exactTimes.length > 0;
+    if (!perfects) {
+        const peak = toSampleTime(peakDate);
+        exactTimes.push(findMinimum(
+            time => Math.abs(deviation(time)),
+            Math.max(rangeStart, peak - step),
+            Math.min(rangeEnd, peak + step)
+        ));
+    }
+
+    const hits = exactTimes.map(time => {
+        const longitude = interpolateLongitude(series, time) % 360;
+        return {
+            time: new Date(time).toISOString(),
+            longitude: longitude < 0 ? longitude + 360 : longitude,
+            perfects,
+            retrograde: interpolateLongitude(series, time + DAY_MS / 24) < interpolateLongitude(series, time - DAY_MS / 24),
+        };
+    });
+
+    return {
+        enterOrb: enterOrb !== null ? new Date(enterOrb).toISOString() : null,
+        leaveOrb: leaveOrb !== null ? new Date(leaveOrb).toISOString() : null,
+        hits,
+    };
+}
+
+/**
+ * Finds every moment in a position series at which an aspect to a fixed longitude is exact.
+ * Also used with a series of relative longitudes (difference of two bodies) for aspects between
+ * moving bodies, and with zodiac longitudes and sign boundaries for ingresses.
+ *
+ * @param positions - Apparent longitudes, daily or sub-daily
+ * @param targetLongitude - Longitude the aspect is measured from, in degrees
+ * @param aspectAngle - Angle of the aspect in degrees
+ * @returns Exact moments in time order
+ */
+export function findExactTimes(
+    positions: { date: string; longitude: number }[],
+    targetLongitude: number,
+    aspectAngle: number
+): ExactHit[] {
+    const series = toLongitudeSeries(positions);
+    const deviation = (time: number) => normalizeSigned(interpolateLongitude(series, time) - targetLongitude - aspectAngle);
+
+    const hits: ExactHit[] = [];
+    for (let i = 0; i < series.length - 1; i++) {
+        const low = series[i].time;
+        const high = series[i + 1].time;
+        const deviationLow = deviation(low);
+        const deviationHigh = deviation(high);
+
+        // A sign change far from zero is the jump at ±180°, not an exact aspect
+        if ((deviationLow < 0) === (deviationHigh < 0) || Math.abs(deviationLow) + Math.abs(deviationHigh) > 180) {
+            continue;
+        }
+
+        const time = findRoot(deviation, low, high);
+        const longitude = interpolateLongitude(series, time) % 360;
+        hits.push({
+            time: new Date(time).toISOString(),
+            longitude: longitude < 0 ? longitude + 360 : longitude,
+            perfects: true,
+            retrograde: deviationHigh < deviationLow,
+        });
+    }
+    return hits;
+}
+
+/**
+ * Interpolates the longitude of a position series at a moment
+ * @param positions - Apparent longitudes, daily or sub-daily
+ * @param time - Moment (ISO)
+ * @returns Longitude in degrees (0-360)
+ */
+export function interpolatePosition(positions: { date: string; longitude: number }[], time: string): number {
+    const series = toLongitudeSeries(positions);
+    if (series.length === 0) return 0;
+    const longitude = interpolateLongitude(series, new Date(time).getTime()) % 360;
+    return longitude < 0 ? longitude + 360 : longitude;
+}
+
+/**
+ * Difference of the longitudes of two bodies on their common sample dates
+ * (e.g. the elongation of the Moon from the Sun)
+ * @param first - Positions of the first body
+ * @param second - Positions of the second body
+ * @returns Longitude of the first body relative to the second (0-360)
+ */
+export function getRelativePositions(
+    first: { date: string; longitude: number }[],
+    second: { date: string; longitude: number }[]
+): { date: string; longitude: number }[] {
+    const secondByDate = new Map(second.map(position => [position.date, position.longitude]));
+    return first
+        .filter(position => secondByDate.has(position.date))
+        .map(position => ({
+            date: position.date,
+            longitude: ((position.longitude - secondByDate.get(position.date)! + 360) % 360),
+        }));
+}
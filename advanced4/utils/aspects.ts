@@ -0,0 +1,185 @@
+/**
+ * Aspects module with the aspect definitions and the user's aspect settings.
+ *
+ * Users choose which aspects are scanned, their orbs and whether each counts as
+ * positive or negative. The orb of an aspect between two bodies is the aspect orb
+ * multiplied by the mean of the bodies' orb factors, so the luminaries get wider
+ * orbs and the outer planets tighter ones. Factors default to the body registry
+ * and can be overridden per body.
+ *
+ * The settings are app-wide and persisted in AsyncStorage.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {AspectConfig, AspectSettings, AspectType} from '../types';
+import {getBodyByName} from './bodies';
+
+// Storage key of the aspect settings
+const ASPECT_SETTINGS_STORAGE_KEY = 'aspectSettings';
+
+/**
+ * Geometry and display data of an aspect
+ */
+export interface AspectDefinition {
+    type: AspectType;
+    name: string;   // Display name
+    glyph: string;  // Astrological glyph
+    angle: number;  // Angle of the aspect in degrees
+}
+
+// Supported aspects, major aspects first
+export const aspectDefinitions: AspectDefinition[] = [
+    {type: 'Conjunction', name: 'Conjunction', glyph: '☌', angle: 0},
+    {type: 'Opposition', name: 'Opposition', glyph: '☍', angle: 180},
+    {type: 'Trine', name: 'Trine', glyph: '△', angle: 120},
+    {type: 'Square', name: 'Square', glyph: '□', angle: 90},
+    {type: 'Sextile', name: 'Sextile', glyph: '⚹', angle: 60},
+    {type: 'SemiSquare', name: 'Semi-square', glyph: '∠', angle: 45},
+    {type: 'Quincunx', name: 'Quincunx', glyph: '⚻', angle: 150},
+    {type: 'SemiSextile', name: 'Semi-sextile', glyph: '⚺', angle: 30},
+    {type: 'Quintile', name: 'Quintile', glyph: 'Q', angle: 72},
+    {type: 'BiQuintile', name: 'Biquintile', glyph: 'bQ', angle: 144},
+    {type: 'Septile', name: 'Septile', glyph: 'S', angle: 360 / 7},
+];
+
+// Default settings: the major and common minor aspects, quintiles and septiles off
+export const DEFAULT_ASPECT_SETTINGS: AspectSettings = {
+    aspects: {
+        Conjunction: {enabled: true, orb: 8, influence: 'negative'},
+        Opposition: {enabled: true, orb: 8, influence: 'negative'},
+        Trine: {enabled: true, orb: 6, influence: 'positive'},
+        Square: {enabled: true, orb: 6, influence: 'negative'},
+        Sextile: {enabled: true, orb: 4, influence: 'positive'},
+        SemiSquare: {enabled: true, orb: 2, influence: 'negative'},
+        Quincunx: {enabled: true, orb: 3, influence: 'negative'},
+        SemiSextile: {enabled: true, orb: 2, influence: 'positive'},
+        Quintile: {enabled: false, orb: 2, influence: 'positive'},
+        BiQuintile: {enabled: false, orb: 2, influence: 'positive'},
+        Septile: {enabled: false, orb: 1, influence: 'negative'},
+    },
+    planetOrbFactors: {},
+};
+
+/**
+ * Returns the definition of an aspect type
+ */
+export function getAspectDefinition(type: AspectType): AspectDefinition | undefined {
+    return aspectDefinitions.find(aspect => aspect.type === type);
+}
+
+/**
+ * Angles at which the relative longitude of two bodies forms an aspect (both sides for asymmetric aspects,
+ * e.g. the waxing square at 90° and the waning square at 270°)
+ */
+export function getAspectOffsets(angle: number): number[] {
+    return angle === 0 || angle === 180 ? [angle] : [angle, 360 - angle];
+}
+
+/**
+ * Aspects enabled in the settings, in definition order
+ * @param settings - Aspect settings, the active ones when missing
+ */
+export function getEnabledAspects(settings: AspectSettings = getAspectSettings()): AspectDefinition[] {
+    return aspectDefinitions.filter(aspect => settings.aspects[aspect.type].enabled);
+}
+
+/**
+ * Orb multiplier of a body: the user's override, the registry default or 1
+ * @param bodyName - Display name of the body
+ * @param settings - Aspect settings, the active ones when missing
+ */
+export function getPlanetOrbFactor(bodyName: string, settings: AspectSettings = getAspectSettings()): number {
+    return settings.planetOrbFactors[bodyName] ?? getBodyByName(bodyName)?.orbFactor ?? 1;
+}
+
+/**
+ * Orb of an aspect between two bodies
+ * @param type - Aspect type
+ * @param firstBody - Display name of the first body
+ * @param secondBody - Display name of the second body
+ * @param settings - Aspect settings, the active ones when missing
+ * @returns Orb in degrees
+ */
+export function getAspectOrb(
+    type: AspectType,
+    firstBody: string,
+    secondBody: string,
+    settings: AspectSettings = getAspectSettings()
+): number {
+    const factor = (getPlanetOrbFactor(firstBody, settings) + getPlanetOrbFactor(secondBody, settings)) / 2;
+    return Math.round(settings.aspects[type].orb * factor * 100) / 100;
+}
+
+/**
+ * Determines if an aspect type has a positive or negative influence
+ * @param type - Aspect type
+ * @param settings - Aspect settings, the active ones when missing
+ */
+export function getAspectInfluence(
+    type: AspectType,
+    settings: AspectSettings = getAspectSettings()
+): 'positive' | 'negative' {
+    return settings.aspects[type].influence;
+}
+
+/**
+ * Completes stored settings with the defaults (e.g. aspects added after they were saved)
+ * and drops values that are not valid.
+ */
+function mergeWithDefaults(stored: Partial<AspectSettings>): AspectSettings {
+    const aspects = {...DEFAULT_ASPECT_SETTINGS.aspects};
+    for (const type of Object.keys(aspects) as AspectType[]) {
+        const config: Partial<AspectConfig> = stored.aspects?.[type] ?? {};
+        aspects[type] = {
+            enabled: typeof config.enabled === 'boolean' ? config.enabled : aspects[type].enabled,
+            orb: typeof config.orb === 'number' && config.orb > 0 ? config.orb : aspects[type].orb,
+            influence: config.influence === 'positive' || config.influence === 'negative'
+                ? config.influence
+                : aspects[type].influence,
+        };
+    }
+
+    const planetOrbFactors: { [bodyName: string]: number } = {};
+    Object.entries(stored.planetOrbFactors ?? {}).forEach(([bodyName, factor]) => {
+        if (typeof factor === 'number' && factor > 0) planetOrbFactors[bodyName] = factor;
+    });
+
+    return {aspects, planetOrbFactors};
+}
+
+// Aspect settings currently active in the app
+let activeAspectSettings: AspectSettings = DEFAULT_ASPECT_SETTINGS;
+
+/**
+ * Returns the aspect settings currently active in the app
+ */
+export function getAspectSettings(): AspectSettings {
+    return activeAspectSettings;
+}
+
+/**
+ * Loads the aspect settings from AsyncStorage and makes them active
+ */
+export async function loadAspectSettings(): Promise<AspectSettings> {
+    try {
+        const saved = await AsyncStorage.getItem(ASPECT_SETTINGS_STORAGE_KEY);
+        if (saved) {
+            activeAspectSettings = mergeWithDefaults(JSON.parse(saved));
+        }
+    } catch (error) {
+        console.error('[Aspects] Error loading aspect settings:', error);
+    }
+    return activeAspectSettings;
+}
+
+/**
+ * Makes aspect settings active and saves them to AsyncStorage
+ */
+export async function saveAspectSettings(settings: AspectSettings): Promise<void> {
+    activeAspectSettings = settings;
+    try {
+        await AsyncStorage.setItem(ASPECT_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.error('[Aspects] Error saving aspect settings:', error);
+    }
+}
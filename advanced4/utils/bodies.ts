@@ -0,0 +1,182 @@
+/**
+ * Body registry module listing every chart body known to the app.
+ *
+ * Each entry declares how the body is requested from Horizons, how it is displayed
+ * and where it is used (natal chart, transit scan, 3D visualization). Screens and
+ * services derive their body lists from this registry, so adding a body is a single
+ * entry here.
+ *
+ * Calculated points (lunar nodes, Black Moon Lilith) have no Horizons ID and are
+ * always computed by the local ephemeris.
+ */
+
+import {BodyDefinition} from '../types';
+
+// Registry order is the display order of natal charts. Bodies rendered in 3D keep the
+// order of the stored orbital data arrays in PlanetDataService. Transit weights grow
+// with the slowness of the planet, slow planets mark longer and deeper periods. Orb factors
+// widen the orbs of the luminaries and tighten those of the outer planets and minor bodies.
+export const bodyRegistry: BodyDefinition[] = [
+    {
+        id: '10', horizonsId: '10', name: 'Sun', glyph: '☉', kind: 'luminary',
+        textureKey: 'sun', rendered3D: true, natal: true, transiting: true,
+        orbitalPeriod: 365.25, transitWeight: 0.7, orbFactor: 1.25, color: 'yellow', size: 2, // Period relative to Earth
+    },
+    {
+        id: '199', horizonsId: '199', name: 'Mercury', glyph: '☿', kind: 'planet',
+        textureKey: 'mercury', rendered3D: true, natal: true, transiting: true,
+        orbitalPeriod: 87.97, transitWeight: 0.5, color: 'gray', size: 0.4,
+    },
+    {
+        id: '299', horizonsId: '299', name: 'Venus', glyph: '♀', kind: 'planet',
+        textureKey: 'venus', rendered3D: true, natal: true, transiting: true,
+        orbitalPeriod: 224.7, transitWeight: 0.55, color: 'orange', size: 0.7,
+    },
+    {
+        id: '399', horizonsId: '399', name: 'Earth', glyph: '⊕', kind: 'planet',
+        textureKey: 'earth', rendered3D: true, natal: false, transiting: false,
+        orbitalPeriod: 365.25, color: 'blue', size: 1,
+    },
+    {
+        id: '301', horizonsId: '301', name: 'Moon', glyph: '☽', kind: 'luminary',
+        textureKey: null, rendered3D: true, natal: true, transiting: true,
+        orbitalPeriod: 27.321661, transitWeight: 0.4, orbFactor: 1.25, color: 'lightgray', size: 0.27, samplesPerDay: 4,
+        transitSamplesPerDay: 24, // Period: sidereal month, moves about 13° a day
+    },
+    {
+        id: '499', horizonsId: '499', name: 'Mars', glyph: '♂', kind: 'planet',
+        textureKey: 'mars', rendered3D: true, natal: true, transiting: true,
+        orbitalPeriod: 686.98, transitWeight: 0.65, color: 'red', size: 0.65,
+    },
+    {
+        id: '599', horizonsId: '599', name: 'Jupiter', glyph: '♃', kind: 'planet',
+        textureKey: 'jupiter', rendered3D: true, natal: true, transiting: true,
+        orbitalPeriod: 4332.59, transitWeight: 0.75, color: 'brown', size: 1.5, orbitCorrection: 1.7,
+    },
+    {
+        id: '699', horizonsId: '699', name: 'Saturn', glyph: '♄', kind: 'planet',
+        textureKey: 'saturn', rendered3D: true, natal: true, transiting: true,
+        orbitalPeriod: 10759.22, transitWeight: 0.85, color: 'gold', size: 1.25, orbitCorrection: 3.2,
+    },
+    {
+        id: '799', horizonsId: '799', name: 'Uranus', glyph: '♅', kind: 'planet',
+        textureKey: 'uranus', rendered3D: true, natal: true, transiting: true,
+        orbitalPeriod: 30688.5, transitWeight: 0.9, orbFactor: 0.8, color: 'cyan', size: 1, orbitCorrection: 4.0,
+    },
+    {
+        id: '899', horizonsId: '899', name: 'Neptune', glyph: '♆', kind: 'planet',
+        textureKey: 'neptune', rendered3D: true, natal: true, transiting: true,
+        orbitalPeriod: 60190, transitWeight: 0.9, orbFactor: 0.8, color: 'darkblue', size: 1, orbitCorrection: 5,
+    },
+    {
+        id: '999', horizonsId: '999', name: 'Pluto', glyph: '♇', kind: 'dwarfPlanet',
+        textureKey: null, rendered3D: false, natal: true, transiting: true,
+        orbitalPeriod: 90560, transitWeight: 1, orbFactor: 0.8,
+    },
+    {
+        id: '2060;', horizonsId: '2060;', name: 'Chiron', glyph: '⚷', kind: 'centaur',
+        textureKey: null, rendered3D: false, natal: true, transiting: true,
+        orbitalPeriod: 18518, transitWeight: 0.7, orbFactor: 0.8,
+    },
+    {
+        id: '1;', horizonsId: '1;', name: 'Ceres', glyph: '⚳', kind: 'asteroid',
+        textureKey: null, rendered3D: false, natal: true, transiting: false,
+        orbitalPeriod: 1681.6, transitWeight: 0.45, orbFactor: 0.6,
+    },
+    {
+        id: '2;', horizonsId: '2;', name: 'Pallas', glyph: '⚴', kind: 'asteroid',
+        textureKey: null, rendered3D: false, natal: true, transiting: false,
+        orbitalPeriod: 1686, transitWeight: 0.45, orbFactor: 0.6,
+    },
+    {
+        id: '3;', horizonsId: '3;', name: 'Juno', glyph: '⚵', kind: 'asteroid',
+        textureKey: null, rendered3D: false, natal: true, transiting: false,
+        orbitalPeriod: 1594, transitWeight: 0.45, orbFactor: 0.6,
+    },
+    {
+        id: '4;', horizonsId: '4;', name: 'Vesta', glyph: '⚶', kind: 'asteroid',
+        textureKey: null, rendered3D: false, natal: true, transiting: false,
+        orbitalPeriod: 1325.7, transitWeight: 0.45, orbFactor: 0.6,
+    },
+    {
+        id: 'meanNode', horizonsId: null, name: 'Mean Node', glyph: '☊', kind: 'point',
+        textureKey: null, rendered3D: false, natal: true, transiting: false,
+        orbitalPeriod: 6798.38, transitWeight: 0.6, orbFactor: 0.8, // Period: regression of the nodes
+    },
+    {
+        id: 'trueNode', horizonsId: null, name: 'True Node', glyph: '☊', kind: 'point',
+        textureKey: null, rendered3D: false, natal: true, transiting: true,
+        orbitalPeriod: 6798.38, transitWeight: 0.6, orbFactor: 0.8,
+    },
+    {
+        id: 'lilith', horizonsId: null, name: 'Lilith', glyph: '⚸', kind: 'point',
+        textureKey: null, rendered3D: false, natal: true, transiting: false,
+        orbitalPeriod: 3232.6, transitWeight: 0.5, orbFactor: 0.6, // Period: revolution of the lunar apsides
+    },
+];
+
+/**
+ * Returns the registry entry of a body by display name
+ */
+export function getBodyByName(name: string): BodyDefinition | undefined {
+    return bodyRegistry.find(body => body.name === name);
+}
+
+/**
+ * Returns the registry entry of a body by its ID (Horizons ID or calculated point ID)
+ */
+export function getBodyById(id: string): BodyDefinition | undefined {
+    return bodyRegistry.find(body => body.id === id);
+}
+
+/**
+ * Returns true for points computed locally because Horizons does not provide them
+ */
+export function isCalculatedPoint(id: string): boolean {
+    const body = getBodyById(id);
+    return !!body && body.horizonsId === null;
+}
+
+/**
+ * Bodies that make up the natal chart, in display order
+ */
+export function getNatalBodies(): BodyDefinition[] {
+    return bodyRegistry.filter(body => body.natal);
+}
+
+/**
+ * Returns true for the core bodies of a chart (luminaries, planets and Pluto); the centaurs,
+ * asteroids and calculated points are minor bodies a chart can do without
+ */
+export function isCoreBody(name: string): boolean {
+    const kind = getBodyByName(name)?.kind;
+    return kind === 'luminary' || kind === 'planet' || kind === 'dwarfPlanet';
+}
+
+/**
+ * Bodies scanned for transits to the natal chart
+ */
+export function getTransitingBodies(): BodyDefinition[] {
+    return bodyRegistry.filter(body => body.transiting);
+}
+
+/**
+ * Transiting bodies whose apparent motion stations and turns retrograde (luminaries and calculated points excluded)
+ */
+export function getStationingBodies(): BodyDefinition[] {
+    return getTransitingBodies().filter(body => body.kind !== 'point' && body.kind !== 'luminary');
+}
+
+/**
+ * Bodies drawn in the 3D solar system, in the order of the stored orbital data arrays
+ */
+export function getRenderedBodies(): BodyDefinition[] {
+    return bodyRegistry.filter(body => body.rendered3D);
+}
+
+/**
+ * Returns the glyph of a body, or an empty string for unknown names
+ */
+export function getBodyGlyph(name: string): string {
+    return getBodyByName(name)?.glyph ?? '';
+}
@@ -0,0 +1,36 @@
+/**
+ * Chart export module for sharing a rendered chart as an image.
+ *
+ * The view holding the chart wheel is captured as a PNG file and handed to the
+ * system share sheet, so users can send or save their chart.
+ */
+
+import {RefObject} from 'react';
+import {View} from 'react-native';
+import {captureRef} from 'react-native-view-shot';
+import * as Sharing from 'expo-sharing';
+
+/**
+ * Captures a view as a PNG image
+ * @param viewRef - Reference to the view to capture (it must not be collapsable)
+ * @returns URI of the temporary image file
+ */
+export async function captureChartImage(viewRef: RefObject<View | null>): Promise<string> {
+    return captureRef(viewRef, {format: 'png', quality: 1, result: 'tmpfile'});
+}
+
+/**
+ * Captures a view as a PNG image and opens the share sheet for it
+ * @param viewRef - Reference to the view to capture
+ * @param title - Title of the share dialog
+ * @returns URI of the image, or null when sharing is not available on the device
+ */
+export async function shareChartImage(viewRef: RefObject<View | null>, title: string): Promise<string | null> {
+    const uri = await captureChartImage(viewRef);
+    if (!(await Sharing.isAvailableAsync())) {
+        console.warn('[ChartExport] Sharing is not available on this device');
+        return null;
+    }
+    await Sharing.shareAsync(uri, {mimeType: 'image/png', dialogTitle: title, UTI: 'public.png'});
+    return uri;
+}
@@ -0,0 +1,817 @@
+/**
+ * Local analytical ephemeris module for offline astronomical calculations.
+ *
+ * Computes planetary positions and orbital elements without network access,
+ * returning the same data shapes as the Horizons-backed functions in api.ts:
+ * - Earth (and therefore the Sun) from a truncated VSOP87D series
+ * - Other planets from JPL mean orbital elements with secular rates
+ * - The Moon from the truncated ELP2000 lunar theory (Meeus, chapter 47)
+ * - Pluto from the same JPL mean elements as the planets
+ * - The mean and true lunar nodes and Black Moon Lilith (mean lunar apogee) from the
+ *   lunar theory; these points are not available from Horizons
+ *
+ * Chiron and the asteroids are not covered and are only available from Horizons.
+ *
+ * Longitudes are apparent geocentric ecliptic longitudes of date
+ * (light-time, aberration and nutation in longitude applied), matching
+ * the QUANTITIES='31' output requested from Horizons.
+ *
+ * Orbital elements are heliocentric, except for the Moon whose elements are
+ * geocentric (matching the CENTER='500@399' request sent to Horizons).
+ */
+
+import {NatalChartEntry, PlanetData} from '../types';
+import {convertToUTC, getZodiacSign} from './api';
+import {getNatalBodies} from './bodies';
+import {getZodiacSetting} from './zodiac';
+
+const DEG = Math.PI / 180;
+const AU_KM = 149597870.7;
+const J2000 = 2451545.0;
+const LIGHT_TIME_DAYS_PER_AU = 0.0057755183;
+
+// Mean inclination of the lunar orbit to the ecliptic (degrees) and sidereal month (days)
+const MOON_INCLINATION = 5.145;
+const MOON_SIDEREAL_PERIOD = 27.321661;
+
+/**
+ * Single VSOP87 periodic term: amplitude, phase and frequency
+ */
+type VsopTerm = [number, number, number];
+
+// Truncated VSOP87D series for Earth (heliocentric, ecliptic and equinox of date)
+const EARTH_L: VsopTerm[][] = [
+    [
+        [175347046, 0, 0], [3341656, 4.6692568, 6283.07585], [34894, 4.6261, 12566.1517],
+        [3497, 2.7441, 5753.3849], [3418, 2.8289, 3.5231], [3136, 3.6277, 77713.7715],
+        [2676, 4.4181, 7860.4194], [2343, 6.1352, 3930.2097], [1324, 0.7425, 11506.7698],
+        [1273, 2.0371, 529.691], [1199, 1.1096, 1577.3435], [990, 5.233, 5884.927],
+        [902, 2.045, 26.298], [857, 3.508, 398.149], [780, 1.179, 5223.694],
+        [753, 2.533, 5507.553], [505, 4.583, 18849.228], [492, 4.205, 775.523],
+        [357, 2.92, 0.067], [317, 5.849, 11790.629], [284, 1.899, 796.298],
+        [271, 0.315, 10977.079], [243, 0.345, 5486.778], [206, 4.806, 2544.314],
+        [205, 1.869, 5573.143], [202, 2.458, 6069.777], [156, 0.833, 213.299],
+        [132, 3.411, 2942.463], [126, 1.083, 20.775], [115, 0.645, 0.98],
+        [103, 0.636, 4694.003], [102, 0.976, 15720.839], [102, 4.267, 7.114],
+        [99, 6.21, 2146.17], [98, 0.68, 155.42], [86, 5.98, 161000.69],
+        [85, 1.3, 6275.96], [85, 3.67, 71430.7], [80, 1.81, 17260.15],
+        [79, 3.04, 12036.46], [75, 1.76, 5088.63], [74, 3.5, 3154.69],
+        [74, 4.68, 801.82], [70, 0.83, 9437.76], [62, 3.98, 8827.39],
+        [61, 1.82, 7084.9], [57, 2.78, 6286.6], [56, 4.39, 14143.5],
+        [56, 3.47, 6279.55], [52, 0.19, 12139.55], [52, 1.33, 1748.02],
+        [51, 0.28, 5856.48], [49, 0.49, 1194.45], [41, 5.37, 8429.24],
+        [41, 2.4, 19651.05], [39, 6.17, 10447.39], [37, 6.04, 10213.29],
+        [37, 2.57, 1059.38], [36, 1.71, 2352.87], [36, 1.78, 6812.77],
+        [33, 0.59, 17789.85], [30, 0.44, 83996.85], [30, 2.74, 1349.87],
+        [25, 3.16, 4690.48],
+    ],
+    [
+        [628331966747, 0, 0], [206059, 2.678235, 6283.07585], [4303, 2.6351, 12566.1517],
+        [425, 1.59, 3.523], [119, 5.796, 26.298], [109, 2.966, 1577.344],
+        [93, 2.59, 18849.23], [72, 1.14, 529.69], [68, 1.87, 398.15],
+        [67, 4.41, 5507.55], [59, 2.89, 5223.69], [56, 2.17, 155.42],
+        [45, 0.4, 796.3], [36, 0.47, 775.52], [29, 2.65, 7.11],
+        [21, 5.34, 0.98], [19, 1.85, 5486.78], [19, 4.97, 213.3],
+        [17, 2.99, 6275.96], [16, 0.03, 2544.31],
+    ],
+    [
+        [52919, 0, 0], [8720, 1.0721, 6283.0758], [309, 0.867, 12566.152],
+        [27, 0.05, 3.52], [16, 5.19, 26.3], [16, 3.68, 155.42],
+        [10, 0.76, 18849.23], [9, 2.06, 77713.77], [7, 0.83, 775.52],
+        [5, 4.66, 1577.34],
+    ],
+    [[289, 5.844, 6283.076], [35, 0, 0], [17, 5.49, 12566.15], [3, 5.2, 155.42], [1, 4.72, 3.52]],
+    [[114, 3.142, 0], [8, 4.13, 6283.08], [1, 3.84, 12566.15]],
+    [[1, 3.14, 0]],
+];
+
+const EARTH_B: VsopTerm[][] = [
+    [[280, 3.199, 84334.662], [102, 5.422, 5507.553], [80, 3.88, 5223.69], [44, 3.7, 2352.87], [32, 4, 1577.34]],
+    [[9, 3.9, 5507.55], [6, 1.73, 5223.69]],
+];
+
+const EARTH_R: VsopTerm[][] = [
+    [
+        [100013989, 0, 0], [1670700, 3.0984635, 6283.07585], [13956, 3.05525, 12566.1517],
+        [3084, 5.1985, 77713.7715], [1628, 1.1739, 5753.3849], [1576, 2.8469, 7860.4194],
+        [925, 5.453, 11506.77], [542, 4.564, 3930.21], [472, 3.661, 5884.927],
+        [346, 0.964, 5507.553], [329, 5.9, 5223.694], [307, 0.299, 5573.143],
+        [243, 4.273, 11790.629], [212, 5.847, 1577.344], [186, 5.022, 10977.079],
+        [175, 3.012, 18849.228], [110, 5.055, 5486.778], [98, 0.89, 6069.78],
+        [86, 5.69, 15720.84], [86, 1.27, 161000.69], [65, 0.27, 17260.15],
+        [63, 0.92, 529.69], [57, 2.01, 83996.85], [56, 5.24, 71430.7],
+        [49, 3.25, 2544.31], [47, 2.58, 775.52], [45, 5.54, 9437.76],
+        [43, 6.01, 6275.96], [39, 5.36, 4694], [38, 2.39, 8827.39],
+        [37, 0.83, 19651.05], [37, 4.9, 12139.55], [36, 1.67, 12036.46],
+        [35, 1.84, 2942.46], [33, 0.24, 7084.9], [32, 0.18, 5088.63],
+        [32, 1.78, 398.15], [28, 1.21, 6286.6], [28, 1.9, 6279.55],
+        [26, 4.59, 10447.39],
+    ],
+    [
+        [103019, 1.10749, 6283.07585], [1721, 1.0644, 12566.1517], [702, 3.142, 0],
+        [32, 1.02, 18849.23], [31, 2.84, 5507.55], [25, 1.32, 5223.69],
+        [18, 1.42, 1577.34], [10, 5.91, 10977.08], [9, 1.42, 6275.96],
+        [9, 0.27, 5486.78],
+    ],
+    [[4359, 5.7846, 6283.0758], [124, 5.579, 12566.152], [12, 3.14, 0], [9, 3.63, 77713.77], [6, 1.87, 5573.14], [3, 5.47, 18849.23]],
+    [[145, 4.273, 6283.076], [7, 3.92, 12566.15]],
+    [[4, 2.56, 6283.08]],
+];
+
+/**
+ * Mean orbital elements at J2000 and their rates per Julian century.
+ * Values are JPL approximate elements (valid 1800-2050) referred to
+ * the J2000 ecliptic and equinox.
+ */
+interface MeanElements {
+    a: [number, number];        // Semi-major axis (au)
+    e: [number, number];        // Eccentricity
+    i: [number, number];        // Inclination (degrees)
+    L: [number, number];        // Mean longitude (degrees)
+    peri: [number, number];     // Longitude of perihelion (degrees)
+    node: [number, number];     // Longitude of ascending node (degrees)
+}
+
+const meanElements: { [planetId: string]: MeanElements } = {
+    '199': {
+        a: [0.38709927, 0.00000037], e: [0.20563593, 0.00001906], i: [7.00497902, -0.00594749],
+        L: [252.2503235, 149472.67411175], peri: [77.45779628, 0.16047689], node: [48.33076593, -0.12534081],
+    },
+    '299': {
+        a: [0.72333566, 0.0000039], e: [0.00677672, -0.00004107], i: [3.39467605, -0.0007889],
+        L: [181.9790995, 58517.81538729], peri: [131.60246718, 0.00268329], node: [76.67984255, -0.27769418],
+    },
+    '399': {
+        a: [1.00000261, 0.00000562], e: [0.01671123, -0.00004392], i: [-0.00001531, -0.01294668],
+        L: [100.46457166, 35999.37244981], peri: [102.93768193, 0.32327364], node: [0, 0],
+    },
+    '499': {
+        a: [1.52371034, 0.00001847], e: [0.0933941, 0.00007882], i: [1.84969142, -0.00813131],
+        L: [-4.55343205, 19140.30268499], peri: [-23.94362959, 0.44441088], node: [49.55953891, -0.29257343],
+    },
+    '599': {
+        a: [5.202887, -0.00011607], e: [0.04838624, -0.00013253], i: [1.30439695, -0.00183714],
+        L: [34.39644051, 3034.74612775], peri: [14.72847983, 0.21252668], node: [100.47390909, 0.20469106],
+    },
+    '699': {
+        a: [9.53667594, -0.0012506], e: [0.05386179, -0.00050991], i: [2.48599187, 0.00193609],
+        L: [49.95424423, 1222.49362201], peri: [92.59887831, -0.41897216], node: [113.66242448, -0.28867794],
+    },
+    '799': {
+        a: [19.18916464, -0.00196176], e: [0.04725744, -0.00004397], i: [0.77263783, -0.00242939],
+        L: [313.23810451, 428.48202785], peri: [170.9542763, 0.40805281], node: [74.01692503, 0.04240589],
+    },
+    '899': {
+        a: [30.06992276, 0.00026291], e: [0.00859048, 0.00005105], i: [1.77004347, 0.00035372],
+        L: [-55.12002969, 218.45945325], peri: [44.96476227, -0.32241464], node: [131.78422574, -0.00508664],
+    },
+    '999': {
+        a: [39.48211675, -0.00031596], e: [0.2488273, 0.0000517], i: [17.14001206, 0.00004818],
+        L: [238.92903833, 145.20780515], peri: [224.06891629, -0.04062942], node: [110.30393684, -0.01183482],
+    },
+};
+
+/**
+ * Normalizes an angle to the range 0-360 degrees.
+ */
+function normalizeDegrees(angle: number): number {
+    const result = angle % 360;
+    return result < 0 ? result + 360 : result;
+}
+
+/**
+ * Converts a date to a Julian Day number (UT).
+ */
+export function toJulianDay(date: Date): number {
+    return date.getTime() / 86400000 + 2440587.5;
+}
+
+/**
+ * Approximates Delta T (TT - UT) in seconds using the Espenak-Meeus polynomials
+ * for the modern era and a long-term parabola elsewhere.
+ */
+export function deltaTSeconds(date: Date): number {
+    const y = date.getUTCFullYear() + (date.getUTCMonth() + 0.5) / 12;
+    if (y >= 2005 && y < 2050) {
+        const t = y - 2000;
+        return 62.92 + 0.32217 * t + 0.005589 * t * t;
+    }
+    if (y >= 1986 && y < 2005) {
+        const t = y - 2000;
+        return 63.86 + 0.3345 * t - 0.060374 * t * t + 0.0017275 * t ** 3 + 0.000651814 * t ** 4 + 0.00002373599 * t ** 5;
+    }
+    if (y >= 1961 && y < 1986) {
+        const t = y - 1975;
+        return 45.45 + 1.067 * t - t * t / 260 - t ** 3 / 718;
+    }
+    if (y >= 1941 && y < 1961) {
+        const t = y - 1950;
+        return 29.07 + 0.407 * t - t * t / 233 + t ** 3 / 2547;
+    }
+    if (y >= 1920 && y < 1941) {
+        const t = y - 1920;
+        return 21.2 + 0.84493 * t - 0.0761 * t * t + 0.0020936 * t ** 3;
+    }
+    const u = (y - 1820) / 100;
+    return -20 + 32 * u * u;
+}
+
+/**
+ * Returns Julian centuries of Terrestrial Time elapsed since J2000.0.
+ */
+export function toJulianCenturiesTT(date: Date): number {
+    const jde = toJulianDay(date) + deltaTSeconds(date) / 86400;
+    return (jde - J2000) / 36525;
+}
+
+/**
+ * Evaluates a VSOP87 series (sum of powers of tau) in radians or au.
+ */
+function evaluateVsop(series: VsopTerm[][], tau: number): number {
+    let result = 0;
+    let tauPower = 1;
+    for (const terms of series) {
+        let sum = 0;
+        for (const [amplitude, phase, frequency] of terms) {
+            sum += amplitude * Math.cos(phase + frequency * tau);
+        }
+        result += sum * tauPower;
+        tauPower *= tau;
+    }
+    return result / 1e8;
+}
+
+/**
+ * Heliocentric ecliptic coordinates of Earth for the ecliptic and equinox of date.
+ * @param T - Julian centuries (TT) since J2000
+ * @returns Longitude and latitude in degrees, radius in au
+ */
+function earthHeliocentric(T: number): { longitude: number; latitude: number; radius: number } {
+    const tau = T / 10;
+    return {
+        longitude: normalizeDegrees(evaluateVsop(EARTH_L, tau) / DEG),
+        latitude: evaluateVsop(EARTH_B, tau) / DEG,
+        radius: evaluateVsop(EARTH_R, tau),
+    };
+}
+
+/**
+ * Solves Kepler's equation with Newton iterations.
+ * @param M - Mean anomaly in radians
+ * @param e - Eccentricity
+ * @returns Eccentric anomaly in radians
+ */
+function solveKepler(M: number, e: number): number {
+    let E = M + e * Math.sin(M);
+    for (let iteration = 0; iteration < 15; iteration++) {
+        const delta = (E - e * Math.sin(E) - M) / (1 - e * Math.cos(E));
+        E -= delta;
+        if (Math.abs(delta) < 1e-12) break;
+    }
+    return E;
+}
+
+/**
+ * Evaluates the mean elements of a planet at a given epoch.
+ */
+function elementsAt(elements: MeanElements, T: number) {
+    return {
+        a: elements.a[0] + elements.a[1] * T,
+        e: elements.e[0] + elements.e[1] * T,
+        i: elements.i[0] + elements.i[1] * T,
+        L: elements.L[0] + elements.L[1] * T,
+        peri: elements.peri[0] + elements.peri[1] * T,
+        node: elements.node[0] + elements.node[1] * T,
+    };
+}
+
+/**
+ * General precession in longitude since J2000, in degrees.
+ */
+function precessionInLongitude(T: number): number {
+    return (5029.0966 * T + 1.11113 * T * T) / 3600;
+}
+
+/**
+ * Heliocentric rectangular coordinates (au) of a planet for the ecliptic and equinox of date.
+ */
+function planetHeliocentric(planetId: string, T: number): { x: number; y: number; z: number } {
+    if (planetId === '399') {
+        const earth = earthHeliocentric(T);
+        return sphericalToRectangular(earth.longitude, earth.latitude, earth.radius);
+    }
+
+    const el = elementsAt(meanElements[planetId], T);
+    const w = (el.peri - el.node) * DEG;
+    const node = el.node * DEG;
+    const inc = el.i * DEG;
+    const E = solveKepler(normalizeDegrees(el.L - el.peri) * DEG, el.e);
+
+    // Coordinates in the orbital plane
+    const xOrbit = el.a * (Math.cos(E) - el.e);
+    const yOrbit = el.a * Math.sqrt(1 - el.e * el.e) * Math.sin(E);
+
+    // Rotate to the J2000 ecliptic frame
+    const cosW = Math.cos(w), sinW = Math.sin(w);
+    const cosN = Math.cos(node), sinN = Math.sin(node);
+    const cosI = Math.cos(inc), sinI = Math.sin(inc);
+    const x = (cosW * cosN - sinW * sinN * cosI) * xOrbit + (-sinW * cosN - cosW * sinN * cosI) * yOrbit;
+    const y = (cosW * sinN + sinW * cosN * cosI) * xOrbit + (-sinW * sinN + cosW * cosN * cosI) * yOrbit;
+    const z = sinW * sinI * xOrbit + cosW * sinI * yOrbit;
+
+    // Precess from the J2000 equinox to the equinox of date
+    const spherical = rectangularToSpherical(x, y, z);
+    return sphericalToRectangular(spherical.longitude + precessionInLongitude(T), spherical.latitude, spherical.radius);
+}
+
+function sphericalToRectangular(longitude: number, latitude: number, radius: number) {
+    const lon = longitude * DEG;
+    const lat = latitude * DEG;
+    return {
+        x: radius * Math.cos(lat) * Math.cos(lon),
+        y: radius * Math.cos(lat) * Math.sin(lon),
+        z: radius * Math.sin(lat),
+    };
+}
+
+function rectangularToSpherical(x: number, y: number, z: number) {
+    return {
+        longitude: normalizeDegrees(Math.atan2(y, x) / DEG),
+        latitude: Math.atan2(z, Math.sqrt(x * x + y * y)) / DEG,
+        radius: Math.sqrt(x * x + y * y + z * z),
+    };
+}
+
+/**
+ * Nutation in longitude (degrees) using the four largest terms of IAU 1980.
+ */
+function nutationInLongitude(T: number): number {
+    const omega = (125.04452 - 1934.136261 * T) * DEG;
+    const sunMean = (280.4665 + 36000.7698 * T) * DEG;
+    const moonMean = (218.3165 + 481267.8813 * T) * DEG;
+    return (-17.2 * Math.sin(omega) - 1.32 * Math.sin(2 * sunMean)
+        - 0.23 * Math.sin(2 * moonMean) + 0.21 * Math.sin(2 * omega)) / 3600;
+}
+
+/**
+ * Nutation in obliquity (degrees) using the four largest terms of IAU 1980.
+ */
+function nutationInObliquity(T: number): number {
+    const omega = (125.04452 - 1934.136261 * T) * DEG;
+    const sunMean = (280.4665 + 36000.7698 * T) * DEG;
+    const moonMean = (218.3165 + 481267.8813 * T) * DEG;
+    return (9.2 * Math.cos(omega) + 0.57 * Math.cos(2 * sunMean)
+        + 0.1 * Math.cos(2 * moonMean) - 0.09 * Math.cos(2 * omega)) / 3600;
+}
+
+/**
+ * Returns the true obliquity of the ecliptic (degrees) for a date.
+ */
+export function getTrueObliquity(date: Date): number {
+    const T = toJulianCenturiesTT(date);
+    const meanObliquity = 23.4392911111 - (46.815 * T + 0.00059 * T * T - 0.001813 * T ** 3) / 3600;
+    return meanObliquity + nutationInObliquity(T);
+}
+
+/**
+ * Returns the apparent sidereal time at Greenwich (degrees) for a date (Meeus, chapter 12).
+ */
+export function getApparentSiderealTime(date: Date): number {
+    const jd = toJulianDay(date);
+    const t = (jd - J2000) / 36525;
+    const meanSiderealTime = 280.46061837 + 360.98564736629 * (jd - J2000)
+        + 0.000387933 * t * t - t ** 3 / 38710000;
+    const T = toJulianCenturiesTT(date);
+    const equationOfEquinoxes = nutationInLongitude(T) * Math.cos(getTrueObliquity(date) * DEG);
+    return normalizeDegrees(meanSiderealTime + equationOfEquinoxes);
+}
+
+/**
+ * Apparent geocentric ecliptic longitude and latitude of the Sun.
+ */
+function sunApparent(T: number): { longitude: number; latitude: number; distance: number } {
+    const earth = earthHeliocentric(T);
+    const longitude = earth.longitude + 180 - 0.09033 / 3600;
+    const aberration = -20.4898 / 3600 / earth.radius;
+    return {
+        longitude: normalizeDegrees(longitude + nutationInLongitude(T) + aberration),
+        latitude: -earth.latitude,
+        distance: earth.radius,
+    };
+}
+
+/**
+ * Apparent geocentric ecliptic longitude and latitude of a planet,
+ * corrected for light-time, annual aberration and nutation.
+ */
+function planetApparent(planetId: string, T: number): { longitude: number; latitude: number; distance: number } {
+    const earth = planetHeliocentric('399', T);
+
+    // Iterate light-time correction
+    let lightTime = 0;
+    let geo = {x: 0, y: 0, z: 0};
+    for (let iteration = 0; iteration < 3; iteration++) {
+        const planet = planetHeliocentric(planetId, T - lightTime / 36525);
+        geo = {x: planet.x - earth.x, y: planet.y - earth.y, z: planet.z - earth.z};
+        const distance = Math.sqrt(geo.x * geo.x + geo.y * geo.y + geo.z * geo.z);
+        lightTime = distance * LIGHT_TIME_DAYS_PER_AU;
+    }
+
+    const spherical = rectangularToSpherical(geo.x, geo.y, geo.z);
+    const sunLongitude = sunApparent(T).longitude;
+    const aberration = -20.49552 / 3600 * Math.cos((sunLongitude - spherical.longitude) * DEG)
+        / Math.cos(spherical.latitude * DEG);
+
+    return {
+        longitude: normalizeDegrees(spherical.longitude + aberration + nutationInLongitude(T)),
+        latitude: spherical.latitude,
+        distance: spherical.radius,
+    };
+}
+
+// Periodic terms of the lunar theory: [D, M, M', F, coefficient]
+// Longitude and latitude coefficients are in 1e-6 degrees, distance in meters
+const MOON_LONGITUDE_TERMS: [number, number, number, number, number][] = [
+    [0, 0, 1, 0, 6288774], [2, 0, -1, 0, 1274027], [2, 0, 0, 0, 658314],
+    [0, 0, 2, 0, 213618], [0, 1, 0, 0, -185116], [0, 0, 0, 2, -114332],
+    [2, 0, -2, 0, 58793], [2, -1, -1, 0, 57066], [2, 0, 1, 0, 53322],
+    [2, -1, 0, 0, 45758], [0, 1, -1, 0, -40923], [1, 0, 0, 0, -34720],
+    [0, 1, 1, 0, -30383], [2, 0, 0, -2, 15327], [0, 0, 1, 2, -12528],
+    [0, 0, 1, -2, 10980], [4, 0, -1, 0, 10675], [0, 0, 3, 0, 10034],
+    [4, 0, -2, 0, 8548], [2, 1, -1, 0, -7888], [2, 1, 0, 0, -6766],
+    [1, 0, -1, 0, -5163], [1, 1, 0, 0, 4987], [2, -1, 1, 0, 4036],
+    [2, 0, 2, 0, 3994], [4, 0, 0, 0, 3861], [2, 0, -3, 0, 3665],
+    [0, 1, -2, 0, -2689], [2, 0, -1, 2, -2602], [2, -1, -2, 0, 2390],
+    [1, 0, 1, 0, -2348], [2, -2, 0, 0, 2236], [0, 1, 2, 0, -2120],
+    [0, 2, 0, 0, -2069], [2, -2, -1, 0, 2048], [2, 0, 1, -2, -1773],
+    [2, 0, 0, 2, -1595], [4, -1, -1, 0, 1215], [0, 0, 2, 2, -1110],
+    [3, 0, -1, 0, -892], [2, 1, 1, 0, -810], [4, -1, -2, 0, 759],
+    [0, 2, -1, 0, -713], [2, 2, -1, 0, -700], [2, 1, -2, 0, 691],
+    [2, -1, 0, -2, 596], [4, 0, 1, 0, 549], [0, 0, 4, 0, 537],
+    [4, -1, 0, 0, 520], [1, 0, -2, 0, -487],
+];
+
+const MOON_DISTANCE_TERMS: [number, number, number, number, number][] = [
+    [0, 0, 1, 0, -20905355], [2, 0, -1, 0, -3699111], [2, 0, 0, 0, -2955968],
+    [0, 0, 2, 0, -569925], [0, 1, 0, 0, 48888], [0, 0, 0, 2, -3149],
+    [2, 0, -2, 0, 246158], [2, -1, -1, 0, -152138], [2, 0, 1, 0, -170733],
+    [2, -1, 0, 0, -204586], [0, 1, -1, 0, -129620], [1, 0, 0, 0, 108743],
+    [0, 1, 1, 0, 104755], [2, 0, 0, -2, 10321], [0, 0, 1, -2, 79661],
+    [4, 0, -1, 0, -34782], [0, 0, 3, 0, -23210], [4, 0, -2, 0, -21636],
+    [2, 1, -1, 0, 24208], [2, 1, 0, 0, 30824], [1, 0, -1, 0, -8379],
+    [1, 1, 0, 0, -16675], [2, -1, 1, 0, -12831], [2, 0, 2, 0, -10445],
+    [4, 0, 0, 0, -11650], [2, 0, -3, 0, 14403], [0, 1, -2, 0, -7003],
+    [2, -1, -2, 0, 10056], [1, 0, 1, 0, 6322], [2, -2, 0, 0, -9884],
+];
+
+const MOON_LATITUDE_TERMS: [number, number, number, number, number][] = [
+    [0, 0, 0, 1, 5128122], [0, 0, 1, 1, 280602], [0, 0, 1, -1, 277693],
+    [2, 0, 0, -1, 173237], [2, 0, -1, 1, 55413], [2, 0, -1, -1, 46271],
+    [2, 0, 0, 1, 32573], [0, 0, 2, 1, 17198], [2, 0, 1, -1, 9266],
+    [0, 0, 2, -1, 8822], [2, -1, 0, -1, 8216], [2, 0, -2, -1, 4324],
+    [2, 0, 1, 1, 4200], [2, 1, 0, -1, -3359], [2, -1, -1, 1, 2463],
+    [2, -1, 0, 1, 2211], [2, -1, -1, -1, 2065], [0, 1, -1, -1, -1870],
+    [4, 0, -1, -1, 1828], [0, 1, 0, 1, -1794], [0, 0, 0, 3, -1749],
+    [0, 1, -1, 1, -1565], [1, 0, 0, 1, -1491], [0, 1, 1, 1, -1475],
+    [0, 1, 1, -1, -1410], [0, 1, 0, -1, -1344], [1, 0, 0, -1, -1335],
+    [0, 0, 3, 1, 1107], [4, 0, 0, -1, 1021], [4, 0, -1, 1, 833],
+];
+
+/**
+ * Fundamental arguments of the lunar theory in degrees.
+ */
+function lunarArguments(T: number) {
+    return {
+        Lp: 218.3164477 + 481267.88123421 * T - 0.0015786 * T * T + T ** 3 / 538841 - T ** 4 / 65194000,
+        D: 297.8501921 + 445267.1114034 * T - 0.0018819 * T * T + T ** 3 / 545868 - T ** 4 / 113065000,
+        M: 357.5291092 + 35999.0502909 * T - 0.0001536 * T * T + T ** 3 / 24490000,
+        Mp: 134.9633964 + 477198.8675055 * T + 0.0087414 * T * T + T ** 3 / 69699 - T ** 4 / 14712000,
+        F: 93.272095 + 483202.0175233 * T - 0.0036539 * T * T - T ** 3 / 3526000 + T ** 4 / 863310000,
+    };
+}
+
+/**
+ * Apparent geocentric ecliptic longitude, latitude and distance (km) of the Moon.
+ */
+function moonApparent(T: number): { longitude: number; latitude: number; distance: number } {
+    const {Lp, D, M, Mp, F} = lunarArguments(T);
+    const E = 1 - 0.002516 * T - 0.0000074 * T * T;
+    const A1 = (119.75 + 131.849 * T) * DEG;
+    const A2 = (53.09 + 479264.29 * T) * DEG;
+    const A3 = (313.45 + 481266.484 * T) * DEG;
+
+    // Terms involving the Sun's mean anomaly are scaled by the decreasing eccentricity of Earth's orbit
+    const eccentricityFactor = (m: number) => Math.abs(m) === 1 ? E : Math.abs(m) === 2 ? E * E : 1;
+    const argument = (d: number, m: number, mp: number, f: number) => (d * D + m * M + mp * Mp + f * F) * DEG;
+
+    let sumL = 0;
+    for (const [d, m, mp, f, coefficient] of MOON_LONGITUDE_TERMS) {
+        sumL += coefficient * eccentricityFactor(m) * Math.sin(argument(d, m, mp, f));
+    }
+    let sumR = 0;
+    for (const [d, m, mp, f, coefficient] of MOON_DISTANCE_TERMS) {
+        sumR += coefficient * eccentricityFactor(m) * Math.cos(argument(d, m, mp, f));
+    }
+    let sumB = 0;
+    for (const [d, m, mp, f, coefficient] of MOON_LATITUDE_TERMS) {
+        sumB += coefficient * eccentricityFactor(m) * Math.sin(argument(d, m, mp, f));
+    }
+
+    // Additive terms for the action of Venus, Jupiter and the flattening of Earth
+    sumL += 3958 * Math.sin(A1) + 1962 * Math.sin((Lp - F) * DEG) + 318 * Math.sin(A2);
+    sumB += -2235 * Math.sin(Lp * DEG) + 382 * Math.sin(A3) + 175 * Math.sin(A1 - F * DEG)
+        + 175 * Math.sin(A1 + F * DEG) + 127 * Math.sin((Lp - Mp) * DEG) - 115 * Math.sin((Lp + Mp) * DEG);
+
+    return {
+        longitude: normalizeDegrees(Lp + sumL / 1e6 + nutationInLongitude(T)),
+        latitude: sumB / 1e6,
+        distance: 385000.56 + sumR / 1000,
+    };
+}
+
+/**
+ * Geocentric elements of the Moon for a moment.
+ * The elements describe a circular orbit in the mean lunar plane that passes through
+ * the Moon's apparent position, so the visualization reproduces the full lunar theory
+ * (evection, variation) instead of the mean motion only.
+ */
+function moonGeocentricElements(T: number): PlanetData {
+    const moon = moonApparent(T);
+    const node = normalizeDegrees(125.04452 - 1934.136261 * T + 0.0020708 * T * T + T ** 3 / 450000);
+    return {
+        a: moon.distance,
+        e: 0,
+        i: MOON_INCLINATION,
+        om: node,
+        w: 0,
+        M0: normalizeDegrees(moon.longitude - node),
+        T: MOON_SIDEREAL_PERIOD,
+    };
+}
+
+/**
+ * Mean longitude of the ascending lunar node (Meeus, chapter 47), in degrees.
+ */
+function meanLunarNode(T: number): number {
+    return normalizeDegrees(125.0445479 - 1934.1362891 * T + 0.0020754 * T * T + T ** 3 / 467441 - T ** 4 / 60616000);
+}
+
+/**
+ * Longitude of the true ascending lunar node: the mean node with its largest periodic terms.
+ */
+function trueLunarNode(T: number): number {
+    const {D, M, Mp, F} = lunarArguments(T);
+    return normalizeDegrees(meanLunarNode(T)
+        - 1.4979 * Math.sin(2 * (D - F) * DEG) - 0.15 * Math.sin(M * DEG)
+        - 0.1226 * Math.sin(2 * D * DEG) + 0.1176 * Math.sin(2 * F * DEG)
+        - 0.0801 * Math.sin(2 * (Mp - F) * DEG));
+}
+
+/**
+ * Longitude of Black Moon Lilith, the mean lunar apogee (opposite Meeus' mean lunar perigee).
+ */
+function meanLunarApogee(T: number): number {
+    return normalizeDegrees(83.3532465 + 4069.0137287 * T - 0.01032 * T * T - T ** 3 / 80053 + T ** 4 / 18999000 + 180);
+}
+
+// Calculated points by registry ID, returning mean longitudes of date in degrees
+const calculatedPoints: { [pointId: string]: (T: number) => number } = {
+    meanNode: meanLunarNode,
+    trueNode: trueLunarNode,
+    lilith: meanLunarApogee,
+};
+
+/**
+ * Returns true when the local ephemeris can compute positions for the given Horizons ID or calculated point ID.
+ */
+export function isSupportedBody(planetId: string): boolean {
+    return planetId === '10' || planetId === '301' || planetId in meanElements || planetId in calculatedPoints;
+}
+
+/**
+ * Computes the apparent geocentric ecliptic longitude of a body.
+ *
+ * @param planetId - JPL Horizons body ID or calculated point ID
+ * @param date - Moment of observation (UTC)
+ * @returns Ecliptic longitude of date in degrees (0-360)
+ * @throws Error if the body is not supported by the local ephemeris
+ */
+export function getEclipticLongitude(planetId: string, date: Date): number {
+    const T = toJulianCenturiesTT(date);
+    if (planetId === '10') return sunApparent(T).longitude;
+    if (planetId === '301') return moonApparent(T).longitude;
+    if (planetId in calculatedPoints) return normalizeDegrees(calculatedPoints[planetId](T) + nutationInLongitude(T));
+    if (planetId in meanElements && planetId !== '399') return planetApparent(planetId, T).longitude;
+    throw new Error(`Unsupported body for local ephemeris: ${planetId}`);
+}
+
+/**
+ * Generates UTC midnight timestamps for each calendar day between two dates (inclusive).
+ * Calendar days follow the same local-date convention as formatDateForHorizons in api.ts.
+ */
+function getDailyTimestamps(startDate: string, endDate: string): Date[] {
+    const startDateObj = new Date(startDate);
+    const endDateObj = new Date(endDate);
+    if (isNaN(startDateObj.getTime()) || isNaN(endDateObj.getTime())) {
+        console.error(`[Ephemeris] Invalid dates: startDate=${startDate}, endDate=${endDate}`);
+        return [];
+    }
+
+    const first = Date.UTC(startDateObj.getFullYear(), startDateObj.getMonth(), startDateObj.getDate());
+    const last = Date.UTC(endDateObj.getFullYear(), endDateObj.getMonth(), endDateObj.getDate());
+    const result: Date[] = [];
+    for (let time = Math.min(first, last); time <= Math.max(first, last); time += 86400000) {
+        result.push(new Date(time));
+    }
+    return result;
+}
+
+/**
+ * Calculates a natal chart locally, mirroring fetchNatalChart in api.ts.
+ * Bodies the local ephemeris does not cover (Chiron, asteroids) are left out of the chart.
+ *
+ * @param birthDate - Local birth date and time (YYYY-MM-DDTHH:mm) at the birth location
+ * @param latitude - Geographic latitude in degrees
+ * @param longitude - Geographic longitude in degrees
+ * @param bodies - Optional subset of planet names to calculate
+ * @returns Array of natal chart entries
+ */
+export function calculateNatalChart(
+    birthDate: string,
+    latitude: number,
+    longitude: number,
+    bodies?: string[]
+): NatalChartEntry[] {
+    const utcDate = convertToUTC(birthDate, latitude, longitude);
+
+    const positions: NatalChartEntry[] = [];
+    for (const body of getNatalBodies()) {
+        const planetName = body.name;
+        if (bodies && !bodies.includes(planetName)) continue;
+        if (!isSupportedBody(body.id)) {
+            console.warn(`[Ephemeris] ${planetName} is not available from the local ephemeris, skipping`);
+            continue;
+        }
+        const eclipticLongitude = getEclipticLongitude(body.id, utcDate);
+        const zodiac = getZodiacSign(eclipticLongitude, utcDate);
+        positions.push({
+            name: planetName,
+            longitude: eclipticLongitude,
+            sign: zodiac.sign,
+            degreeInSign: zodiac.degree,
+            zodiac: getZodiacSetting(),
+            status: 'ok',
+        });
+    }
+    return positions;
+}
+
+/**
+ * Calculates daily planet positions locally, mirroring fetchPlanetPositions in api.ts.
+ *
+ * @param planetId - JPL Horizons planet ID or calculated point ID
+ * @param startDate - Start date as ISO string
+ * @param endDate - End date as ISO string
+ * @returns Array of positions with dates
+ */
+export function calculatePlanetPositions(planetId: string, startDate: string, endDate: string): {
+    date: string;
+    longitude: number
+}[] {
+    if (!isSupportedBody(planetId) || planetId === '399') {
+        console.error(`[Ephemeris] Unsupported planet ID for positions: ${planetId}`);
+        return [];
+    }
+
+    return getDailyTimestamps(startDate, endDate).map((date) => ({
+        date: date.toISOString().split('T')[0],
+        longitude: getEclipticLongitude(planetId, date),
+    }));
+}
+
+/**
+ * Calculates planet positions several times per day locally, mirroring fetchPlanetPositionSamples in api.ts.
+ *
+ * @param planetId - JPL Horizons planet ID or calculated point ID
+ * @param startDate - Start date as ISO string
+ * @param endDate - End date as ISO string (samples cover the whole last day)
+ * @param samplesPerDay - Number of evenly spaced samples per day
+ * @returns Array of positions with UTC sample times in ISO format
+ */
+export function calculatePlanetPositionSamples(
+    planetId: string,
+    startDate: string,
+    endDate: string,
+    samplesPerDay: number
+): { date: string; longitude: number }[] {
+    if (!isSupportedBody(planetId) || planetId === '399') {
+        console.error(`[Ephemeris] Unsupported planet ID for positions: ${planetId}`);
+        return [];
+    }
+
+    const days = getDailyTimestamps(startDate, endDate);
+    if (days.length === 0) return [];
+
+    const stepMs = 86400000 / samplesPerDay;
+    const first = days[0].getTime();
+    const last = days[days.length - 1].getTime() + 86400000;
+    const results: { date: string; longitude: number }[] = [];
+    for (let time = first; time <= last; time += stepMs) {
+        const date = new Date(time);
+        results.push({date: date.toISOString(), longitude: getEclipticLongitude(planetId, date)});
+    }
+    return results;
+}
+
+/**
+ * Computes heliocentric osculating-style orbital elements from the mean elements.
+ *
+ * @param planetId - JPL Horizons planet ID
+ * @param date - Epoch of the elements
+ * @returns Orbital elements in the same units as returned by Horizons (km, degrees, days)
+ */
+export function getOrbitalElements(planetId: string, date: Date): PlanetData | null {
+    if (planetId === '301') {
+        return moonGeocentricElements(toJulianCenturiesTT(date));
+    }
+
+    const elements = meanElements[planetId];
+    if (!elements) return null;
+
+    const el = elementsAt(elements, toJulianCenturiesTT(date));
+    return {
+        a: el.a * AU_KM,
+        e: el.e,
+        i: el.i,
+        om: normalizeDegrees(el.node),
+        w: normalizeDegrees(el.peri - el.node),
+        M0: normalizeDegrees(el.L - el.peri),
+        T: 365.256898326 * Math.pow(el.a, 1.5),
+    };
+}
+
+/**
+ * Calculates daily orbital elements locally, mirroring fetchPlanetData in api.ts.
+ *
+ * @param planetId - JPL Horizons planet ID
+ * @param startDate - Start date as ISO string
+ * @param endDate - End date as ISO string
+ * @returns Array of planet data with dates
+ */
+export function calculatePlanetData(
+    planetId: string,
+    startDate: string,
+    endDate: string
+): { date: string; data: PlanetData }[] {
+    if (!meanElements[planetId] && planetId !== '301') {
+        console.error(`[Ephemeris] Unsupported planet ID for orbital elements: ${planetId}`);
+        return [];
+    }
+
+    const results: { date: string; data: PlanetData }[] = [];
+    for (const date of getDailyTimestamps(startDate, endDate)) {
+        const data = getOrbitalElements(planetId, date);
+        if (data) {
+            results.push({date: date.toISOString().split('T')[0], data});
+        }
+    }
+    return results;
+}
+
+/**
+ * Calculates orbital elements several times per day locally, mirroring fetchPlanetDataSamples in api.ts.
+ * Used for fast bodies such as the Moon, where daily samples are too coarse for smooth animation.
+ *
+ * @param planetId - JPL Horizons planet ID
+ * @param startDate - Start date as ISO string
+ * @param endDate - End date as ISO string
+ * @param samplesPerDay - Number of evenly spaced samples per day
+ * @returns Array of planet data with UTC sample times in ISO format
+ */
+export function calculatePlanetDataSamples(
+    planetId: string,
+    startDate: string,
+    endDate: string,
+    samplesPerDay: number
+): { time: string; data: PlanetData }[] {
+    if (!meanElements[planetId] && planetId !== '301') {
+        console.error(`[Ephemeris] Unsupported planet ID for orbital elements: ${planetId}`);
+        return [];
+    }
+
+    const days = getDailyTimestamps(startDate, endDate);
+    if (days.length === 0) return [];
+
+    const stepMs = 86400000 / samplesPerDay;
+    const first = days[0].getTime();
+    const last = days[days.length - 1].getTime() + 86400000;
+    const results: { time: string; data: PlanetData }[] = [];
+    for (let time = first; time <= last; time += stepMs) {
+        const date = new Date(time);
+        const data = getOrbitalElements(planetId, date);
+        if (data) {
+            results.push({time: date.toISOString(), data});
+        }
+    }
+    return results;
+}
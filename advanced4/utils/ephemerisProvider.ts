@@ -0,0 +1,300 @@
+/**
+ * Ephemeris provider module for swapping the source of astronomical data.
+ *
+ * Defines a common interface for everything the app needs from an ephemeris
+ * (daily positions, daily and sub-daily orbital elements, natal snapshot) and ships several backends:
+ * - Horizons through the Cloudflare Workers proxy (default)
+ * - Horizons requested directly
+ * - The local analytical ephemeris (offline)
+ * - Recorded Horizons responses replayed from fixtures/horizons.json (recorded with scripts/recordFixtures.ts)
+ *
+ * The active provider is chosen per build with the EXPO_PUBLIC_EPHEMERIS_SOURCE
+ * environment variable and can be replaced at runtime with setEphemerisProvider.
+ */
+
+import {NatalChartEntry, PlanetData} from '../types';
+import recordedResponses from '../fixtures/horizons.json';
+import {
+    fetchDirect,
+    fetchNatalChart,
+    fetchPlanetData,
+    fetchPlanetDataSamples,
+    fetchPlanetPositions,
+    fetchPlanetPositionSamples,
+    fetchThroughProxy,
+    HorizonsTransport,
+} from './api';
+import {
+    calculateNatalChart,
+    calculatePlanetData,
+    calculatePlanetDataSamples,
+    calculatePlanetPositions,
+    calculatePlanetPositionSamples,
+} from './ephemeris';
+import {bodyRegistry, isCalculatedPoint} from './bodies';
+
+/**
+ * Common interface implemented by every ephemeris backend.
+ * The range methods reject when the data of a body cannot be obtained; the natal snapshot
+ * marks failed bodies with status 'failed' instead.
+ */
+export interface EphemerisProvider {
+    readonly name: string;
+
+    /** Daily apparent ecliptic longitudes of a body over a date range */
+    getPlanetPositions(planetId: string, startDate: string, endDate: string): Promise<{
+        date: string;
+        longitude: number
+    }[]>;
+
+    /** Apparent ecliptic longitudes sampled several times per day (UTC times), for fast bodies such as the Moon */
+    getPlanetPositionSamples(planetId: string, startDate: string, endDate: string, samplesPerDay: number): Promise<{
+        date: string;
+        longitude: number
+    }[]>;
+
+    /** Daily heliocentric orbital elements of a body over a date range */
+    getOrbitalElements(planetId: string, startDate: string, endDate: string): Promise<{
+        date: string;
+        data: PlanetData
+    }[]>;
+
+    /** Orbital elements sampled several times per day, for fast bodies such as the Moon */
+    getOrbitalElementSamples(planetId: string, startDate: string, endDate: string, samplesPerDay: number): Promise<{
+        time: string;
+        data: PlanetData
+    }[]>;
+
+    /** Planet positions for a birth moment and location, optionally limited to some bodies */
+    getNatalSnapshot(birthDate: string, latitude: number, longitude: number, bodies?: string[]): Promise<NatalChartEntry[]>;
+}
+
+/**
+ * Available ephemeris sources that can be selected per build
+ */
+export type EphemerisSource = 'proxy' | 'horizons' | 'local' | 'fixture';
+
+// Sources accepted in EXPO_PUBLIC_EPHEMERIS_SOURCE
+const EPHEMERIS_SOURCES: EphemerisSource[] = ['proxy', 'horizons', 'local', 'fixture'];
+
+/**
+ * Storage for recorded Horizons responses keyed by request URL
+ */
+export interface FixtureStore {
+    get(url: string): Promise<string | null>;
+    set(url: string, response: string): Promise<void>;
+}
+
+/**
+ * Fixture store that keeps recorded responses in memory.
+ * Filled from the committed fixture file by default, or from any JSON map in Node scripts and tests.
+ */
+export class MemoryFixtureStore implements FixtureStore {
+    private readonly responses: { [url: string]: string };
+
+    constructor(responses: { [url: string]: string } = {}) {
+        this.responses = {...responses};
+    }
+
+    async get(url: string): Promise<string | null> {
+        return this.responses[url] ?? null;
+    }
+
+    async set(url: string, response: string): Promise<void> {
+        this.responses[url] = response;
+    }
+
+    /**
+     * Returns all recorded responses, e.g. to write them to a fixture file
+     */
+    toJSON(): { [url: string]: string } {
+        return {...this.responses};
+    }
+}
+
+/**
+ * Creates a fixture store with the responses committed in fixtures/horizons.json
+ */
+export function createBundledFixtureStore(): MemoryFixtureStore {
+    return new MemoryFixtureStore(recordedResponses as { [url: string]: string });
+}
+
+/**
+ * Creates a transport that replays recorded responses and fails for unknown requests
+ * @param store - Fixture store with recorded responses
+ */
+export function createFixtureTransport(store: FixtureStore): HorizonsTransport {
+    return async (targetUrl: string) => {
+        const response = await store.get(targetUrl);
+        if (response === null) {
+            throw new Error(`No recorded fixture for request: ${targetUrl} (record it with npm run record-fixtures)`);
+        }
+        return response;
+    };
+}
+
+/**
+ * Creates a transport that forwards requests and records every successful response
+ * @param transport - Transport performing the real request
+ * @param store - Fixture store receiving the recorded responses
+ */
+export function createRecordingTransport(transport: HorizonsTransport, store: FixtureStore): HorizonsTransport {
+    return async (targetUrl: string) => {
+        const response = await transport(targetUrl);
+        await store.set(targetUrl, response);
+        return response;
+    };
+}
+
+/**
+ * Provider backed by JPL Horizons through an arbitrary transport.
+ * Calculated points that Horizons does not provide (lunar nodes, Lilith) come from the local ephemeris.
+ */
+export class HorizonsEphemerisProvider implements EphemerisProvider {
+    readonly name: string;
+    private readonly transport: HorizonsTransport;
+
+    constructor(transport: HorizonsTransport, name: string = 'horizons') {
+        this.transport = transport;
+        this.name = name;
+    }
+
+    async getPlanetPositions(planetId: string, startDate: string, endDate: string) {
+        if (isCalculatedPoint(planetId)) {
+            return calculatePlanetPositions(planetId, startDate, endDate);
+        }
+        return fetchPlanetPositions(planetId, startDate, endDate, this.transport);
+    }
+
+    async getPlanetPositionSamples(planetId: string, startDate: string, endDate: string, samplesPerDay: number) {
+        if (isCalculatedPoint(planetId)) {
+            return calculatePlanetPositionSamples(planetId, startDate, endDate, samplesPerDay);
+        }
+        return fetchPlanetPositionSamples(planetId, startDate, endDate, samplesPerDay, this.transport);
+    }
+
+    getOrbitalElements(planetId: string, startDate: string, endDate: string) {
+        return fetchPlanetData(planetId, startDate, endDate, this.transport);
+    }
+
+    getOrbitalElementSamples(planetId: string, startDate: string, endDate: string, samplesPerDay: number) {
+        return fetchPlanetDataSamples(planetId, startDate, endDate, samplesPerDay, this.transport);
+    }
+
+    async getNatalSnapshot(birthDate: string, latitude: number, longitude: number, bodies?: string[]) {
+        const fetched = await fetchNatalChart(birthDate, latitude, longitude, this.transport, bodies);
+        const pointNames = bodyRegistry
+            .filter(body => body.natal && isCalculatedPoint(body.id) && (!bodies || bodies.includes(body.name)))
+            .map(body => body.name);
+        const points = pointNames.length > 0 ? calculateNatalChart(birthDate, latitude, longitude, pointNames) : [];
+
+        // Keep the registry order so points follow the bodies
+        const order = bodyRegistry.map(body => body.name);
+        return [...fetched, ...points].sort((a, b) => order.indexOf(a.name) - order.indexOf(b.name));
+    }
+}
+
+/**
+ * Horizons requested through the Cloudflare Workers proxy
+ */
+export class HorizonsProxyProvider extends HorizonsEphemerisProvider {
+    constructor() {
+        super(fetchThroughProxy, 'proxy');
+    }
+}
+
+/**
+ * Horizons requested directly, without the proxy
+ */
+export class HorizonsDirectProvider extends HorizonsEphemerisProvider {
+    constructor() {
+        super(fetchDirect, 'horizons');
+    }
+}
+
+/**
+ * Horizons responses replayed from a fixture store (the committed fixture file by default), no network access
+ */
+export class FixtureEphemerisProvider extends HorizonsEphemerisProvider {
+    constructor(store: FixtureStore = createBundledFixtureStore()) {
+        super(createFixtureTransport(store), 'fixture');
+    }
+}
+
+/**
+ * Offline provider backed by the local analytical ephemeris
+ */
+export class LocalEphemerisProvider implements EphemerisProvider {
+    readonly name = 'local';
+
+    async getPlanetPositions(planetId: string, startDate: string, endDate: string) {
+        return calculatePlanetPositions(planetId, startDate, endDate);
+    }
+
+    async getPlanetPositionSamples(planetId: string, startDate: string, endDate: string, samplesPerDay: number) {
+        return calculatePlanetPositionSamples(planetId, startDate, endDate, samplesPerDay);
+    }
+
+    async getOrbitalElements(planetId: string, startDate: string, endDate: string) {
+        return calculatePlanetData(planetId, startDate, endDate);
+    }
+
+    async getOrbitalElementSamples(planetId: string, startDate: string, endDate: string, samplesPerDay: number) {
+        return calculatePlanetDataSamples(planetId, startDate, endDate, samplesPerDay);
+    }
+
+    async getNatalSnapshot(birthDate: string, latitude: number, longitude: number, bodies?: string[]) {
+        return calculateNatalChart(birthDate, latitude, longitude, bodies);
+    }
+}
+
+/**
+ * Creates a provider for the given source
+ * @param source - Ephemeris source identifier
+ */
+export function createEphemerisProvider(source: EphemerisSource): EphemerisProvider {
+    switch (source) {
+        case 'horizons':
+            return new HorizonsDirectProvider();
+        case 'local':
+            return new LocalEphemerisProvider();
+        case 'fixture':
+            return new FixtureEphemerisProvider();
+        case 'proxy':
+            return new HorizonsProxyProvider();
+    }
+}
+
+/**
+ * Checks whether a configured value names a known ephemeris source
+ */
+export function isEphemerisSource(value: string): value is EphemerisSource {
+    return (EPHEMERIS_SOURCES as string[]).includes(value);
+}
+
+// Provider currently used by the app, created lazily from the build configuration
+let activeProvider: EphemerisProvider | null = null;
+
+/**
+ * Returns the active ephemeris provider
+ */
+export function getEphemerisProvider(): EphemerisProvider {
+    if (!activeProvider) {
+        const source = process.env.EXPO_PUBLIC_EPHEMERIS_SOURCE || 'proxy';
+        if (!isEphemerisSource(source)) {
+            throw new Error(
+                `Unknown EXPO_PUBLIC_EPHEMERIS_SOURCE "${source}", expected one of: ${EPHEMERIS_SOURCES.join(', ')}`
+            );
+        }
+        activeProvider = createEphemerisProvider(source);
+        console.log(`[EphemerisProvider] Using ${activeProvider.name} ephemeris provider`);
+    }
+    return activeProvider;
+}
+
+/**
+ * Replaces the active ephemeris provider (e.g. for tests or developer settings)
+ */
+export function setEphemerisProvider(provider: EphemerisProvider): void {
+    activeProvider = provider;
+}
@@ -3,16 +3,20 @@
  * Provides helper functions for fetching, creating, and validating events.
  *
  * Functions:
- * - Loading and saving events from/to storage
- * - Loading natal chart data
+ * - Loading and saving events from/to storage (of the active profile)
+ * - Loading natal chart data and angles (of the active profile)
  * - Date formatting for API requests
  * - Date validation for events
- * - Creating transit events
+ * - Creating transit, station and sky (mundane) events
+ * - Merging recalculated events into the saved list
  * - Checking for astrological aspects
  */
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Event, NatalChartEntry } from '../types';
+import { AspectType, Event, HouseCusps, MundaneEvent, NatalChartEntry, StationEvent, TransitDay, TransitEvent, TransitPass } from '../types';
+import { getAspectDefinition } from './aspects';
+import { isCoreBody } from './bodies';
+import { getEclipseName, getLunarPhaseName } from './lunar';
+import { getProfileItem, setProfileItem } from './profiles';
 
 /**
  * Formats a date to the format required by the JPL Horizons API
@@ -30,6 +34,9 @@ export function formatDateForHorizons(date: Date | string): string {
     return `${year}-${month}-${day}`;
 }
 
+// Longest date range scanned at once (the Moon is sampled hourly)
+const MAX_RANGE_DAYS = 731;
+
 /**
  * Validates date range for transit event fetching
  * @returns Error message if invalid, null if valid
@@ -54,6 +61,10 @@ export function validateDateRange(startDate: Date, endDate: Date): string | null
         return 'End date must be after the start date.';
     }
 
+    if (endDate.getTime() - startDate.getTime() > MAX_RANGE_DAYS * 86400000) {
+        return 'The date range cannot be longer than two years.';
+    }
+
     return null;
 }
 
@@ -63,7 +74,7 @@ export function validateDateRange(startDate: Date, endDate: Date): string | null
  */
 export async function loadEventsFromStorage(testEvent?: Event): Promise<Event[]> {
     try {
-        const savedEvents = await AsyncStorage.getItem('events');
+        const savedEvents = await getProfileItem('events');
         console.log('STORAGE: Loading events from storage - status:', savedEvents ? 'Found' : 'Not found');
 
         let initialEvents: Event[] = savedEvents ? JSON.parse(savedEvents) : [];
@@ -88,7 +99,7 @@ export async function loadEventsFromStorage(testEvent?: Event): Promise<Event[]>
  */
 export async function saveEventsToStorage(events: Event[]): Promise<boolean> {
     try {
-        await AsyncStorage.setItem('events', JSON.stringify(events));
+        await setProfileItem('events', JSON.stringify(events));
         console.log('STORAGE: Saved events to storage, count:', events.length);
         return true;
     } catch (error) {
@@ -97,12 +108,33 @@ export async function saveEventsToStorage(events: Event[]): Promise<boolean> {
     }
 }
 
+/**
+ * Returns the bodies of a natal chart that could not be computed.
+ * Charts saved before per-planet status existed mark failures with the 'Unknown' sign.
+ */
+export function getFailedNatalBodies(chart: NatalChartEntry[]): string[] {
+    return chart
+        .filter(entry => entry.status === 'failed' || entry.sign === 'Unknown')
+        .map(entry => entry.name);
+}
+
+/**
+ * Checks that a natal chart is a non-empty array whose core bodies were all computed.
+ * Failed minor bodies (e.g. an asteroid Horizons could not provide) do not make a chart incomplete.
+ */
+export function isNatalChartComplete(chart: unknown): chart is NatalChartEntry[] {
+    return Array.isArray(chart) && chart.length > 0 && !getFailedNatalBodies(chart).some(isCoreBody);
+}
+
 /**
  * Loads natal chart data from AsyncStorage
+ * Returns null when a core body failed so the chart is never used for transit calculations;
+ * failed minor bodies are left out of the returned chart
+ * @param profileId - Profile whose chart is loaded, the active profile when missing
  */
-export async function loadNatalChart(): Promise<NatalChartEntry[] | null> {
+export async function loadNatalChart(profileId?: string): Promise<NatalChartEntry[] | null> {
     try {
-        const natalChartStr = await AsyncStorage.getItem('natalChart');
+        const natalChartStr = await getProfileItem('natalChart', profileId);
         console.log('NATAL CHART: Loading from storage - status:',
             natalChartStr ? `Found (${JSON.parse(natalChartStr).length} planets)` : 'Not found or empty');
 
@@ -114,7 +146,16 @@ export async function loadNatalChart(): Promise<NatalChartEntry[] | null> {
             return null;
         }
 
-        return chart;
+        if (!isNatalChartComplete(chart)) {
+            console.warn('NATAL CHART: Chart is incomplete, failed bodies:', getFailedNatalBodies(chart).join(', '));
+            return null;
+        }
+
+        const failedBodies = getFailedNatalBodies(chart);
+        if (failedBodies.length > 0) {
+            console.warn('NATAL CHART: Leaving out failed minor bodies:', failedBodies.join(', '));
+        }
+        return chart.filter(entry => !failedBodies.includes(entry.name));
     } catch (error) {
         console.error('NATAL CHART ERROR: Failed loading from AsyncStorage:', error);
         return null;
@@ -122,11 +163,26 @@ export async function loadNatalChart(): Promise<NatalChartEntry[] | null> {
 }
 
 /**
- * Checks if a natal chart exists in AsyncStorage
+ * Loads the angles and house cusps of the natal chart from AsyncStorage
+ * Returns null when the chart has no houses (e.g. the birth time is unknown)
+ * @param profileId - Profile whose houses are loaded, the active profile when missing
+ */
+export async function loadNatalHouses(profileId?: string): Promise<HouseCusps | null> {
+    try {
+        const housesStr = await getProfileItem('natalHouses', profileId);
+        return housesStr ? JSON.parse(housesStr) : null;
+    } catch (error) {
+        console.error('NATAL CHART ERROR: Failed loading houses from AsyncStorage:', error);
+        return null;
+    }
+}
+
+/**
+ * Checks if a complete natal chart exists in AsyncStorage
  */
 export async function checkNatalChartExists(): Promise<boolean> {
     try {
-        const natalChartStr = await AsyncStorage.getItem('natalChart');
+        const natalChartStr = await getProfileItem('natalChart');
 
         // Improved validation to check for valid data structure
         let isValid = false;
@@ -134,7 +190,7 @@ export async function checkNatalChartExists(): Promise<boolean> {
         if (natalChartStr) {
             try {
                 const chart = JSON.parse(natalChartStr);
-                isValid = Array.isArray(chart) && chart.length > 0;
+                isValid = isNatalChartComplete(chart);
             } catch (parseError) {
                 console.error('NATAL CHART ERROR: Invalid JSON format:', parseError);
                 isValid = false;
@@ -176,21 +232,9 @@ export function checkForAspect(
     return diff <= orb ? diff : null;
 }
 
-/**
- * Type for astrological aspects
- */
-export type AspectType =
-    | 'Conjunction'
-    | 'Opposition'
-    | 'Trine'
-    | 'Square'
-    | 'Sextile'
-    | 'SemiSquare'
-    | 'Quincunx'
-    | 'SemiSextile';
-
 /**
  * Creates a transit event object
+ * Event dates are calendar days covering all passes; the passes, when available, keep the exact moments
  */
 export function createTransitEvent(
     natalPlanet: string,
@@ -199,8 +243,12 @@ export function createTransitEvent(
     startDate: string,
     endDate: string,
     peakDate: string,
-    influence: 'positive' | 'negative'
+    influence: 'positive' | 'negative',
+    transitSign?: string,
+    passes?: TransitPass[],
+    days?: TransitDay[]
 ): Event {
+    const exactPass = passes?.find(pass => pass.perfects) ?? passes?.[0];
     return {
         name: `${aspectType} between ${transitPlanet} and ${natalPlanet}`,
         startDate,
@@ -215,15 +263,203 @@ export function createTransitEvent(
             aspectType,
             date: peakDate,
             influence,
+            transitSign,
+            enterOrbDate: passes?.[0]?.enterOrbDate,
+            exactDate: exactPass?.exactDate,
+            leaveOrbDate: passes?.[passes.length - 1]?.leaveOrbDate,
+            perfects: exactPass?.perfects,
+            passes,
+            days,
         },
     };
 }
 
 /**
- * Determines if an aspect type has a positive or negative influence
+ * Creates a station event object (e.g. "Mercury stations retrograde")
+ * Stations retrograde are considered negative, stations direct positive
+ */
+export function createStationEvent(station: StationEvent): Event {
+    // Event dates are calendar days (keys of the planet data); the exact moment stays in stationEvent
+    const day = station.date.split('T')[0];
+    return {
+        name: `${station.planet} stations ${station.direction}`,
+        startDate: day,
+        endDate: day,
+        peakDate: day,
+        planet: station.planet,
+        influence: station.direction === 'retrograde' ? 'negative' : 'positive',
+        isStationEvent: true,
+        stationEvent: station,
+    };
+}
+
+/**
+ * Returns the display name of a sky event (e.g. "Jupiter Trine Saturn", "Mars enters Leo", "Full Moon in Libra")
  */
-export function getAspectInfluence(aspectType: AspectType): 'positive' | 'negative' {
-    return ['Conjunction', 'Opposition', 'Square', 'SemiSquare', 'Quincunx'].includes(aspectType)
-        ? 'negative'
-        : 'positive';
-}
\ No newline at end of file
+function getMundaneEventName(mundaneEvent: MundaneEvent): string {
+    const [planet, otherPlanet] = mundaneEvent.planets;
+    switch (mundaneEvent.kind) {
+        case 'aspect': {
+            const aspectName = mundaneEvent.aspectType
+                ? getAspectDefinition(mundaneEvent.aspectType)?.name ?? mundaneEvent.aspectType
+                : 'Aspect';
+            return `${planet} ${aspectName} ${otherPlanet}`;
+        }
+        case 'ingress':
+            return `${planet} enters ${mundaneEvent.sign}${mundaneEvent.retrograde ? ' ℞' : ''}`;
+        case 'lunation':
+            return `${getLunarPhaseName(mundaneEvent.phase ?? 'new')} in ${mundaneEvent.sign}`;
+        case 'station':
+            return `${planet} stations ${mundaneEvent.direction}`;
+        case 'voidOfCourse':
+            return `Moon void of course in ${mundaneEvent.sign}`;
+        case 'eclipse':
+            return `${mundaneEvent.eclipse ? getEclipseName(mundaneEvent.eclipse) : 'Eclipse'} in ${mundaneEvent.sign}`;
+    }
+}
+
+/**
+ * Creates a sky (mundane) event object, independent of any natal chart
+ * The event lasts the day of the exact moment (or the days up to its end), the moments stay in mundaneEvent
+ */
+export function createMundaneEvent(mundaneEvent: MundaneEvent, influence: 'positive' | 'negative'): Event {
+    const day = mundaneEvent.date.split('T')[0];
+    return {
+        name: getMundaneEventName(mundaneEvent),
+        startDate: day,
+        endDate: mundaneEvent.endDate?.split('T')[0] ?? day,
+        peakDate: day,
+        planet: mundaneEvent.planets[0],
+        influence,
+        isMundaneEvent: true,
+        mundaneEvent,
+    };
+}
+
+/**
+ * Day of the exact hit of a transit: its first perfecting pass, or the closest approach when it never perfects
+ */
+function getExactHitDay(event: Event, transitEvent: TransitEvent): string {
+    const pass = transitEvent.passes?.find(candidate => candidate.perfects) ?? transitEvent.passes?.[0];
+    return (pass?.exactDate ?? transitEvent.exactDate ?? event.peakDate).split('T')[0];
+}
+
+/**
+ * Returns the key that identifies a calculated event across calculation runs
+ * (transits by natal point, transit planet, aspect and exact hit; stations and sky events by body, kind and day).
+ * Manual events have no key.
+ */
+export function getEventKey(event: Event): string | null {
+    if (event.isTransitEvent && event.transitEvent) {
+        const { natalPlanet, transitPlanet, aspectType } = event.transitEvent;
+        return `transit|${natalPlanet}|${transitPlanet}|${aspectType}|${getExactHitDay(event, event.transitEvent)}`;
+    }
+    // Sky stations are also station events, so sky events are checked first
+    if (event.isMundaneEvent && event.mundaneEvent) {
+        const { kind, planets, phase, date } = event.mundaneEvent;
+        return `sky|${kind}|${planets.join(',')}|${phase ?? ''}|${date.split('T')[0]}`;
+    }
+    if (event.isStationEvent && event.stationEvent) {
+        const { planet, direction, date } = event.stationEvent;
+        return `station|${planet}|${direction}|${date.split('T')[0]}`;
+    }
+    return null;
+}
+
+/**
+ * Whether two calculated events are the same event of different runs.
+ * A transit window cut by the edge of the earlier range has no exact hit yet, so transits of the
+ * same natal point, transit planet and aspect also match when their windows overlap.
+ */
+function isSameCalculatedEvent(existing: Event, calculated: Event): boolean {
+    const existingKey = getEventKey(existing);
+    if (!existingKey) return false;
+    if (existingKey === getEventKey(calculated)) return true;
+
+    const a = existing.transitEvent;
+    const b = calculated.transitEvent;
+    return !!a && !!b && existing.isTransitEvent === true && calculated.isTransitEvent === true
+        && a.natalPlanet === b.natalPlanet && a.transitPlanet === b.transitPlanet && a.aspectType === b.aspectType
+        && existing.startDate <= calculated.endDate && calculated.startDate <= existing.endDate;
+}
+
+/**
+ * Combines the runs of one transit into a single event: the widest window, the union of the
+ * passes (by exact moment, renumbered in time order) and the union of the days.
+ * Later events win for passes and days found in several runs.
+ *
+ * @param runs - Events of the same transit, the newest calculation last
+ * @returns The merged event
+ */
+function mergeTransitRuns(runs: Event[]): Event {
+    const latest = runs[runs.length - 1];
+
+    const passesByDate = new Map<string, TransitPass>();
+    const daysByDate = new Map<string, TransitDay>();
+    for (const run of runs) {
+        run.transitEvent?.passes?.forEach(pass => passesByDate.set(pass.exactDate, pass));
+        run.transitEvent?.days?.forEach(day => daysByDate.set(day.date, day));
+    }
+    const passes = [...passesByDate.values()]
+        .sort((a, b) => a.exactDate.localeCompare(b.exactDate))
+        .map((pass, index) => ({ ...pass, number: index + 1 }));
+    const days = [...daysByDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+
+    const exactPass = passes.find(pass => pass.perfects) ?? passes[0];
+    const peakDate = exactPass ? exactPass.exactDate.split('T')[0] : latest.peakDate;
+    return {
+        ...latest,
+        startDate: runs.reduce((min, run) => (run.startDate < min ? run.startDate : min), latest.startDate),
+        endDate: runs.reduce((max, run) => (run.endDate > max ? run.endDate : max), latest.endDate),
+        peakDate,
+        transitEvent: {
+            ...latest.transitEvent!,
+            date: peakDate,
+            includesRetrograde: runs.some(run => run.transitEvent?.includesRetrograde),
+            enterOrbDate: passes[0]?.enterOrbDate,
+            exactDate: exactPass?.exactDate,
+            leaveOrbDate: passes[passes.length - 1]?.leaveOrbDate,
+            perfects: exactPass?.perfects,
+            passes,
+            days,
+        },
+    };
+}
+
+/**
+ * Merges the results of a calculation into a list of events instead of appending copies.
+ * A calculated event replaces the saved events it matches (keeping the position of the first one
+ * and dropping duplicates of earlier runs); matching transits are combined with the saved ones, so a
+ * window cut by the edge of one range is completed by the other. Other calculated events are
+ * appended. Manual events are never touched.
+ *
+ * @param existing - Saved events
+ * @param calculated - Events of the new calculation
+ * @returns Merged events with the number of added and updated events
+ */
+export function mergeCalculatedEvents(
+    existing: Event[],
+    calculated: Event[]
+): { events: Event[]; added: number; updated: number } {
+    let events = [...existing];
+    let added = 0;
+    let updated = 0;
+
+    calculated.forEach((event) => {
+        const matches = events.filter(candidate => isSameCalculatedEvent(candidate, event));
+        if (matches.length === 0) {
+            events.push(event);
+            added++;
+            return;
+        }
+
+        const merged = event.isTransitEvent ? mergeTransitRuns([...matches, event]) : event;
+        updated++;
+
+        const position = events.indexOf(matches[0]);
+        events = events.filter(candidate => !matches.includes(candidate));
+        events.splice(position, 0, merged);
+    });
+
+    return { events, added, updated };
+}
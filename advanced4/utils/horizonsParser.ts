@@ -0,0 +1,329 @@
+/**
+ * Parser module for NASA JPL Horizons API responses.
+ *
+ * Understands both response formats used by the app (format=text and format=json)
+ * and the two ephemeris table types it requests:
+ * - OBSERVER tables with optional solar-presence and lunar-presence flag columns
+ * - ELEMENTS tables with osculating orbital elements per epoch
+ *
+ * Horizons error banners and malformed tables are reported as typed errors
+ * instead of silently producing placeholder values.
+ */
+
+/**
+ * Base class for all errors raised while interpreting Horizons responses
+ */
+export class HorizonsError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'HorizonsError';
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
+
+/**
+ * The response contains no ephemeris data (no $$SOE/$$EOE section, unknown target, empty range)
+ */
+export class HorizonsNoDataError extends HorizonsError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'HorizonsNoDataError';
+    }
+}
+
+/**
+ * The service rejected the request because of request limits
+ */
+export class HorizonsQuotaError extends HorizonsError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'HorizonsQuotaError';
+    }
+}
+
+/**
+ * Horizons reported a problem with the request itself (bad parameters, unknown site, bad date)
+ */
+export class HorizonsRequestError extends HorizonsError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'HorizonsRequestError';
+    }
+}
+
+/**
+ * A data line inside the ephemeris section could not be interpreted
+ */
+export class HorizonsParseError extends HorizonsError {
+    readonly line: string;
+    readonly lineNumber: number;
+
+    constructor(message: string, line: string, lineNumber: number) {
+        super(`${message} (line ${lineNumber}: "${line.trim()}")`);
+        this.name = 'HorizonsParseError';
+        this.line = line;
+        this.lineNumber = lineNumber;
+    }
+}
+
+/**
+ * Describes an error of a Horizons request for logs and failure reports
+ * @param error - Error raised by the transport or the parser
+ * @returns Error class and message for Horizons errors, the error as text otherwise
+ */
+export function describeHorizonsError(error: unknown): string {
+    return error instanceof HorizonsError ? `${error.name}: ${error.message}` : String(error);
+}
+
+/**
+ * Single row of an OBSERVER table with ecliptic longitude and latitude (QUANTITIES='31')
+ */
+export interface ObserverRow {
+    date: Date;                          // Timestamp of the row (UTC)
+    solarPresence: 'daylight' | 'civil' | 'nautical' | 'astronomical' | null; // Solar-presence flag
+    lunarPresence: 'above' | 'rise' | 'transit' | 'set' | null;           // Lunar-presence flag
+    longitude: number;                   // Ecliptic longitude in degrees
+    latitude: number;                    // Ecliptic latitude in degrees
+}
+
+/**
+ * Single epoch of an ELEMENTS table, values as labelled by Horizons
+ */
+export interface ElementsRow {
+    julianDay: number;                   // Epoch as Julian Day (TDB)
+    date: string;                        // Epoch calendar date in YYYY-MM-DD format
+    EC: number;                          // Eccentricity
+    QR: number;                          // Periapsis distance (km)
+    IN: number;                          // Inclination (degrees)
+    OM: number;                          // Longitude of ascending node (degrees)
+    W: number;                           // Argument of periapsis (degrees)
+    Tp?: number;                         // Time of periapsis (Julian Day)
+    N?: number;                          // Mean motion (degrees/second)
+    MA: number;                          // Mean anomaly (degrees)
+    TA?: number;                         // True anomaly (degrees)
+    A: number;                           // Semi-major axis (km)
+    AD?: number;                         // Apoapsis distance (km)
+    PR?: number;                         // Sidereal orbital period (seconds)
+}
+
+const MONTHS: { [key: string]: string } = {
+    'Jan': '01', 'Feb': '02', 'Mar': '03', 'Apr': '04', 'May': '05', 'Jun': '06',
+    'Jul': '07', 'Aug': '08', 'Sep': '09', 'Oct': '10', 'Nov': '11', 'Dec': '12'
+};
+
+const SOLAR_PRESENCE: { [flag: string]: ObserverRow['solarPresence'] } = {
+    '*': 'daylight',
+    'C': 'civil',
+    'N': 'nautical',
+    'A': 'astronomical',
+};
+
+const LUNAR_PRESENCE: { [flag: string]: ObserverRow['lunarPresence'] } = {
+    'm': 'above',
+    'r': 'rise',
+    't': 'transit',
+    's': 'set',
+};
+
+// Known Horizons error banners mapped to the error class they represent
+const ERROR_BANNERS: { pattern: RegExp; create: (message: string) => HorizonsError }[] = [
+    {pattern: /too many (requests|queries)|rate limit|quota|service (is )?(temporarily )?unavailable/i, create: (m) => new HorizonsQuotaError(m)},
+    {pattern: /no ephemeris for target|no matches found|no such record|outside the range|prior to .* not available|after .* not available/i, create: (m) => new HorizonsNoDataError(m)},
+    {pattern: /cannot interpret|cannot use|no site matches|unknown (parameter|command)|invalid|not allowed|bad (date|time)/i, create: (m) => new HorizonsRequestError(m)},
+];
+
+/**
+ * Classifies an error message reported by Horizons
+ */
+function classifyError(message: string): HorizonsError {
+    const banner = ERROR_BANNERS.find(b => b.pattern.test(message));
+    return banner ? banner.create(message.trim()) : new HorizonsRequestError(message.trim());
+}
+
+/**
+ * Extracts the ephemeris text from a raw response and throws on error banners.
+ * Accepts JSON responses ({result, error}) as well as plain text responses.
+ *
+ * @param raw - Raw response body returned by Horizons (or the proxy)
+ * @returns The text of the Horizons result
+ * @throws HorizonsError subclass describing the problem
+ */
+export function unwrapHorizonsResponse(raw: string): string {
+    const trimmed = raw.trim();
+    let text = raw;
+
+    if (trimmed.startsWith('{')) {
+        let json: { result?: string; error?: string; message?: string };
+        try {
+            json = JSON.parse(trimmed);
+        } catch (error) {
+            throw new HorizonsRequestError(`Malformed JSON response: ${(error as Error).message}`);
+        }
+        if (json.error) throw classifyError(json.error);
+        if (typeof json.result !== 'string') {
+            throw classifyError(json.message || 'Response does not contain a result');
+        }
+        text = json.result;
+    }
+
+    if (!text.includes('$$SOE')) {
+        // Without an ephemeris section the response is an error banner
+        const bannerLine = text.split('\n')
+            .map(line => line.trim())
+            .find(line => ERROR_BANNERS.some(b => b.pattern.test(line)));
+        if (bannerLine) throw classifyError(bannerLine);
+        throw new HorizonsNoDataError('Response does not contain an ephemeris section ($$SOE)');
+    }
+
+    return text;
+}
+
+/**
+ * Returns the lines between the $$SOE and $$EOE markers together with their line numbers
+ */
+function getEphemerisLines(text: string): { line: string; lineNumber: number }[] {
+    const lines = text.split('\n');
+    const start = lines.findIndex(line => line.includes('$$SOE'));
+    const end = lines.findIndex(line => line.includes('$$EOE'));
+    if (start === -1) {
+        throw new HorizonsNoDataError('Response does not contain an ephemeris section ($$SOE)');
+    }
+
+    const result: { line: string; lineNumber: number }[] = [];
+    for (let index = start + 1; index < (end === -1 ? lines.length : end); index++) {
+        if (lines[index].trim()) {
+            result.push({line: lines[index], lineNumber: index + 1});
+        }
+    }
+    return result;
+}
+
+/**
+ * Converts a Horizons calendar date ("2025-Jul-01") to "2025-07-01"
+ * @returns Normalized date or null if the format is not recognized
+ */
+export function parseHorizonsDate(dateToken: string): string | null {
+    const match = dateToken.match(/^(b?)(\d{4})-([A-Za-z]{3})-(\d{2})$/);
+    if (!match || match[1] === 'b') return null;
+    const month = MONTHS[match[3]];
+    return month ? `${match[2]}-${month}-${match[4]}` : null;
+}
+
+/**
+ * Parses an OBSERVER ephemeris table requested with QUANTITIES='31'.
+ * Handles rows with and without the solar/lunar presence flag columns.
+ *
+ * @param raw - Raw response body (text or JSON format)
+ * @returns Parsed rows in chronological order
+ * @throws HorizonsError subclass for error banners, missing data or malformed lines
+ */
+export function parseObserverTable(raw: string): ObserverRow[] {
+    const text = unwrapHorizonsResponse(raw);
+    const rows: ObserverRow[] = [];
+
+    for (const {line, lineNumber} of getEphemerisLines(text)) {
+        const cols = line.trim().split(/\s+/);
+        if (cols.length < 4) {
+            throw new HorizonsParseError('Not enough columns in observer row', line, lineNumber);
+        }
+
+        const dateStr = parseHorizonsDate(cols[0]);
+        if (!dateStr || !/^\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(cols[1])) {
+            throw new HorizonsParseError('Unrecognized date or time in observer row', line, lineNumber);
+        }
+
+        // Optional flag column: solar presence (*, C, N, A) followed by lunar presence (m, r, t, s)
+        let valueIndex = 2;
+        let solarPresence: ObserverRow['solarPresence'] = null;
+        let lunarPresence: ObserverRow['lunarPresence'] = null;
+        if (/^[*CNA]?[mrts]?$/.test(cols[2]) && cols[2].length > 0) {
+            for (const flag of cols[2]) {
+                solarPresence = SOLAR_PRESENCE[flag] ?? solarPresence;
+                lunarPresence = LUNAR_PRESENCE[flag] ?? lunarPresence;
+            }
+            valueIndex = 3;
+        }
+
+        const longitude = parseFloat(cols[valueIndex]);
+        const latitude = parseFloat(cols[valueIndex + 1]);
+        if (isNaN(longitude) || isNaN(latitude)) {
+            throw new HorizonsParseError('Ecliptic longitude or latitude is not a number', line, lineNumber);
+        }
+
+        const time = cols[1].length === 5 ? `${cols[1]}:00` : cols[1];
+        const date = new Date(`${dateStr}T${time}Z`);
+        if (isNaN(date.getTime())) {
+            throw new HorizonsParseError('Invalid timestamp in observer row', line, lineNumber);
+        }
+
+        rows.push({date, solarPresence, lunarPresence, longitude, latitude});
+    }
+
+    if (rows.length === 0) {
+        throw new HorizonsNoDataError('Ephemeris section is empty');
+    }
+    return rows;
+}
+
+/**
+ * Parses an ELEMENTS ephemeris table.
+ *
+ * @param raw - Raw response body (text or JSON format)
+ * @returns Parsed epochs in chronological order
+ * @throws HorizonsError subclass for error banners, missing data or incomplete epochs
+ */
+export function parseElementsTable(raw: string): ElementsRow[] {
+    const text = unwrapHorizonsResponse(raw);
+    const rows: ElementsRow[] = [];
+    let current: { julianDay: number; date: string; lineNumber: number; line: string; values: { [key: string]: number } } | null = null;
+
+    const finishEpoch = () => {
+        if (!current) return;
+        const required = ['EC', 'QR', 'IN', 'OM', 'W', 'MA', 'A'];
+        const missing = required.filter(key => current!.values[key] === undefined);
+        if (missing.length > 0) {
+            throw new HorizonsParseError(`Missing elements ${missing.join(', ')} for epoch`, current.line, current.lineNumber);
+        }
+        rows.push({julianDay: current.julianDay, date: current.date, ...current.values} as ElementsRow);
+    };
+
+    for (const {line, lineNumber} of getEphemerisLines(text)) {
+        // Epoch line: "2460857.500000000 = A.D. 2025-Jul-01 00:00:00.0000 TDB"
+        const epochMatch = line.match(/^\s*([\d.]+)\s*=\s*A\.D\.\s+(\S+)/);
+        if (epochMatch) {
+            finishEpoch();
+            const date = parseHorizonsDate(epochMatch[2]);
+            if (!date) {
+                throw new HorizonsParseError('Unrecognized epoch date', line, lineNumber);
+            }
+            current = {julianDay: parseFloat(epochMatch[1]), date, lineNumber, line, values: {}};
+            continue;
+        }
+
+        if (!current) {
+            throw new HorizonsParseError('Element values found before an epoch line', line, lineNumber);
+        }
+
+        // Value lines: "EC= 9.339E-02 QR= 2.066E+08 IN= 1.847E+00"
+        const valuePattern = /([A-Z][A-Za-z]?)\s*=\s*([-+]?[\d.]+(?:E[-+]?\d+)?)/g;
+        let match: RegExpExecArray | null;
+        let found = false;
+        while ((match = valuePattern.exec(line)) !== null) {
+            const value = parseFloat(match[2]);
+            if (isNaN(value)) {
+                throw new HorizonsParseError(`Element ${match[1]} is not a number`, line, lineNumber);
+            }
+            current.values[match[1]] = value;
+            found = true;
+        }
+        if (!found) {
+            throw new HorizonsParseError('Unrecognized line in elements table', line, lineNumber);
+        }
+    }
+    finishEpoch();
+
+    if (rows.length === 0) {
+        throw new HorizonsNoDataError('Ephemeris section is empty');
+    }
+    return rows;
+}
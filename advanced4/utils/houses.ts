@@ -0,0 +1,245 @@
+/**
+ * House system module for natal charts.
+ *
+ * Computes the Ascendant, Midheaven and the twelve house cusps from the birth
+ * moment and location, and places natal bodies in houses. Supported systems:
+ * - Placidus: trisection of the semi-arcs of each cusp degree (iterative)
+ * - Koch: trisection of the diurnal semi-arc of the MC degree in time
+ * - Equal: 30° houses starting at the Ascendant
+ * - Whole Sign: the sign of the Ascendant is the 1st house (in the selected zodiac)
+ *
+ * Placidus and Koch are undefined above the polar circles, where some ecliptic
+ * degrees never rise or set; Equal houses are used there instead.
+ */
+
+import {HouseCusps, HouseSystem, NatalChartEntry, ZodiacType} from '../types';
+import {convertToUTC} from './api';
+import {getApparentSiderealTime, getTrueObliquity} from './ephemeris';
+import {getAyanamsa, getZodiacSetting} from './zodiac';
+
+const DEG = Math.PI / 180;
+
+// Names of the chart angles used as natal points
+export const natalAngleNames = ['Ascendant', 'Midheaven'];
+
+// Maximum iterations for the Placidus cusp search
+const PLACIDUS_MAX_ITERATIONS = 50;
+
+// Display names of the supported house systems
+export const houseSystemNames: { [system in HouseSystem]: string } = {
+    placidus: 'Placidus',
+    koch: 'Koch',
+    equal: 'Equal',
+    wholeSign: 'Whole Sign',
+};
+
+/**
+ * Normalizes an angle to the range 0-360 degrees.
+ */
+function normalizeDegrees(angle: number): number {
+    const result = angle % 360;
+    return result < 0 ? result + 360 : result;
+}
+
+/**
+ * Ecliptic longitude of the Midheaven for a right ascension of the meridian.
+ */
+function midheavenFor(ramc: number, obliquity: number): number {
+    return normalizeDegrees(Math.atan2(Math.sin(ramc * DEG), Math.cos(ramc * DEG) * Math.cos(obliquity * DEG)) / DEG);
+}
+
+/**
+ * Ecliptic longitude rising on the eastern horizon for a right ascension of the meridian.
+ */
+function ascendantFor(ramc: number, latitude: number, obliquity: number): number {
+    const y = Math.cos(ramc * DEG);
+    const x = -(Math.sin(ramc * DEG) * Math.cos(obliquity * DEG) + Math.tan(latitude * DEG) * Math.sin(obliquity * DEG));
+    return normalizeDegrees(Math.atan2(y, x) / DEG);
+}
+
+/**
+ * Ecliptic longitude of the point on the ecliptic with the given right ascension.
+ */
+function eclipticLongitudeForRightAscension(rightAscension: number, obliquity: number): number {
+    return normalizeDegrees(Math.atan2(Math.sin(rightAscension * DEG), Math.cos(rightAscension * DEG) * Math.cos(obliquity * DEG)) / DEG);
+}
+
+/**
+ * Diurnal semi-arc (degrees) of an ecliptic point, or null if it never rises or sets.
+ */
+function diurnalSemiArc(eclipticLongitude: number, latitude: number, obliquity: number): number | null {
+    const declination = Math.asin(Math.sin(obliquity * DEG) * Math.sin(eclipticLongitude * DEG));
+    const cosArc = -Math.tan(latitude * DEG) * Math.tan(declination);
+    if (cosArc < -1 || cosArc > 1) return null;
+    return Math.acos(cosArc) / DEG;
+}
+
+/**
+ * Finds a Placidus cusp: the ecliptic point whose right ascension lies the given
+ * fraction of its semi-arc away from the meridian.
+ * @param ramc - Right ascension of the meridian in degrees
+ * @param fraction - Fraction of the semi-arc (1/3 or 2/3)
+ * @param aboveHorizon - Whether the cusp lies above the horizon (houses 11, 12) or below it (houses 2, 3)
+ */
+function placidusCusp(
+    ramc: number,
+    fraction: number,
+    aboveHorizon: boolean,
+    latitude: number,
+    obliquity: number
+): number | null {
+    let rightAscension = ramc + (aboveHorizon ? fraction * 90 : 180 - fraction * 90);
+    let longitude = eclipticLongitudeForRightAscension(rightAscension, obliquity);
+
+    for (let i = 0; i < PLACIDUS_MAX_ITERATIONS; i++) {
+        const semiArc = diurnalSemiArc(longitude, latitude, obliquity);
+        if (semiArc === null) return null;
+
+        rightAscension = aboveHorizon
+            ? ramc + fraction * semiArc
+            : ramc + 180 - fraction * (180 - semiArc);
+        const next = eclipticLongitudeForRightAscension(rightAscension, obliquity);
+        const change = Math.abs(((next - longitude + 540) % 360) - 180);
+        longitude = next;
+        if (change < 1e-7) break;
+    }
+    return longitude;
+}
+
+/**
+ * Intermediate cusps 11, 12, 2 and 3 for the Placidus system, or null near the poles.
+ */
+function placidusIntermediateCusps(ramc: number, latitude: number, obliquity: number): number[] | null {
+    const cusps = [
+        placidusCusp(ramc, 1 / 3, true, latitude, obliquity),
+        placidusCusp(ramc, 2 / 3, true, latitude, obliquity),
+        placidusCusp(ramc, 2 / 3, false, latitude, obliquity),
+        placidusCusp(ramc, 1 / 3, false, latitude, obliquity),
+    ];
+    return cusps.every(cusp => cusp !== null) ? cusps as number[] : null;
+}
+
+/**
+ * Intermediate cusps 11, 12, 2 and 3 for the Koch system, or null near the poles.
+ * Each cusp is the Ascendant at the moment a third of the MC degree's semi-arc is passed.
+ */
+function kochIntermediateCusps(ramc: number, midheaven: number, latitude: number, obliquity: number): number[] | null {
+    const semiArc = diurnalSemiArc(midheaven, latitude, obliquity);
+    if (semiArc === null) return null;
+    return [
+        ascendantFor(ramc - 2 * semiArc / 3, latitude, obliquity),
+        ascendantFor(ramc - semiArc / 3, latitude, obliquity),
+        ascendantFor(ramc + semiArc / 3, latitude, obliquity),
+        ascendantFor(ramc + 2 * semiArc / 3, latitude, obliquity),
+    ];
+}
+
+/**
+ * Builds all twelve cusps from the angles and the intermediate cusps of the eastern half.
+ */
+function quadrantCusps(ascendant: number, midheaven: number, intermediate: number[]): number[] {
+    const [cusp11, cusp12, cusp2, cusp3] = intermediate;
+    return [
+        ascendant, cusp2, cusp3, midheaven + 180,
+        cusp11 + 180, cusp12 + 180, ascendant + 180, cusp2 + 180,
+        cusp3 + 180, midheaven, cusp11, cusp12,
+    ].map(normalizeDegrees);
+}
+
+/**
+ * Calculates the angles and house cusps for a moment and location.
+ * @param date - Birth moment (UTC)
+ * @param latitude - Geographic latitude in degrees
+ * @param longitude - Geographic longitude in degrees (east positive)
+ * @param system - House system to use
+ * @param zodiac - Zodiac whose sign boundaries delimit Whole Sign houses, defaults to the app setting
+ * @returns Angles and cusps (tropical longitudes); system is 'equal' when the requested system is undefined at the latitude
+ */
+export function calculateHouses(
+    date: Date,
+    latitude: number,
+    longitude: number,
+    system: HouseSystem,
+    zodiac: ZodiacType = getZodiacSetting()
+): HouseCusps {
+    const obliquity = getTrueObliquity(date);
+    const ramc = normalizeDegrees(getApparentSiderealTime(date) + longitude);
+    const midheaven = midheavenFor(ramc, obliquity);
+    const ascendant = ascendantFor(ramc, latitude, obliquity);
+
+    if (system === 'placidus' || system === 'koch') {
+        const intermediate = system === 'placidus'
+            ? placidusIntermediateCusps(ramc, latitude, obliquity)
+            : kochIntermediateCusps(ramc, midheaven, latitude, obliquity);
+        if (intermediate) {
+            return {system, ascendant, midheaven, cusps: quadrantCusps(ascendant, midheaven, intermediate)};
+        }
+        console.warn(`[Houses] ${houseSystemNames[system]} houses are undefined at latitude ${latitude}, using Equal houses`);
+        system = 'equal';
+    }
+
+    let firstCusp = ascendant;
+    if (system === 'wholeSign') {
+        const ayanamsa = getAyanamsa(zodiac, date);
+        firstCusp = Math.floor(normalizeDegrees(ascendant - ayanamsa) / 30) * 30 + ayanamsa;
+    }
+    const cusps = Array.from({length: 12}, (_, i) => normalizeDegrees(firstCusp + i * 30));
+    return {system, ascendant, midheaven, cusps};
+}
+
+/**
+ * Calculates the angles and house cusps for a local birth time.
+ * @param birthDate - Local birth date and time (YYYY-MM-DDTHH:mm) at the birth location
+ * @param latitude - Geographic latitude in degrees
+ * @param longitude - Geographic longitude in degrees
+ * @param system - House system to use
+ */
+export function calculateNatalHouses(
+    birthDate: string,
+    latitude: number,
+    longitude: number,
+    system: HouseSystem
+): HouseCusps {
+    return calculateHouses(convertToUTC(birthDate, latitude, longitude), latitude, longitude, system);
+}
+
+/**
+ * Returns the house (1-12) containing an ecliptic longitude.
+ * @param eclipticLongitude - Ecliptic longitude in degrees
+ * @param cusps - The 12 house cusps, starting with the 1st house
+ */
+export function getHousePlacement(eclipticLongitude: number, cusps: number[]): number {
+    for (let i = 0; i < 12; i++) {
+        const start = cusps[i];
+        const size = normalizeDegrees(cusps[(i + 1) % 12] - start);
+        if (normalizeDegrees(eclipticLongitude - start) < size) {
+            return i + 1;
+        }
+    }
+    return 1;
+}
+
+/**
+ * Returns the natal chart with each successfully calculated body placed in a house.
+ * @param chart - Natal chart entries
+ * @param houses - House cusps for the chart
+ */
+export function assignHouses(chart: NatalChartEntry[], houses: HouseCusps): NatalChartEntry[] {
+    return chart.map(entry => {
+        if (entry.status === 'failed' || entry.sign === 'Unknown') {
+            return {...entry, house: undefined};
+        }
+        return {...entry, house: getHousePlacement(entry.longitude, houses.cusps)};
+    });
+}
+
+/**
+ * Returns the angles of a chart as natal points that can receive aspects.
+ * @param houses - House cusps for the chart
+ */
+export function getNatalAngles(houses: HouseCusps): { name: string; longitude: number }[] {
+    return [
+        {name: natalAngleNames[0], longitude: houses.ascendant},
+        {name: natalAngleNames[1], longitude: houses.midheaven},
+    ];
+}
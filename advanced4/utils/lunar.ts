@@ -0,0 +1,311 @@
+/**
+ * Lunar module for the phases of the Moon, void-of-course periods and eclipses.
+ *
+ * - Phases are the moments the Moon's elongation from the Sun reaches 0°, 90°, 180° and 270°
+ * - The Moon is void of course from its last major aspect to a planet until it enters the next sign
+ * - Eclipses follow Meeus (Astronomical Algorithms, ch. 54): every new and full moon close enough
+ *   to a lunar node eclipses, and its type and magnitude come from the position of the shadow axis
+ *   (gamma) and the radius of the umbral cone at the Earth
+ *
+ * Phases and void-of-course periods work on position series, eclipses only need the date range.
+ */
+
+import {AspectType, Eclipse, LunarPhase, ZodiacType} from '../types';
+import {getZodiacSign} from './api';
+import {getBodyByName} from './bodies';
+import {deltaTSeconds, getEclipticLongitude} from './ephemeris';
+import {findExactTimes, getRelativePositions, interpolatePosition} from './aspectTiming';
+import {toZodiacLongitude} from './zodiac';
+import {PositionSeries} from './transitEngine';
+
+const DAY_MS = 86400000;
+const DEG = Math.PI / 180;
+
+// Elongation of the Moon from the Sun at each main phase
+export const lunarPhaseAngles: { [phase in LunarPhase]: number } = {
+    new: 0,
+    firstQuarter: 90,
+    full: 180,
+    lastQuarter: 270,
+};
+
+// Major (Ptolemaic) aspects that end a void-of-course period, by angle of the relative longitude
+const VOID_OF_COURSE_ASPECTS: [number, AspectType][] = [
+    [0, 'Conjunction'],
+    [60, 'Sextile'],
+    [90, 'Square'],
+    [120, 'Trine'],
+    [180, 'Opposition'],
+    [240, 'Trine'],
+    [270, 'Square'],
+    [300, 'Sextile'],
+];
+
+// Saros series of two reference eclipses (2024-04-08 solar, 2025-03-14 lunar) and their lunation numbers
+const SOLAR_SAROS_REFERENCE = {lunation: 300, saros: 139};
+const LUNAR_SAROS_REFERENCE = {lunation: 311.5, saros: 123};
+
+// A saros is 223 lunations (same series), an inex 358 lunations (next series);
+// 38 is the inverse of 358 modulo 223
+const SAROS_LUNATIONS = 223;
+const INEX_INVERSE = 38;
+
+/**
+ * Moment of an exact lunar phase
+ */
+export interface LunarPhaseTime {
+    phase: LunarPhase;
+    date: string;       // Exact moment of the phase (ISO)
+    longitude: number;  // Tropical longitude of the Moon in degrees
+}
+
+/**
+ * Interval during which the Moon makes no major aspect before leaving its sign
+ */
+export interface VoidOfCoursePeriod {
+    startDate: string;      // Last major aspect, or the ingress when the Moon makes none in the sign (ISO)
+    endDate: string;        // Ingress into the next sign (ISO)
+    sign: string;           // Sign the Moon is void in, in the selected zodiac
+    nextSign: string;       // Sign the Moon enters at the end of the period
+    lastAspect?: { planet: string; aspectType: AspectType }; // Aspect that starts the period
+}
+
+/**
+ * Finds the exact new, first quarter, full and last quarter moons in the sampled range.
+ *
+ * @param moon - Positions of the Moon
+ * @param sun - Positions of the Sun on the same dates
+ * @returns Phases in time order
+ */
+export function findLunarPhases(moon: PositionSeries, sun: PositionSeries): LunarPhaseTime[] {
+    const elongation = getRelativePositions(moon, sun);
+    return (Object.keys(lunarPhaseAngles) as LunarPhase[])
+        .flatMap(phase => findExactTimes(elongation, 0, lunarPhaseAngles[phase]).map(hit => ({
+            phase,
+            date: hit.time,
+            // The Moon stands at the Sun's longitude plus the elongation of the phase
+            longitude: (interpolatePosition(sun, hit.time) + lunarPhaseAngles[phase]) % 360,
+        })))
+        .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Finds the void-of-course periods of the Moon in the sampled range.
+ * Only the Sun and the planets (Mercury to Pluto) count for the last aspect. The period before
+ * the first sign ingress in the range is left out, since its start is unknown.
+ *
+ * @param transitData - Positions keyed by body name, including the Moon
+ * @param zodiac - Zodiac of the signs
+ * @returns Void-of-course periods in time order
+ */
+export function findVoidOfCoursePeriods(
+    transitData: Record<string, PositionSeries>,
+    zodiac: ZodiacType
+): VoidOfCoursePeriod[] {
+    const moon = transitData.Moon;
+    if (!moon || moon.length < 2) return [];
+
+    // Sign ingresses of the Moon in the selected zodiac (the Moon never turns retrograde)
+    const zodiacPositions = moon.map(position => ({
+        date: position.date,
+        longitude: toZodiacLongitude(position.longitude, new Date(position.date), zodiac),
+    }));
+    const ingresses: { time: string; sign: string }[] = [];
+    for (let boundary = 0; boundary < 360; boundary += 30) {
+        findExactTimes(zodiacPositions, 0, boundary).forEach((hit) => {
+            ingresses.push({time: hit.time, sign: getZodiacSign(boundary, new Date(hit.time), 'tropical').sign});
+        });
+    }
+    ingresses.sort((a, b) => a.time.localeCompare(b.time));
+
+    // Exact major aspects of the Moon to the Sun and the planets
+    const aspects: { time: string; planet: string; aspectType: AspectType }[] = [];
+    Object.keys(transitData).forEach((name) => {
+        const kind = getBodyByName(name)?.kind;
+        if (name === 'Moon' || (kind !== 'luminary' && kind !== 'planet' && kind !== 'dwarfPlanet')) return;
+        const relative = getRelativePositions(moon, transitData[name]);
+        VOID_OF_COURSE_ASPECTS.forEach(([angle, aspectType]) => {
+            findExactTimes(relative, 0, angle).forEach((hit) => {
+                aspects.push({time: hit.time, planet: name, aspectType});
+            });
+        });
+    });
+
+    const periods: VoidOfCoursePeriod[] = [];
+    for (let i = 0; i < ingresses.length - 1; i++) {
+        const ingress = ingresses[i];
+        const nextIngress = ingresses[i + 1];
+        const lastAspect = aspects
+            .filter(aspect => aspect.time >= ingress.time && aspect.time < nextIngress.time)
+            .reduce<typeof aspects[number] | null>((last, aspect) => !last || aspect.time > last.time ? aspect : last, null);
+
+        periods.push({
+            startDate: lastAspect?.time ?? ingress.time,
+            endDate: nextIngress.time,
+            sign: ingress.sign,
+            nextSign: nextIngress.sign,
+            lastAspect: lastAspect ? {planet: lastAspect.planet, aspectType: lastAspect.aspectType} : undefined,
+        });
+    }
+    return periods;
+}
+
+/**
+ * Saros series of an eclipse from its lunation number (Meeus k, .5 for full moons)
+ */
+function getSarosNumber(lunation: number, reference: { lunation: number; saros: number }): number {
+    // Lunations between the eclipses are a whole number of saroses plus one inex per series
+    const difference = Math.round(lunation - reference.lunation);
+    let series = ((difference * INEX_INVERSE) % SAROS_LUNATIONS + SAROS_LUNATIONS) % SAROS_LUNATIONS;
+    if (series > SAROS_LUNATIONS / 2) series -= SAROS_LUNATIONS;
+    return reference.saros + series;
+}
+
+/**
+ * Calculates the eclipse at a lunation, if any (Meeus, ch. 54)
+ * @param k - Lunation number since the new moon of 2000-01-06 (.5 for full moons)
+ * @returns Eclipse or null when the Moon is too far from a node
+ */
+function calculateEclipse(k: number): Eclipse | null {
+    const T = k / 1236.85;
+    const F = 160.7108 + 390.67050284 * k - 0.0016118 * T * T - 0.00000227 * T ** 3 + 0.000000011 * T ** 4;
+    if (Math.abs(Math.sin(F * DEG)) > 0.36) return null;
+
+    const jdeMean = 2451550.09766 + 29.530588861 * k + 0.00015437 * T * T - 0.00000015 * T ** 3 + 0.00000000073 * T ** 4;
+    const E = 1 - 0.002516 * T - 0.0000074 * T * T;
+    const M = (2.5534 + 29.1053567 * k - 0.0000014 * T * T - 0.00000011 * T ** 3) * DEG;
+    const Mp = (201.5643 + 385.81693528 * k + 0.0107582 * T * T + 0.00001238 * T ** 3 - 0.000000058 * T ** 4) * DEG;
+    const omega = (124.7746 - 1.56375588 * k + 0.0020672 * T * T + 0.00000215 * T ** 3) * DEG;
+    const F1 = F * DEG - 0.02665 * DEG * Math.sin(omega);
+    const A1 = (299.77 + 0.107408 * k - 0.009173 * T * T) * DEG;
+    const isSolar = Number.isInteger(k);
+
+    // Moment of greatest eclipse
+    const jde = jdeMean
+        + (isSolar ? -0.4075 * Math.sin(Mp) + 0.1721 * E * Math.sin(M) : -0.4065 * Math.sin(Mp) + 0.1727 * E * Math.sin(M))
+        + 0.0161 * Math.sin(2 * Mp) - 0.0097 * Math.sin(2 * F1) + 0.0073 * E * Math.sin(Mp - M)
+        - 0.005 * E * Math.sin(Mp + M) - 0.0023 * Math.sin(Mp - 2 * F1) + 0.0021 * E * Math.sin(2 * M)
+        + 0.0012 * Math.sin(Mp + 2 * F1) + 0.0006 * E * Math.sin(2 * Mp + M) - 0.0004 * Math.sin(3 * Mp)
+        - 0.0003 * E * Math.sin(M + 2 * F1) + 0.0003 * Math.sin(A1) - 0.0002 * E * Math.sin(M - 2 * F1)
+        - 0.0002 * E * Math.sin(2 * Mp - M) - 0.0002 * Math.sin(omega);
+
+    // Gamma (shadow axis from the Earth's center) and u (umbral cone radius), in Earth radii
+    const P = 0.207 * E * Math.sin(M) + 0.0024 * E * Math.sin(2 * M) - 0.0392 * Math.sin(Mp)
+        + 0.0116 * Math.sin(2 * Mp) - 0.0073 * E * Math.sin(Mp + M) + 0.0067 * E * Math.sin(Mp - M)
+        + 0.0118 * Math.sin(2 * F1);
+    const Q = 5.2207 - 0.0048 * E * Math.cos(M) + 0.002 * E * Math.cos(2 * M) - 0.3299 * Math.cos(Mp)
+        - 0.006 * E * Math.cos(Mp + M) + 0.0041 * E * Math.cos(Mp - M);
+    const W = Math.abs(Math.cos(F1));
+    const gamma = (P * Math.cos(F1) + Q * Math.sin(F1)) * (1 - 0.0048 * W);
+    const u = 0.0059 + 0.0046 * E * Math.cos(M) - 0.0182 * Math.cos(Mp) + 0.0004 * Math.cos(2 * Mp)
+        - 0.0005 * Math.cos(M + Mp);
+    const absGamma = Math.abs(gamma);
+
+    let type: Eclipse['type'];
+    let magnitude: number;
+    if (isSolar) {
+        if (absGamma > 1.5433 + u) return null;
+        if (absGamma < 0.9972) {
+            // Central eclipse: the magnitude on the central line is the ratio of the apparent diameters
+            const hybridLimit = 0.00464 * Math.sqrt(1 - gamma * gamma);
+            type = u < 0 ? 'total' : u > hybridLimit ? 'annular' : 'hybrid';
+            magnitude = 0.5461 / (0.5461 + 2 * u);
+        } else {
+            type = 'partial';
+            magnitude = (1.5433 + u - absGamma) / (0.5461 + 2 * u);
+        }
+    } else {
+        const penumbralMagnitude = (1.5573 + u - absGamma) / 0.545;
+        if (penumbralMagnitude <= 0) return null;
+        magnitude = (1.0128 - u - absGamma) / 0.545;
+        type = magnitude <= 0 ? 'penumbral' : magnitude >= 1 ? 'total' : 'partial';
+        if (type === 'penumbral') magnitude = penumbralMagnitude;
+    }
+
+    // Greatest eclipse in UTC: the lunation times are in Terrestrial Time
+    const ttDate = new Date((jde - 2440587.5) * DAY_MS);
+    const date = new Date(ttDate.getTime() - deltaTSeconds(ttDate) * 1000);
+    const sunLongitude = getEclipticLongitude('10', date);
+
+    return {
+        kind: isSolar ? 'solar' : 'lunar',
+        type,
+        date: date.toISOString(),
+        magnitude: Math.round(magnitude * 10000) / 10000,
+        saros: getSarosNumber(k, isSolar ? SOLAR_SAROS_REFERENCE : LUNAR_SAROS_REFERENCE),
+        gamma: Math.round(gamma * 10000) / 10000,
+        longitude: isSolar ? sunLongitude : (sunLongitude + 180) % 360,
+    };
+}
+
+/**
+ * Finds the solar and lunar eclipses between two dates.
+ *
+ * @param startDate - Start of the range (ISO)
+ * @param endDate - End of the range (ISO)
+ * @returns Eclipses in time order
+ */
+export function findEclipses(startDate: string, endDate: string): Eclipse[] {
+    const start = new Date(startDate).getTime();
+    const end = new Date(endDate).getTime();
+    if (isNaN(start) || isNaN(end)) {
+        console.error(`[Lunar] Invalid dates: startDate=${startDate}, endDate=${endDate}`);
+        return [];
+    }
+
+    // Lunation numbers around the range (one lunation of margin on each side)
+    const toLunation = (time: number) => (time - Date.UTC(2000, 0, 6, 14, 20)) / (29.530588861 * DAY_MS);
+    const eclipses: Eclipse[] = [];
+    for (let k = Math.floor(toLunation(Math.min(start, end))) - 1; k <= Math.ceil(toLunation(Math.max(start, end))) + 1; k++) {
+        [k, k + 0.5].forEach((lunation) => {
+            const eclipse = calculateEclipse(lunation);
+            const time = eclipse ? new Date(eclipse.date).getTime() : NaN;
+            if (eclipse && time >= Math.min(start, end) && time <= Math.max(start, end)) {
+                eclipses.push(eclipse);
+            }
+        });
+    }
+    return eclipses;
+}
+
+/**
+ * Elongation of the Moon from the Sun at a moment, from the local ephemeris
+ * @param date - Moment of observation
+ * @returns Elongation in degrees (0 new moon, 180 full moon)
+ */
+export function getMoonElongation(date: Date): number {
+    return (getEclipticLongitude('301', date) - getEclipticLongitude('10', date) + 360) % 360;
+}
+
+/**
+ * Returns the emoji of the nearest of the eight lunar phases for an elongation
+ * @param elongation - Elongation of the Moon from the Sun in degrees
+ */
+export function getMoonPhaseIcon(elongation: number): string {
+    const icons = ['🌑', '🌒', '🌓', '🌔', '🌕', '🌖', '🌗', '🌘'];
+    return icons[Math.round(elongation / 45) % 8];
+}
+
+/**
+ * Returns the display name of a lunar phase (e.g. "First Quarter Moon")
+ */
+export function getLunarPhaseName(phase: LunarPhase): string {
+    switch (phase) {
+        case 'new':
+            return 'New Moon';
+        case 'firstQuarter':
+            return 'First Quarter Moon';
+        case 'full':
+            return 'Full Moon';
+        case 'lastQuarter':
+            return 'Last Quarter Moon';
+    }
+}
+
+/**
+ * Returns the display name of an eclipse (e.g. "Total Solar Eclipse")
+ */
+export function getEclipseName(eclipse: Eclipse): string {
+    const type = eclipse.type.charAt(0).toUpperCase() + eclipse.type.slice(1);
+    return `${type} ${eclipse.kind === 'solar' ? 'Solar' : 'Lunar'} Eclipse`;
+}
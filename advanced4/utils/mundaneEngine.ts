@@ -0,0 +1,204 @@
+/**
+ * Mundane engine module for calculating sky events that do not depend on a natal chart.
+ *
+ * From the daily positions of the moving bodies it finds:
+ * - Aspects between two moving bodies (e.g. Jupiter trine Saturn), at the exact moment
+ * - Sign ingresses in the selected zodiac, including retrograde re-entries
+ * - New, first quarter, full and last quarter moons
+ * - Stations of the bodies that turn retrograde
+ * - Void-of-course periods of the Moon and solar and lunar eclipses
+ *
+ * The Moon is only used for lunations, void-of-course periods and eclipses: its aspects
+ * and ingresses happen every few hours and would bury the rest of the calendar. Like the transit engine, the
+ * calculation is deterministic for given positions and options. Bodies whose positions cannot
+ * be fetched are left out of a run and reported with its events.
+ */
+
+import {AspectSettings, BodyDefinition, Event, FailedBody, ZodiacType} from '../types';
+import {getZodiacSign} from './api';
+import {getBodyByName, getStationingBodies, getTransitingBodies} from './bodies';
+import {createMundaneEvent, createStationEvent} from './eventHelpers';
+import {DEFAULT_ASPECT_SETTINGS, getAspectInfluence, getAspectOffsets, getEnabledAspects} from './aspects';
+import {findExactTimes, getRelativePositions} from './aspectTiming';
+import {findStations} from './retrogrades';
+import {findEclipses, findLunarPhases, findVoidOfCoursePeriods} from './lunar';
+import {toZodiacLongitude} from './zodiac';
+import {describeHorizonsError} from './horizonsParser';
+import {EngineResult, PositionSeries, PositionSource} from './transitEngine';
+
+/**
+ * Options of a sky event calculation on available positions
+ */
+export interface MundaneScanOptions {
+    zodiac: ZodiacType;                 // Zodiac of the signs (ingresses follow its sign boundaries)
+    aspectSettings?: AspectSettings;    // Aspects and influences, the defaults when missing
+    includeAspects?: boolean;           // Whether aspects between bodies are added (default true)
+    includeIngresses?: boolean;         // Whether sign ingresses are added (default true)
+    includeLunations?: boolean;         // Whether the four lunar phases are added (default true)
+    includeStations?: boolean;          // Whether stations are added (default true)
+    includeVoidOfCourse?: boolean;      // Whether void-of-course periods of the Moon are added (default true)
+    includeEclipses?: boolean;          // Whether solar and lunar eclipses are added (default true)
+}
+
+/**
+ * Options of a full mundane engine run, including the range and bodies to fetch
+ */
+export interface MundaneEngineOptions extends MundaneScanOptions {
+    startDate: string;                  // Start of the range (ISO)
+    endDate: string;                    // End of the range (ISO)
+    bodies?: BodyDefinition[];          // Moving bodies, the registry's transiting bodies when missing
+}
+
+/**
+ * Calculates sky events from daily positions that are already available.
+ *
+ * @param transitData - Daily positions keyed by body name (the Moon is needed for lunations and void-of-course periods)
+ * @param options - Zodiac, aspect settings and event kinds
+ * @returns Sky events in time order
+ */
+export function calculateMundaneEvents(
+    transitData: Record<string, PositionSeries>,
+    options: MundaneScanOptions
+): Event[] {
+    const aspectSettings = options.aspectSettings ?? DEFAULT_ASPECT_SETTINGS;
+    const events: Event[] = [];
+
+    // Slow bodies: everything except the Moon and the calculated points
+    const bodyNames = Object.keys(transitData).filter(name => {
+        const body = getBodyByName(name);
+        return name !== 'Moon' && body?.kind !== 'point' && transitData[name].length > 1;
+    });
+
+    if (options.includeAspects !== false) {
+        const aspects = getEnabledAspects(aspectSettings);
+        bodyNames.forEach((firstName, index) => {
+            bodyNames.slice(index + 1).forEach((secondName) => {
+                const relative = getRelativePositions(transitData[firstName], transitData[secondName]);
+                aspects.forEach((aspect) => {
+                    getAspectOffsets(aspect.angle).forEach((offset) => {
+                        findExactTimes(relative, 0, offset).forEach((hit) => {
+                            events.push(createMundaneEvent({
+                                kind: 'aspect',
+                                date: hit.time,
+                                planets: [firstName, secondName],
+                                aspectType: aspect.type,
+                            }, getAspectInfluence(aspect.type, aspectSettings)));
+                        });
+                    });
+                });
+            });
+        });
+    }
+
+    if (options.includeIngresses !== false) {
+        bodyNames.forEach((name) => {
+            // Sign boundaries are crossings of multiples of 30° in the zodiac longitude
+            const zodiacPositions = transitData[name].map(position => ({
+                date: position.date,
+                longitude: toZodiacLongitude(position.longitude, new Date(position.date), options.zodiac),
+            }));
+            for (let boundary = 0; boundary < 360; boundary += 30) {
+                findExactTimes(zodiacPositions, 0, boundary).forEach((hit) => {
+                    // Retrograde motion enters the sign below the boundary. The longitude is already
+                    // in the selected zodiac, so the sign is looked up without another ayanamsa.
+                    const longitude = hit.retrograde ? boundary + 359 : boundary;
+                    events.push(createMundaneEvent({
+                        kind: 'ingress',
+                        date: hit.time,
+                        planets: [name],
+                        sign: getZodiacSign(longitude % 360, new Date(hit.time), 'tropical').sign,
+                        retrograde: hit.retrograde,
+                    }, hit.retrograde ? 'negative' : 'positive'));
+                });
+            }
+        });
+    }
+
+    if (options.includeLunations !== false && transitData.Moon && transitData.Sun) {
+        findLunarPhases(transitData.Moon, transitData.Sun).forEach((lunarPhase) => {
+            events.push(createMundaneEvent({
+                kind: 'lunation',
+                date: lunarPhase.date,
+                planets: ['Moon', 'Sun'],
+                sign: getZodiacSign(lunarPhase.longitude, new Date(lunarPhase.date), options.zodiac).sign,
+                phase: lunarPhase.phase,
+            }, lunarPhase.phase === 'new' || lunarPhase.phase === 'firstQuarter' ? 'positive' : 'negative'));
+        });
+    }
+
+    if (options.includeVoidOfCourse !== false) {
+        findVoidOfCoursePeriods(transitData, options.zodiac).forEach((period) => {
+            events.push(createMundaneEvent({
+                kind: 'voidOfCourse',
+                date: period.startDate,
+                endDate: period.endDate,
+                planets: period.lastAspect ? ['Moon', period.lastAspect.planet] : ['Moon'],
+                aspectType: period.lastAspect?.aspectType,
+                sign: period.sign,
+            }, 'negative'));
+        });
+    }
+
+    // Eclipses only depend on the range, taken from the Sun's positions
+    const sun = transitData.Sun;
+    if (options.includeEclipses !== false && sun && sun.length > 1) {
+        findEclipses(sun[0].date, sun[sun.length - 1].date).forEach((eclipse) => {
+            events.push(createMundaneEvent({
+                kind: 'eclipse',
+                date: eclipse.date,
+                planets: eclipse.kind === 'solar' ? ['Sun', 'Moon'] : ['Moon', 'Sun'],
+                sign: getZodiacSign(eclipse.longitude, new Date(eclipse.date), options.zodiac).sign,
+                phase: eclipse.kind === 'solar' ? 'new' : 'full',
+                eclipse,
+            }, 'negative'));
+        });
+    }
+
+    if (options.includeStations !== false) {
+        getStationingBodies()
+            .filter(body => bodyNames.includes(body.name))
+            .forEach((body) => {
+                findStations(body.name, transitData[body.name]).forEach((station) => {
+                    const sign = getZodiacSign(station.longitude, new Date(station.date), options.zodiac).sign;
+                    events.push({
+                        ...createStationEvent({...station, sign}),
+                        isMundaneEvent: true,
+                        mundaneEvent: {
+                            kind: 'station',
+                            date: station.date,
+                            planets: [body.name],
+                            sign,
+                            direction: station.direction,
+                        },
+                    });
+                });
+            });
+    }
+
+    return events.sort((a, b) => (a.mundaneEvent?.date ?? '').localeCompare(b.mundaneEvent?.date ?? ''));
+}
+
+/**
+ * Fetches the daily positions of the moving bodies and calculates the sky events.
+ *
+ * @param source - Source of the daily positions
+ * @param options - Range, bodies, zodiac, aspect settings and event kinds
+ * @returns Sky events in time order and the bodies whose positions could not be fetched
+ */
+export async function runMundaneEngine(
+    source: PositionSource,
+    options: MundaneEngineOptions
+): Promise<EngineResult> {
+    // Daily positions for every body, the Moon included (its daily motion interpolates well)
+    const bodies = (options.bodies ?? getTransitingBodies()).filter(body => body.kind !== 'point');
+    const transitData: Record<string, PositionSeries> = {};
+    const failedBodies: FailedBody[] = [];
+    for (const body of bodies) {
+        try {
+            transitData[body.name] = await source.getPlanetPositions(body.id, options.startDate, options.endDate);
+        } catch (error) {
+            failedBodies.push({name: body.name, error: describeHorizonsError(error)});
+        }
+    }
+    return {events: calculateMundaneEvents(transitData, options), failedBodies};
+}
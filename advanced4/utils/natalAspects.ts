@@ -0,0 +1,220 @@
+/**
+ * Natal aspects module for the aspect grid and aspect patterns of a natal chart.
+ *
+ * Every pair of calculated bodies is checked against the enabled aspects with the
+ * user's orbs; a pair forming several aspects keeps the tightest. Whether an aspect
+ * is applying or separating follows from the speeds of both bodies at birth, which
+ * come from the local ephemeris (bodies it does not cover have no phase, nor do charts
+ * without a real moment such as the composite).
+ *
+ * Patterns are searched among the luminaries, planets, dwarf planets and Chiron:
+ * Grand Trine, T-Square, Grand Cross, Yod, Kite and Stellium (three or more bodies in one sign).
+ */
+
+import {AspectPattern, AspectPatternType, AspectSettings, AspectType, NatalAspect, NatalAspects, NatalChartEntry} from '../types';
+import {DEFAULT_ASPECT_SETTINGS, getAspectOrb, getEnabledAspects} from './aspects';
+import {getBodyByName} from './bodies';
+import {getEclipticLongitude, isSupportedBody} from './ephemeris';
+import {checkForAspect} from './eventHelpers';
+
+// Display names of the aspect patterns
+export const aspectPatternNames: { [type in AspectPatternType]: string } = {
+    GrandTrine: 'Grand Trine',
+    TSquare: 'T-Square',
+    GrandCross: 'Grand Cross',
+    Yod: 'Yod',
+    Stellium: 'Stellium',
+    Kite: 'Kite',
+};
+
+// Minimum number of bodies in one sign that form a stellium
+const STELLIUM_SIZE = 3;
+
+// Time step used to tell applying from separating aspects (days)
+const PHASE_STEP_DAYS = 1 / 24;
+
+/**
+ * Angular distance between two longitudes (0-180)
+ */
+function getAngularDistance(first: number, second: number): number {
+    const distance = Math.abs(first - second) % 360;
+    return distance > 180 ? 360 - distance : distance;
+}
+
+/**
+ * Daily motion of a body at a moment, or undefined when the local ephemeris does not cover it
+ */
+function getBodySpeed(name: string, date: Date): number | undefined {
+    const body = getBodyByName(name);
+    if (!body || !isSupportedBody(body.id)) return undefined;
+
+    const before = getEclipticLongitude(body.id, new Date(date.getTime() - 43200000));
+    const after = getEclipticLongitude(body.id, new Date(date.getTime() + 43200000));
+    return (after - before + 540) % 360 - 180;
+}
+
+/**
+ * Whether the pattern search includes a body (the nodes, Lilith and the asteroids are left out)
+ */
+function isPatternBody(name: string): boolean {
+    const kind = getBodyByName(name)?.kind;
+    return kind !== 'point' && kind !== 'asteroid';
+}
+
+/**
+ * Calculates the aspect of every body pair of a natal chart and the patterns they form.
+ *
+ * @param chart - Natal chart (failed bodies are skipped)
+ * @param birthUtcDate - Birth moment in UTC, for the speeds of the bodies (null when the chart has no real moment)
+ * @param settings - Aspects and orbs, the defaults when missing
+ * @returns Aspects in chart order and the patterns found
+ */
+export function calculateNatalAspects(
+    chart: NatalChartEntry[],
+    birthUtcDate: Date | null,
+    settings: AspectSettings = DEFAULT_ASPECT_SETTINGS
+): NatalAspects {
+    const bodies = chart.filter(entry => entry.status !== 'failed' && entry.sign !== 'Unknown');
+    const speeds = new Map(birthUtcDate ? bodies.map(entry => [entry.name, getBodySpeed(entry.name, birthUtcDate)]) : []);
+    const aspectDefinitions = getEnabledAspects(settings);
+    const aspects: NatalAspect[] = [];
+
+    bodies.forEach((first, index) => {
+        bodies.slice(index + 1).forEach((second) => {
+            let tightest: { aspectType: AspectType; angle: number; orb: number } | null = null;
+            for (const aspect of aspectDefinitions) {
+                const orb = getAspectOrb(aspect.type, first.name, second.name, settings);
+                // The aspect can be measured in either direction around the zodiac
+                const forward = checkForAspect(first.longitude, second.longitude, aspect.angle, orb);
+                const backward = checkForAspect(second.longitude, first.longitude, aspect.angle, orb);
+                const diff = Math.min(forward ?? Infinity, backward ?? Infinity);
+                if (diff !== Infinity && (!tightest || diff < tightest.orb)) {
+                    tightest = {aspectType: aspect.type, angle: aspect.angle, orb: diff};
+                }
+            }
+            if (!tightest) return;
+            const {aspectType, angle, orb} = tightest;
+
+            // Applying when the distance from the exact aspect shrinks a moment later
+            const firstSpeed = speeds.get(first.name);
+            const secondSpeed = speeds.get(second.name);
+            let phase: NatalAspect['phase'];
+            if (firstSpeed !== undefined && secondSpeed !== undefined) {
+                const later = getAngularDistance(
+                    first.longitude + firstSpeed * PHASE_STEP_DAYS,
+                    second.longitude + secondSpeed * PHASE_STEP_DAYS
+                );
+                phase = Math.abs(later - angle) < orb ? 'applying' : 'separating';
+            }
+
+            aspects.push({
+                firstBody: first.name,
+                secondBody: second.name,
+                aspectType,
+                orb: Math.round(orb * 100) / 100,
+                phase,
+            });
+        });
+    });
+
+    return {aspects, patterns: findAspectPatterns(aspects, bodies)};
+}
+
+/**
+ * Finds the aspect patterns among the aspects of a chart
+ * @param aspects - Aspects of the chart
+ * @param chart - Bodies of the chart, for the stellia
+ * @returns Patterns, larger configurations first
+ */
+export function findAspectPatterns(aspects: NatalAspect[], chart: NatalChartEntry[]): AspectPattern[] {
+    const names = chart.map(entry => entry.name).filter(isPatternBody);
+    const aspectByPair = new Map<string, AspectType>();
+    aspects.forEach((aspect) => {
+        aspectByPair.set(`${aspect.firstBody}|${aspect.secondBody}`, aspect.aspectType);
+        aspectByPair.set(`${aspect.secondBody}|${aspect.firstBody}`, aspect.aspectType);
+    });
+    const has = (first: string, second: string, type: AspectType) => aspectByPair.get(`${first}|${second}`) === type;
+
+    const patterns: AspectPattern[] = [];
+    const found = new Set<string>();
+    // Adds a pattern once, whatever the order its bodies were found in
+    const addPattern = (pattern: AspectPattern) => {
+        const key = `${pattern.type}|${[...pattern.bodies].sort().join(',')}|${pattern.apex ?? ''}`;
+        if (found.has(key)) return;
+        found.add(key);
+        patterns.push(pattern);
+    };
+
+    const oppositions: [string, string][] = [];
+    const sextiles: [string, string][] = [];
+    names.forEach((first, index) => {
+        names.slice(index + 1).forEach((second) => {
+            if (has(first, second, 'Opposition')) oppositions.push([first, second]);
+            if (has(first, second, 'Sextile')) sextiles.push([first, second]);
+        });
+    });
+
+    // Grand Cross: two oppositions whose ends all square each other
+    const crossBodies = new Set<string>();
+    oppositions.forEach(([a, b], index) => {
+        oppositions.slice(index + 1).forEach(([c, d]) => {
+            if ([c, d].some(body => body === a || body === b)) return;
+            if (has(a, c, 'Square') && has(a, d, 'Square') && has(b, c, 'Square') && has(b, d, 'Square')) {
+                addPattern({type: 'GrandCross', bodies: [a, c, b, d]});
+                [a, b, c, d].forEach(body => crossBodies.add(body));
+            }
+        });
+    });
+
+    // T-Square: an opposition with both ends square a third body, the apex (unless part of a Grand Cross)
+    oppositions.forEach(([a, b]) => {
+        names.forEach((apex) => {
+            if (apex === a || apex === b || !has(a, apex, 'Square') || !has(b, apex, 'Square')) return;
+            if ([a, b, apex].every(body => crossBodies.has(body))) return;
+            addPattern({type: 'TSquare', bodies: [a, b, apex], apex});
+        });
+    });
+
+    // Grand Trine: three bodies trine each other, a Kite when a fourth opposes one and sextiles the others
+    names.forEach((a, i) => {
+        names.slice(i + 1).forEach((b, j) => {
+            if (!has(a, b, 'Trine')) return;
+            names.slice(i + j + 2).forEach((c) => {
+                if (!has(a, c, 'Trine') || !has(b, c, 'Trine')) return;
+                addPattern({type: 'GrandTrine', bodies: [a, b, c]});
+
+                names.forEach((apex) => {
+                    if ([a, b, c].includes(apex)) return;
+                    const opposed = [a, b, c].filter(body => has(apex, body, 'Opposition'));
+                    const sextiled = [a, b, c].filter(body => has(apex, body, 'Sextile'));
+                    if (opposed.length === 1 && sextiled.length === 2) {
+                        addPattern({type: 'Kite', bodies: [a, b, c, apex], apex});
+                    }
+                });
+            });
+        });
+    });
+
+    // Yod: two bodies in sextile, both quincunx a third body, the apex
+    sextiles.forEach(([a, b]) => {
+        names.forEach((apex) => {
+            if (apex !== a && apex !== b && has(a, apex, 'Quincunx') && has(b, apex, 'Quincunx')) {
+                addPattern({type: 'Yod', bodies: [a, b, apex], apex});
+            }
+        });
+    });
+
+    // Stellium: several bodies in one sign
+    const bodiesBySign = new Map<string, string[]>();
+    chart.filter(entry => isPatternBody(entry.name) && entry.status !== 'failed' && entry.sign !== 'Unknown')
+        .forEach((entry) => {
+            bodiesBySign.set(entry.sign, [...(bodiesBySign.get(entry.sign) ?? []), entry.name]);
+        });
+    bodiesBySign.forEach((signBodies, sign) => {
+        if (signBodies.length >= STELLIUM_SIZE) {
+            addPattern({type: 'Stellium', bodies: signBodies, sign});
+        }
+    });
+
+    return patterns;
+}
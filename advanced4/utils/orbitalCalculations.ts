@@ -14,22 +14,7 @@
 
 import * as THREE from 'three';
 import { PlanetData } from '../types';
-
-// Orbit correction factors for better visualization
-// Without these factors, outer planets would be very far from center
-export const orbitCorrectionMap = {
-    sun: 1,
-    mercury: 1,
-    venus: 1,
-    earth: 1,
-    mars: 1,
-    jupiter: 1.7,  // Jupiter and outer planets are compressed toward center
-    saturn: 3.2,   // for better visualization
-    uranus: 4.0,
-    neptune: 5,
-} as const;
-
-export type OrbitCorrectionKey = keyof typeof orbitCorrectionMap;
+import { getBodyByName } from './bodies';
 
 /**
  * Calculates celestial body position using Keplerian orbital elements.
@@ -99,16 +84,23 @@ export function calculateCelestialPosition(
  */
 export const ORBIT_VISUALIZATION_SCALE = 0.00000009;
 
+/**
+ * Scale factor for the Moon's geocentric orbit. At the planetary scale the Moon
+ * would sit inside Earth's sphere, so its orbit is enlarged to about 3 units.
+ */
+export const MOON_VISUALIZATION_SCALE = 3 / 384400;
+
 /**
  * Transforms heliocentric coordinates to geocentric (Earth-centered)
  * visualization coordinates with appropriate scaling and corrections.
  *
- * Handles special cases for Earth (always at center) and
- * Sun (positioned opposite to Earth). For other planets, applies
- * orbit correction factors to create a more balanced visual representation.
+ * Handles special cases for Earth (always at center),
+ * Sun (positioned opposite to Earth) and the Moon (already geocentric).
+ * For other planets, applies orbit correction factors to create
+ * a more balanced visual representation.
  *
  * @param bodyName Name of celestial body
- * @param position Heliocentric position of the body
+ * @param position Heliocentric position of the body (geocentric for the Moon)
  * @param earthPosition Heliocentric position of Earth
  * @returns Transformed and scaled coordinates for visualization
  */
@@ -132,9 +124,18 @@ export function transformToGeocentricVisualization(
         return {x: geoX, y: 0, z: geoY};
     }
 
+    // Moon elements are geocentric, so only its own scale is applied
+    if (bodyName === 'Moon') {
+        return {
+            x: position.x * MOON_VISUALIZATION_SCALE,
+            y: position.z * MOON_VISUALIZATION_SCALE,
+            z: position.y * MOON_VISUALIZATION_SCALE,
+        };
+    }
+
     // For other planets, apply orbit correction factors for better visualization
-    const correctionKey = bodyName.toLowerCase() as OrbitCorrectionKey;
-    const correctionFactor = orbitCorrectionMap[correctionKey] || 1;
+    // (outer planets are compressed toward the center, otherwise they would be very far away)
+    const correctionFactor = getBodyByName(bodyName)?.orbitCorrection || 1;
 
     // Calculate geocentric coordinates (relative to Earth)
     const geoX = (position.x - earthPosition.x) * ORBIT_VISUALIZATION_SCALE / correctionFactor;
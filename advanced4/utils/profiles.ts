@@ -0,0 +1,225 @@
+/**
+ * Profiles module for keeping the charts of several people (the user, partners, kids, clients).
+ *
+ * Each profile has its own birth data, natal chart (with houses and aspects) and events,
+ * stored under AsyncStorage keys scoped to the profile ID. App-wide settings such as the
+ * zodiac, the house system and the aspects stay shared by all profiles.
+ *
+ * A profile can also hold the composite or Davison chart of two other profiles, which is
+ * then used like a natal chart (e.g. for transits to the relationship).
+ *
+ * Installs from before profiles existed keep their single chart: on first use the global
+ * keys are moved into a first profile.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {Profile, RelationshipChartSource} from '../types';
+
+// Storage keys of the profile list and the active profile
+const PROFILES_STORAGE_KEY = 'profiles';
+const ACTIVE_PROFILE_STORAGE_KEY = 'activeProfileId';
+
+// Profile created for the chart of an install from before profiles existed
+const DEFAULT_PROFILE: Profile = {id: 'default', name: 'Me', createdAt: new Date(0).toISOString()};
+
+// Data kept per profile
+export const PROFILE_STORAGE_KEYS = [
+    'natalChart',
+    'natalHouses',
+    'natalAspects',
+    'birthDate',
+    'birthTime',
+    'birthTimeKnown',
+    'birthLatitude',
+    'birthLongitude',
+    'birthLocationName',
+    'birthTimeZone',
+    'events',
+] as const;
+
+export type ProfileStorageKey = typeof PROFILE_STORAGE_KEYS[number];
+
+// Profiles and the profile currently active in the app
+let profiles: Profile[] = [DEFAULT_PROFILE];
+let activeProfileId = DEFAULT_PROFILE.id;
+
+// Pending or finished loading of the profiles (the migration must run only once)
+let initialization: Promise<void> | null = null;
+
+/**
+ * Storage key of a profile's data
+ * @param key - Unscoped key
+ * @param profileId - Profile ID, the active profile when missing
+ */
+function toScopedKey(key: ProfileStorageKey, profileId: string = activeProfileId): string {
+    return `profile:${profileId}:${key}`;
+}
+
+/**
+ * Moves the data of a single-chart install into the default profile
+ */
+async function migrateSingleChartInstall(): Promise<void> {
+    for (const key of PROFILE_STORAGE_KEYS) {
+        const value = await AsyncStorage.getItem(key);
+        if (value !== null) {
+            await AsyncStorage.setItem(toScopedKey(key, DEFAULT_PROFILE.id), value);
+        }
+    }
+    // The profile list is written last, so an interrupted migration runs again
+    await AsyncStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify([DEFAULT_PROFILE]));
+    await AsyncStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, DEFAULT_PROFILE.id);
+    await AsyncStorage.multiRemove([...PROFILE_STORAGE_KEYS]);
+    console.log('[Profiles] Migrated the saved chart and events into the default profile');
+}
+
+/**
+ * Loads the profiles and the active profile, migrating a single-chart install first
+ */
+function initializeProfiles(): Promise<void> {
+    if (!initialization) {
+        initialization = (async () => {
+            try {
+                const saved = await AsyncStorage.getItem(PROFILES_STORAGE_KEY);
+                if (!saved) {
+                    await migrateSingleChartInstall();
+                    return;
+                }
+                const parsed: Profile[] = JSON.parse(saved);
+                profiles = parsed.length > 0 ? parsed : [DEFAULT_PROFILE];
+
+                const savedActiveId = await AsyncStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY);
+                activeProfileId = profiles.some(profile => profile.id === savedActiveId)
+                    ? savedActiveId!
+                    : profiles[0].id;
+            } catch (error) {
+                console.error('[Profiles] Error loading profiles:', error);
+            }
+        })();
+    }
+    return initialization;
+}
+
+/**
+ * Saves the profile list
+ */
+async function saveProfiles(): Promise<void> {
+    try {
+        await AsyncStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+    } catch (error) {
+        console.error('[Profiles] Error saving profiles:', error);
+    }
+}
+
+/**
+ * Returns the storage key of a profile's data, e.g. its natal chart or events
+ * @param key - Unscoped key
+ * @param profileId - Profile ID, the active profile when missing
+ */
+export async function getProfileStorageKey(key: ProfileStorageKey, profileId?: string): Promise<string> {
+    await initializeProfiles();
+    return toScopedKey(key, profileId);
+}
+
+/**
+ * Reads a value of a profile from AsyncStorage
+ * @param key - Unscoped key
+ * @param profileId - Profile ID, the active profile when missing
+ */
+export async function getProfileItem(key: ProfileStorageKey, profileId?: string): Promise<string | null> {
+    return AsyncStorage.getItem(await getProfileStorageKey(key, profileId));
+}
+
+/**
+ * Writes a value of a profile to AsyncStorage
+ * @param key - Unscoped key
+ * @param value - Value to store
+ * @param profileId - Profile ID, the active profile when missing
+ */
+export async function setProfileItem(key: ProfileStorageKey, value: string, profileId?: string): Promise<void> {
+    await AsyncStorage.setItem(await getProfileStorageKey(key, profileId), value);
+}
+
+/**
+ * Removes a value of a profile from AsyncStorage
+ * @param key - Unscoped key
+ * @param profileId - Profile ID, the active profile when missing
+ */
+export async function removeProfileItem(key: ProfileStorageKey, profileId?: string): Promise<void> {
+    await AsyncStorage.removeItem(await getProfileStorageKey(key, profileId));
+}
+
+/**
+ * Loads the profiles
+ */
+export async function loadProfiles(): Promise<Profile[]> {
+    await initializeProfiles();
+    return profiles;
+}
+
+/**
+ * Loads the profile currently active in the app
+ */
+export async function loadActiveProfile(): Promise<Profile> {
+    await initializeProfiles();
+    return profiles.find(profile => profile.id === activeProfileId) ?? profiles[0];
+}
+
+/**
+ * Makes a profile active and saves the choice
+ * @param profileId - ID of the profile
+ */
+export async function setActiveProfile(profileId: string): Promise<void> {
+    await initializeProfiles();
+    if (!profiles.some(profile => profile.id === profileId)) {
+        console.warn(`[Profiles] Unknown profile: ${profileId}`);
+        return;
+    }
+    activeProfileId = profileId;
+    try {
+        await AsyncStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, profileId);
+    } catch (error) {
+        console.error('[Profiles] Error saving the active profile:', error);
+    }
+}
+
+/**
+ * Creates an empty profile (no birth data or events yet)
+ * @param name - Display name of the person, or of the couple for a relationship chart
+ * @param relationship - Profiles a composite or Davison chart is calculated from
+ * @returns The new profile
+ */
+export async function createProfile(name: string, relationship?: RelationshipChartSource): Promise<Profile> {
+    await initializeProfiles();
+    const profile: Profile = {
+        id: `profile-${Date.now().toString(36)}`,
+        name: name.trim(),
+        createdAt: new Date().toISOString(),
+        ...(relationship ? {relationship} : {}),
+    };
+    profiles = [...profiles, profile];
+    await saveProfiles();
+    return profile;
+}
+
+/**
+ * Deletes a profile with its birth data, chart and events. The last profile cannot be deleted;
+ * when the active profile is deleted, the first remaining one becomes active.
+ * @param profileId - ID of the profile
+ * @returns Whether the profile was deleted
+ */
+export async function deleteProfile(profileId: string): Promise<boolean> {
+    await initializeProfiles();
+    if (profiles.length <= 1 || !profiles.some(profile => profile.id === profileId)) return false;
+
+    profiles = profiles.filter(profile => profile.id !== profileId);
+    await saveProfiles();
+    try {
+        await AsyncStorage.multiRemove(PROFILE_STORAGE_KEYS.map(key => toScopedKey(key, profileId)));
+    } catch (error) {
+        console.error('[Profiles] Error removing profile data:', error);
+    }
+    if (activeProfileId === profileId) {
+        await setActiveProfile(profiles[0].id);
+    }
+    return true;
+}
@@ -0,0 +1,279 @@
+/**
+ * Relationship charts module for the composite and Davison charts of two profiles.
+ *
+ * - Composite: every body, angle and house cusp is the nearer midpoint of the two natal positions
+ * - Davison: an ordinary chart cast for the moment halfway between the two births, at the
+ *   place halfway between the birth places (mean latitude, nearer mean longitude)
+ *
+ * A relationship chart is kept in its own profile in the natal chart format, with the Davison
+ * moment and place as its birth data, so it is shown like a natal chart and transits are
+ * calculated to it like to any natal chart. The composite has no real moment: the Davison
+ * moment only serves as its reference date (e.g. for the ayanamsa) and its aspects have no phase.
+ * Houses are calculated when both birth times are known.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {HouseCusps, HouseSystem, NatalAspects, NatalChartEntry, Profile, RelationshipChartKind} from '../types';
+import {convertToUTC, getZodiacSign} from './api';
+import {loadAspectSettings} from './aspects';
+import {getEphemerisProvider} from './ephemerisProvider';
+import {loadNatalChart, loadNatalHouses} from './eventHelpers';
+import {assignHouses, calculateNatalHouses} from './houses';
+import {calculateNatalAspects} from './natalAspects';
+import {createProfile, deleteProfile, getProfileItem, loadProfiles, removeProfileItem, setProfileItem} from './profiles';
+import {resolveBirthTimeZone, utcToLocalBirthTime} from './timezone';
+import {getZodiacSetting} from './zodiac';
+
+// Display names of the relationship charts
+export const relationshipChartNames: { [kind in RelationshipChartKind]: string } = {
+    composite: 'Composite',
+    davison: 'Davison',
+};
+
+/**
+ * Birth moment and place of a profile
+ */
+interface BirthData {
+    utcDate: Date;
+    latitude: number;
+    longitude: number;
+    birthTimeKnown: boolean;
+}
+
+/**
+ * Relationship chart with its houses, aspects and birth data, as saved in its profile
+ */
+export interface RelationshipChart {
+    chart: NatalChartEntry[];
+    houses: HouseCusps | null;
+    aspects: NatalAspects;
+    birthDate: Date;          // Davison moment with its local wall-clock values, like the natal chart screen's pickers
+    birthTimeKnown: boolean;
+    latitude: number;
+    longitude: number;
+}
+
+/**
+ * Nearer midpoint of two longitudes (0-360)
+ */
+function getMidpoint(first: number, second: number): number {
+    const diff = ((second - first) % 360 + 540) % 360 - 180;
+    return ((first + diff / 2) % 360 + 360) % 360;
+}
+
+/**
+ * Loads the birth moment and place of a profile, as entered on the natal chart screen
+ * (the Davison moment and place for relationship charts)
+ */
+export async function loadBirthData(profileId: string): Promise<BirthData | null> {
+    const savedBirthDate = await getProfileItem('birthDate', profileId);
+    const savedBirthTime = await getProfileItem('birthTime', profileId);
+    const savedLatitude = await getProfileItem('birthLatitude', profileId);
+    const savedLongitude = await getProfileItem('birthLongitude', profileId);
+    if (!savedBirthDate || !savedBirthTime || !savedLatitude || !savedLongitude) return null;
+
+    // The pickers keep the wall-clock values, an unknown birth time is noon
+    const birthDate = new Date(savedBirthDate);
+    const birthTime = new Date(savedBirthTime);
+    const birthTimeKnown = (await getProfileItem('birthTimeKnown', profileId)) !== 'false';
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const time = birthTimeKnown ? `${pad(birthTime.getHours())}:${pad(birthTime.getMinutes())}` : '12:00';
+    const localBirthDate = `${birthDate.getFullYear()}-${pad(birthDate.getMonth() + 1)}-${pad(birthDate.getDate())}T${time}`;
+
+    const latitude = parseFloat(savedLatitude);
+    const longitude = parseFloat(savedLongitude);
+    return {utcDate: convertToUTC(localBirthDate, latitude, longitude), latitude, longitude, birthTimeKnown};
+}
+
+/**
+ * Loads the house system selected on the natal chart screen
+ */
+async function loadHouseSystem(): Promise<HouseSystem> {
+    const saved = await AsyncStorage.getItem('houseSystem');
+    return (saved as HouseSystem | null) ?? 'placidus';
+}
+
+/**
+ * Moment and place halfway between two births
+ * @param first - Birth data of the first person
+ * @param second - Birth data of the second person
+ */
+export function getDavisonMoment(
+    first: { utcDate: Date; latitude: number; longitude: number },
+    second: { utcDate: Date; latitude: number; longitude: number }
+): { utcDate: Date; latitude: number; longitude: number } {
+    const longitude = getMidpoint(first.longitude, second.longitude);
+    return {
+        utcDate: new Date((first.utcDate.getTime() + second.utcDate.getTime()) / 2),
+        latitude: (first.latitude + second.latitude) / 2,
+        longitude: longitude > 180 ? longitude - 360 : longitude,
+    };
+}
+
+/**
+ * Calculates the composite chart of two natal charts.
+ *
+ * @param firstChart - Natal chart of the first person
+ * @param secondChart - Natal chart of the second person
+ * @param firstHouses - Houses of the first chart, null when its birth time is unknown
+ * @param secondHouses - Houses of the second chart, null when its birth time is unknown
+ * @param referenceDate - Moment the signs are assigned for (the ayanamsa of sidereal zodiacs)
+ * @returns Midpoint chart of the bodies in both charts, with midpoint houses when both charts have houses
+ */
+export function calculateCompositeChart(
+    firstChart: NatalChartEntry[],
+    secondChart: NatalChartEntry[],
+    firstHouses: HouseCusps | null,
+    secondHouses: HouseCusps | null,
+    referenceDate: Date
+): { chart: NatalChartEntry[]; houses: HouseCusps | null } {
+    const zodiac = getZodiacSetting();
+    const chart: NatalChartEntry[] = [];
+    for (const first of firstChart) {
+        const second = secondChart.find(entry => entry.name === first.name);
+        if (!second) continue;
+
+        const longitude = getMidpoint(first.longitude, second.longitude);
+        const position = getZodiacSign(longitude, referenceDate, zodiac);
+        chart.push({
+            name: first.name,
+            longitude,
+            sign: position.sign,
+            degreeInSign: position.degree,
+            zodiac,
+            status: 'ok',
+        });
+    }
+
+    if (!firstHouses || !secondHouses) return {chart, houses: null};
+
+    const houses: HouseCusps = {
+        system: firstHouses.system,
+        ascendant: getMidpoint(firstHouses.ascendant, secondHouses.ascendant),
+        midheaven: getMidpoint(firstHouses.midheaven, secondHouses.midheaven),
+        cusps: firstHouses.cusps.map((cusp, index) => getMidpoint(cusp, secondHouses.cusps[index])),
+    };
+    return {chart: assignHouses(chart, houses), houses};
+}
+
+/**
+ * Calculates the relationship chart of a profile from its two source profiles and saves it,
+ * with the Davison moment and place as its birth data.
+ *
+ * @param profile - Profile holding the relationship chart
+ * @returns The saved chart, houses, aspects and birth data
+ * @throws Error when a source profile or its natal chart or birth data is missing
+ */
+export async function calculateRelationshipChart(profile: Profile): Promise<RelationshipChart> {
+    if (!profile.relationship) {
+        throw new Error(`${profile.name} is not a relationship chart`);
+    }
+    const {kind, firstProfileId, secondProfileId} = profile.relationship;
+    const profiles = await loadProfiles();
+    const sources = [firstProfileId, secondProfileId].map(id => profiles.find(source => source.id === id));
+    if (sources.some(source => !source)) {
+        throw new Error('One of the profiles this chart was calculated from has been deleted.');
+    }
+
+    const [firstChart, secondChart] = [await loadNatalChart(firstProfileId), await loadNatalChart(secondProfileId)];
+    const [firstBirth, secondBirth] = [await loadBirthData(firstProfileId), await loadBirthData(secondProfileId)];
+    if (!firstChart || !secondChart || !firstBirth || !secondBirth) {
+        const missing = sources.filter((source, index) => !(index === 0 ? firstChart && firstBirth : secondChart && secondBirth));
+        const names = missing.map(source => source!.name).join(' and ');
+        throw new Error(`${names} ${missing.length > 1 ? 'have' : 'has'} no complete natal chart yet.`);
+    }
+
+    const birthTimeKnown = firstBirth.birthTimeKnown && secondBirth.birthTimeKnown;
+    const davison = getDavisonMoment(firstBirth, secondBirth);
+    const localBirthDate = utcToLocalBirthTime(davison.utcDate, davison.latitude, davison.longitude);
+
+    let chart: NatalChartEntry[];
+    let houses: HouseCusps | null = null;
+    let aspects: NatalAspects;
+    const settings = await loadAspectSettings();
+
+    if (kind === 'composite') {
+        const composite = calculateCompositeChart(
+            firstChart,
+            secondChart,
+            birthTimeKnown ? await loadNatalHouses(firstProfileId) : null,
+            birthTimeKnown ? await loadNatalHouses(secondProfileId) : null,
+            davison.utcDate
+        );
+        chart = composite.chart;
+        houses = composite.houses;
+        // The composite positions never moved, so their aspects are neither applying nor separating
+        aspects = calculateNatalAspects(chart, null, settings);
+    } else {
+        chart = await getEphemerisProvider().getNatalSnapshot(localBirthDate, davison.latitude, davison.longitude);
+        if (birthTimeKnown) {
+            houses = calculateNatalHouses(localBirthDate, davison.latitude, davison.longitude, await loadHouseSystem());
+            chart = assignHouses(chart, houses);
+        }
+        aspects = calculateNatalAspects(chart, davison.utcDate, settings);
+    }
+
+    // Birth data in the form the natal chart screen saves it (wall-clock values of the pickers)
+    const [datePart, timePart] = localBirthDate.split('T');
+    const [year, month, day] = datePart.split('-').map(Number);
+    const [hours, minutes] = timePart.split(':').map(Number);
+    const localDate = new Date(year, month - 1, day, hours, minutes);
+
+    await setProfileItem('natalChart', JSON.stringify(chart), profile.id);
+    if (houses) {
+        await setProfileItem('natalHouses', JSON.stringify(houses), profile.id);
+    } else {
+        await removeProfileItem('natalHouses', profile.id);
+    }
+    await setProfileItem('natalAspects', JSON.stringify(aspects), profile.id);
+    await setProfileItem('birthDate', localDate.toISOString(), profile.id);
+    await setProfileItem('birthTime', localDate.toISOString(), profile.id);
+    await setProfileItem('birthTimeKnown', String(birthTimeKnown), profile.id);
+    await setProfileItem('birthLatitude', String(davison.latitude), profile.id);
+    await setProfileItem('birthLongitude', String(davison.longitude), profile.id);
+    await setProfileItem('birthLocationName', `Midpoint of ${sources.map(source => source!.name).join(' and ')}'s birth places`, profile.id);
+    await setProfileItem(
+        'birthTimeZone',
+        JSON.stringify(resolveBirthTimeZone(localBirthDate, davison.latitude, davison.longitude)),
+        profile.id
+    );
+
+    console.log(`[RelationshipCharts] Calculated the ${relationshipChartNames[kind]} chart of ${profile.name}`);
+    return {
+        chart,
+        houses,
+        aspects,
+        birthDate: localDate,
+        birthTimeKnown,
+        latitude: davison.latitude,
+        longitude: davison.longitude,
+    };
+}
+
+/**
+ * Creates a profile holding the relationship chart of two profiles and calculates the chart.
+ * The profile is removed again when the chart cannot be calculated.
+ *
+ * @param kind - Composite or Davison
+ * @param first - Profile of the first person
+ * @param second - Profile of the second person
+ * @returns The new profile
+ * @throws Error when the chart cannot be calculated
+ */
+export async function createRelationshipProfile(
+    kind: RelationshipChartKind,
+    first: Profile,
+    second: Profile
+): Promise<Profile> {
+    const profile = await createProfile(
+        `${first.name} & ${second.name} (${relationshipChartNames[kind]})`,
+        {kind, firstProfileId: first.id, secondProfileId: second.id}
+    );
+    try {
+        await calculateRelationshipChart(profile);
+    } catch (error) {
+        await deleteProfile(profile.id);
+        throw error;
+    }
+    return profile;
+}
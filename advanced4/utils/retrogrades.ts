@@ -0,0 +1,108 @@
+/**
+ * Retrograde module for detecting planetary stations and retrograde periods.
+ *
+ * A planet stations when its apparent geocentric motion in longitude changes sign.
+ * Stations are found in the daily longitude series returned by getPlanetPositions
+ * and refined to sub-day precision by fitting a parabola through the three samples
+ * around the turning point (Meeus, chapter 3).
+ */
+
+import {RetrogradePeriod, StationEvent} from '../types';
+
+const DAY_MS = 86400000;
+
+/**
+ * Converts a daily position date (YYYY-MM-DD, 0h UT) to a timestamp.
+ */
+function toTimestamp(date: string): number {
+    return new Date(`${date.split('T')[0]}T00:00:00Z`).getTime();
+}
+
+/**
+ * Signed change in longitude between two positions, handling the 360° wrap (degrees).
+ */
+function getMotion(fromLongitude: number, toLongitude: number): number {
+    return ((toLongitude - fromLongitude + 540) % 360) - 180;
+}
+
+/**
+ * Finds the stations of a planet in a daily longitude series.
+ * Stations on the first or last day of the series cannot be detected.
+ * @param planet - Name of the planet
+ * @param positions - Daily apparent ecliptic longitudes, in date order
+ * @returns Stations in date order
+ */
+export function findStations(planet: string, positions: { date: string; longitude: number }[]): StationEvent[] {
+    const stations: StationEvent[] = [];
+
+    for (let i = 1; i < positions.length - 1; i++) {
+        const a = getMotion(positions[i - 1].longitude, positions[i].longitude);
+        const b = getMotion(positions[i].longitude, positions[i + 1].longitude);
+
+        let direction: StationEvent['direction'] | null = null;
+        if (a > 0 && b <= 0) direction = 'retrograde';
+        if (a < 0 && b >= 0) direction = 'direct';
+        if (!direction) continue;
+
+        // Extremum of the parabola through the three samples, as a fraction of a day from sample i
+        const c = b - a;
+        const offset = c === 0 ? 0 : Math.max(-1, Math.min(1, -(a + b) / (2 * c)));
+        const longitude = positions[i].longitude + offset / 2 * (a + b + offset * c);
+
+        stations.push({
+            planet,
+            direction,
+            date: new Date(toTimestamp(positions[i].date) + offset * DAY_MS).toISOString(),
+            longitude: ((longitude % 360) + 360) % 360,
+        });
+    }
+    return stations;
+}
+
+/**
+ * Finds the retrograde periods of a planet in a daily longitude series.
+ * @param planet - Name of the planet
+ * @param positions - Daily apparent ecliptic longitudes, in date order
+ * @param stations - Stations of the planet in the series, found when missing
+ * @returns Retrograde periods in date order, clipped to the series
+ */
+export function findRetrogradePeriods(
+    planet: string,
+    positions: { date: string; longitude: number }[],
+    stations: StationEvent[] = findStations(planet, positions)
+): RetrogradePeriod[] {
+    if (positions.length < 2) return [];
+
+    const periods: RetrogradePeriod[] = [];
+    const rangeStart = new Date(toTimestamp(positions[0].date)).toISOString();
+    const rangeEnd = new Date(toTimestamp(positions[positions.length - 1].date)).toISOString();
+
+    // The series may start while the planet is already retrograde
+    let start: string | null = getMotion(positions[0].longitude, positions[1].longitude) < 0 ? rangeStart : null;
+    for (const station of stations) {
+        if (station.direction === 'retrograde') {
+            start = station.date;
+        } else {
+            periods.push({planet, start: start ?? rangeStart, end: station.date});
+            start = null;
+        }
+    }
+    if (start) {
+        periods.push({planet, start, end: rangeEnd});
+    }
+    return periods;
+}
+
+/**
+ * Checks whether a time window overlaps any retrograde period.
+ * @param periods - Retrograde periods of the planet
+ * @param startDate - Window start in ISO format
+ * @param endDate - Window end in ISO format (the whole day is included)
+ */
+export function includesRetrogradePass(periods: RetrogradePeriod[], startDate: string, endDate: string): boolean {
+    const windowStart = toTimestamp(startDate);
+    const windowEnd = toTimestamp(endDate) + DAY_MS;
+    return periods.some(period =>
+        new Date(period.start).getTime() < windowEnd && new Date(period.end).getTime() > windowStart
+    );
+}
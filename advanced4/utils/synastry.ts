@@ -0,0 +1,114 @@
+/**
+ * Synastry module for comparing the natal charts of two people.
+ *
+ * Every body of the first chart is checked against every body of the second with the
+ * user's aspects and orbs, scaled by a synastry orb factor since contacts between charts
+ * are usually read with tighter orbs. The Ascendant and Midheaven take part when the
+ * birth time of their chart is known, and then the other person's bodies are also placed
+ * in that chart's houses (house overlays).
+ *
+ * The summary counts the harmonious (positive) and challenging (negative) contacts and
+ * weighs them by how close they are to exact.
+ */
+
+import {AspectSettings, AspectType, HouseCusps, HouseOverlay, NatalChartEntry, SynastryAspect, SynastryResult} from '../types';
+import {DEFAULT_ASPECT_SETTINGS, getAspectInfluence, getAspectOrb, getEnabledAspects} from './aspects';
+import {checkForAspect} from './eventHelpers';
+import {getHousePlacement, getNatalAngles} from './houses';
+
+// Weight of a contact at the edge of its orb, relative to an exact one
+const EDGE_WEIGHT = 0.5;
+
+/**
+ * Bodies of a chart that take part in the comparison, with the angles when the houses are known
+ */
+function getSynastryPoints(chart: NatalChartEntry[], houses: HouseCusps | null): { name: string; longitude: number }[] {
+    const bodies = chart
+        .filter(entry => entry.status !== 'failed' && entry.sign !== 'Unknown')
+        .map(entry => ({name: entry.name, longitude: entry.longitude}));
+    return houses ? [...bodies, ...getNatalAngles(houses)] : bodies;
+}
+
+/**
+ * Places the bodies of one chart in the houses of another
+ * @param chart - Chart whose bodies are placed
+ * @param houses - Houses of the other chart, or null when its birth time is unknown
+ */
+export function calculateHouseOverlays(chart: NatalChartEntry[], houses: HouseCusps | null): HouseOverlay[] | null {
+    if (!houses) return null;
+    return chart
+        .filter(entry => entry.status !== 'failed' && entry.sign !== 'Unknown')
+        .map(entry => ({body: entry.name, house: getHousePlacement(entry.longitude, houses.cusps)}));
+}
+
+/**
+ * Compares two natal charts.
+ *
+ * @param firstChart - Natal chart of the first person
+ * @param secondChart - Natal chart of the second person
+ * @param firstHouses - Houses of the first chart, null when its birth time is unknown
+ * @param secondHouses - Houses of the second chart, null when its birth time is unknown
+ * @param settings - Aspects and orbs, the defaults when missing
+ * @param orbScale - Factor applied to every orb (e.g. 0.75 for tighter synastry orbs)
+ * @returns Inter-chart aspects, house overlays in both directions and the harmony summary
+ */
+export function calculateSynastry(
+    firstChart: NatalChartEntry[],
+    secondChart: NatalChartEntry[],
+    firstHouses: HouseCusps | null,
+    secondHouses: HouseCusps | null,
+    settings: AspectSettings = DEFAULT_ASPECT_SETTINGS,
+    orbScale: number = 1
+): SynastryResult {
+    const aspectDefinitions = getEnabledAspects(settings);
+    const firstPoints = getSynastryPoints(firstChart, firstHouses);
+    const secondPoints = getSynastryPoints(secondChart, secondHouses);
+
+    const aspects: SynastryAspect[] = [];
+    let positiveWeight = 0;
+    let negativeWeight = 0;
+
+    for (const first of firstPoints) {
+        for (const second of secondPoints) {
+            let tightest: { aspectType: AspectType; orb: number; allowed: number } | null = null;
+            for (const aspect of aspectDefinitions) {
+                const allowed = getAspectOrb(aspect.type, first.name, second.name, settings) * orbScale;
+                // The aspect can be measured in either direction around the zodiac
+                const forward = checkForAspect(first.longitude, second.longitude, aspect.angle, allowed);
+                const backward = checkForAspect(second.longitude, first.longitude, aspect.angle, allowed);
+                const diff = Math.min(forward ?? Infinity, backward ?? Infinity);
+                if (diff !== Infinity && (!tightest || diff < tightest.orb)) {
+                    tightest = {aspectType: aspect.type, orb: diff, allowed};
+                }
+            }
+            if (!tightest) continue;
+
+            const influence = getAspectInfluence(tightest.aspectType, settings);
+            const weight = 1 - (1 - EDGE_WEIGHT) * (tightest.allowed > 0 ? tightest.orb / tightest.allowed : 0);
+            if (influence === 'positive') {
+                positiveWeight += weight;
+            } else {
+                negativeWeight += weight;
+            }
+
+            aspects.push({
+                firstBody: first.name,
+                secondBody: second.name,
+                aspectType: tightest.aspectType,
+                orb: Math.round(tightest.orb * 100) / 100,
+                influence,
+            });
+        }
+    }
+    aspects.sort((a, b) => a.orb - b.orb);
+
+    const totalWeight = positiveWeight + negativeWeight;
+    return {
+        aspects,
+        firstInSecondHouses: calculateHouseOverlays(firstChart, secondHouses),
+        secondInFirstHouses: calculateHouseOverlays(secondChart, firstHouses),
+        harmonious: aspects.filter(aspect => aspect.influence === 'positive').length,
+        challenging: aspects.filter(aspect => aspect.influence === 'negative').length,
+        harmony: totalWeight > 0 ? Math.round(positiveWeight / totalWeight * 100) : 50,
+    };
+}
@@ -0,0 +1,107 @@
+/**
+ * Time zone module for resolving local birth times to UTC.
+ *
+ * The IANA zone is found offline from the birth coordinates with a polygon lookup
+ * (tz-lookup), and the UTC offset in effect at the birth moment is taken from the
+ * embedded IANA database shipped with moment-timezone, so daylight saving time and
+ * historical offset changes are respected.
+ */
+
+import tzlookup from '@photostructure/tz-lookup';
+import moment from 'moment-timezone';
+import {BirthTimeZone} from '../types';
+
+// Format of local birth date strings produced by NatalChartScreen
+const LOCAL_DATE_TIME_FORMAT = 'YYYY-MM-DDTHH:mm';
+
+/**
+ * Builds a fixed-offset Etc/GMT zone from longitude, used when the polygon lookup fails.
+ * Note: Etc/GMT zones have inverted signs (Etc/GMT-3 is UTC+3).
+ * @param longitude - Geographic longitude in degrees
+ */
+function getNauticalTimeZone(longitude: number): string {
+    const hours = Math.max(-12, Math.min(12, Math.round(longitude / 15)));
+    if (hours === 0) return 'Etc/GMT';
+    return hours > 0 ? `Etc/GMT-${hours}` : `Etc/GMT+${-hours}`;
+}
+
+/**
+ * Finds the IANA time zone for a geographic location.
+ * @param latitude - Geographic latitude in degrees
+ * @param longitude - Geographic longitude in degrees
+ * @returns IANA zone name (e.g. "Asia/Kolkata")
+ */
+export function lookupTimeZone(latitude: number, longitude: number): string {
+    try {
+        const zone = tzlookup(latitude, longitude);
+        if (moment.tz.zone(zone)) {
+            return zone;
+        }
+        console.warn(`[TimeZone] Zone ${zone} is missing from the time zone database`);
+    } catch (error) {
+        console.warn(`[TimeZone] Lookup failed for ${latitude}, ${longitude}:`, error);
+    }
+    return getNauticalTimeZone(longitude);
+}
+
+/**
+ * Resolves the time zone and UTC offset in effect for a local birth time at a location.
+ * @param birthDate - Local birth date and time (YYYY-MM-DDTHH:mm)
+ * @param latitude - Geographic latitude in degrees
+ * @param longitude - Geographic longitude in degrees
+ * @returns Resolved zone with offset and abbreviation
+ * @throws Error if the birth date string is invalid
+ */
+export function resolveBirthTimeZone(birthDate: string, latitude: number, longitude: number): BirthTimeZone {
+    const zone = lookupTimeZone(latitude, longitude);
+    const localTime = moment.tz(birthDate, LOCAL_DATE_TIME_FORMAT, zone);
+    if (!localTime.isValid()) {
+        throw new Error(`Invalid birth date: ${birthDate}`);
+    }
+    return {
+        zone,
+        offsetMinutes: localTime.utcOffset(),
+        abbreviation: localTime.zoneAbbr(),
+    };
+}
+
+/**
+ * Converts a local birth time at a location to the corresponding UTC moment.
+ * Local times skipped by a daylight saving transition are moved forward by moment-timezone.
+ * @param birthDate - Local birth date and time (YYYY-MM-DDTHH:mm)
+ * @param latitude - Geographic latitude in degrees
+ * @param longitude - Geographic longitude in degrees
+ * @returns Date object for the UTC moment of birth
+ * @throws Error if the birth date string is invalid
+ */
+export function localBirthTimeToUTC(birthDate: string, latitude: number, longitude: number): Date {
+    const zone = lookupTimeZone(latitude, longitude);
+    const localTime = moment.tz(birthDate, LOCAL_DATE_TIME_FORMAT, zone);
+    if (!localTime.isValid()) {
+        throw new Error(`Invalid birth date: ${birthDate}`);
+    }
+    return localTime.toDate();
+}
+
+/**
+ * Converts a UTC moment to the local date and time at a location, the inverse of localBirthTimeToUTC.
+ * @param utcDate - UTC moment
+ * @param latitude - Geographic latitude in degrees
+ * @param longitude - Geographic longitude in degrees
+ * @returns Local date and time (YYYY-MM-DDTHH:mm)
+ */
+export function utcToLocalBirthTime(utcDate: Date, latitude: number, longitude: number): string {
+    return moment.tz(utcDate, lookupTimeZone(latitude, longitude)).format(LOCAL_DATE_TIME_FORMAT);
+}
+
+/**
+ * Formats a UTC offset for display (e.g. "UTC+05:30").
+ * @param offsetMinutes - Offset from UTC in minutes
+ */
+export function formatUtcOffset(offsetMinutes: number): string {
+    const sign = offsetMinutes < 0 ? '-' : '+';
+    const absolute = Math.abs(offsetMinutes);
+    const hours = String(Math.floor(absolute / 60)).padStart(2, '0');
+    const minutes = String(absolute % 60).padStart(2, '0');
+    return `UTC${sign}${hours}:${minutes}`;
+}
@@ -0,0 +1,299 @@
+/**
+ * Transit engine module for calculating transit events to a natal chart.
+ *
+ * The engine takes a natal chart, a source of daily planet positions and options,
+ * and returns transit and station events. Natal points are the natal bodies, the
+ * chart angles when the birth time is known, and optionally the lunar nodes. It has no UI or storage dependencies:
+ * given the same positions and options it always returns the same events, so it
+ * can run in a screen, a Node script, a background task or a test with fixture
+ * positions.
+ *
+ * - calculateTransitEvents works on positions that are already available (pure)
+ * - runTransitEngine fetches the positions from a source and then calculates; bodies
+ *   whose positions cannot be fetched are left out and reported with the events
+ */
+
+import {AspectSettings, BodyDefinition, Event, FailedBody, NatalChartEntry, StationEvent, ZodiacType} from '../types';
+import {EphemerisProvider} from './ephemerisProvider';
+import {describeHorizonsError} from './horizonsParser';
+import {getZodiacSign} from './api';
+import {getBodyByName, getStationingBodies, getTransitingBodies} from './bodies';
+import {checkForAspect, createStationEvent, createTransitEvent} from './eventHelpers';
+import {DEFAULT_ASPECT_SETTINGS, getAspectInfluence, getAspectOffsets, getAspectOrb, getEnabledAspects} from './aspects';
+import {findRetrogradePeriods, findStations, includesRetrogradePass} from './retrogrades';
+import {LongitudeSample, refineAspectTiming, toLongitudeSeries} from './aspectTiming';
+import {groupTransitWindows, toTransitPasses, TransitWindow} from './transitPasses';
+import {calculateTransitDays} from './transitIntensity';
+
+/**
+ * Apparent longitudes of one body: daily (YYYY-MM-DD) or sub-daily (ISO times) samples
+ */
+export type PositionSeries = { date: string; longitude: number }[];
+
+/**
+ * Natal body or angle that can receive transits
+ */
+export type NatalPoint = Pick<NatalChartEntry, 'name' | 'longitude'>;
+
+/**
+ * Anything that can provide daily positions, e.g. an ephemeris provider or a fixture
+ */
+export type PositionSource = Pick<EphemerisProvider, 'getPlanetPositions' | 'getPlanetPositionSamples'>;
+
+/**
+ * Options of a transit calculation on available positions
+ */
+export interface TransitScanOptions {
+    zodiac: ZodiacType;                 // Zodiac of the signs stored with the events
+    aspectSettings?: AspectSettings;    // Aspects, orbs and influences, the defaults when missing
+    excludedNatalBodies?: string[];     // Natal points that receive no transits
+    includeNatalNodes?: boolean;        // Whether the natal lunar nodes receive transits (default false)
+    includeStations?: boolean;          // Whether station events are added (default true)
+}
+
+/**
+ * Options of a full engine run, including the range and bodies to fetch
+ */
+export interface TransitEngineOptions extends TransitScanOptions {
+    startDate: string;                  // Start of the range (ISO)
+    endDate: string;                    // End of the range (ISO)
+    transitBodies?: BodyDefinition[];   // Transiting bodies, the registry's when missing
+}
+
+/**
+ * Positions of the transiting bodies and the bodies whose positions could not be fetched
+ */
+export interface TransitPositions {
+    transitData: Record<string, PositionSeries>;
+    failedBodies: FailedBody[];
+}
+
+/**
+ * Events of a transit or mundane engine run and the bodies left out because their positions could not be fetched
+ */
+export interface EngineResult {
+    events: Event[];
+    failedBodies: FailedBody[];
+}
+
+// Registry IDs of the lunar nodes, which only receive transits on request
+const LUNAR_NODE_IDS = ['meanNode', 'trueNode'];
+
+/**
+ * Fetches the positions of the transiting bodies over a date range, sub-daily for fast bodies.
+ * A body whose positions cannot be fetched is reported as failed and the others are still fetched.
+ * @param source - Source of the positions
+ * @param bodies - Bodies to fetch
+ * @param startDate - Start of the range (ISO)
+ * @param endDate - End of the range (ISO)
+ * @returns Positions keyed by body name and the failed bodies
+ */
+export async function fetchTransitPositions(
+    source: PositionSource,
+    bodies: BodyDefinition[],
+    startDate: string,
+    endDate: string
+): Promise<TransitPositions> {
+    const transitData: Record<string, PositionSeries> = {};
+    const failedBodies: FailedBody[] = [];
+    for (const body of bodies) {
+        try {
+            transitData[body.name] = body.transitSamplesPerDay && body.transitSamplesPerDay > 1
+                ? await source.getPlanetPositionSamples(body.id, startDate, endDate, body.transitSamplesPerDay)
+                : await source.getPlanetPositions(body.id, startDate, endDate);
+        } catch (error) {
+            failedBodies.push({name: body.name, error: describeHorizonsError(error)});
+        }
+    }
+    return {transitData, failedBodies};
+}
+
+/**
+ * Finds the windows of consecutive samples during which an aspect to a natal point is within its orb,
+ * each refined to the minute
+ * @param positions - Positions of the transit planet
+ * @param natalLongitude - Longitude of the natal point in degrees
+ * @param aspectAngle - Angle of the transit planet ahead of the natal point in degrees (an offset of getAspectOffsets)
+ * @param orb - Orb of the aspect in degrees
+ * @param series - Continuous longitudes of the positions, built from them when missing
+ * @returns Orb windows in date order
+ */
+export function findTransitWindows(
+    positions: PositionSeries,
+    natalLongitude: number,
+    aspectAngle: number,
+    orb: number,
+    series: LongitudeSample[] = toLongitudeSeries(positions)
+): TransitWindow[] {
+    const windows: TransitWindow[] = [];
+    let active: { startDate: string; endDate: string; peakDate: string; peakDiff: number } | null = null;
+
+    // Refines the open orb window to the minute and closes it
+    const closeWindow = () => {
+        if (!active) return;
+        windows.push({
+            startDate: active.startDate,
+            endDate: active.endDate,
+            timing: refineAspectTiming(
+                series,
+                natalLongitude,
+                aspectAngle,
+                orb,
+                active.startDate,
+                active.endDate,
+                active.peakDate
+            ),
+        });
+        active = null;
+    };
+
+    for (const position of positions) {
+        const diff = checkForAspect(natalLongitude, position.longitude, aspectAngle, orb);
+
+        if (diff === null) {
+            closeWindow();
+        } else if (!active) {
+            active = {startDate: position.date, endDate: position.date, peakDate: position.date, peakDiff: diff};
+        } else {
+            active.endDate = position.date;
+            if (diff < active.peakDiff) {
+                active.peakDate = position.date;
+                active.peakDiff = diff;
+            }
+        }
+    }
+    closeWindow();
+
+    return windows;
+}
+
+/**
+ * Calculates transit and station events from positions that are already available.
+ *
+ * @param natalPoints - Natal bodies and angles receiving the transits
+ * @param transitData - Positions keyed by transit body name
+ * @param options - Zodiac, aspect settings and exclusions
+ * @returns Transit events (natal point, transit planet and aspect order) followed by station events
+ */
+export function calculateTransitEvents(
+    natalPoints: NatalPoint[],
+    transitData: Record<string, PositionSeries>,
+    options: TransitScanOptions
+): Event[] {
+    const aspectSettings = options.aspectSettings ?? DEFAULT_ASPECT_SETTINGS;
+    const aspects = getEnabledAspects(aspectSettings);
+    const excludedNatalBodies = options.excludedNatalBodies ?? [];
+    const transitEvents: Event[] = [];
+
+    // Continuous longitudes and stations of each transit body, shared by all natal points and aspects
+    const transitBodies: Record<string, { series: LongitudeSample[]; stations: StationEvent[] }> = {};
+    for (const [transitPlanet, transitPositions] of Object.entries(transitData)) {
+        if (!transitPositions || transitPositions.length === 0) continue;
+        transitBodies[transitPlanet] = {
+            series: toLongitudeSeries(transitPositions),
+            stations: findStations(transitPlanet, transitPositions),
+        };
+    }
+
+    natalPoints.forEach((natalPlanet) => {
+        if (excludedNatalBodies.includes(natalPlanet.name)) return;
+        if (!options.includeNatalNodes && LUNAR_NODE_IDS.includes(getBodyByName(natalPlanet.name)?.id ?? '')) return;
+
+        Object.entries(transitData).forEach(([transitPlanet, transitPositions]) => {
+            if (!transitBodies[transitPlanet]) return;
+            const {series, stations} = transitBodies[transitPlanet];
+
+            aspects.forEach((aspect) => {
+                const orb = getAspectOrb(aspect.type, transitPlanet, natalPlanet.name, aspectSettings);
+
+                // The transit planet forms asymmetric aspects on both sides of the natal point (waxing and waning)
+                getAspectOffsets(aspect.angle).forEach((offset) => {
+                    const windows = findTransitWindows(
+                        transitPositions,
+                        natalPlanet.longitude,
+                        offset,
+                        orb,
+                        series
+                    );
+
+                    // Windows separated by a station of the transit planet are passes of one transit
+                    groupTransitWindows(windows, stations).forEach((group) => {
+                        // Event dates are calendar days, also for windows found on sub-daily samples
+                        const startDate = group[0].startDate.split('T')[0];
+                        const endDate = group[group.length - 1].endDate.split('T')[0];
+                        const hits = group.flatMap(window => window.timing.hits);
+                        const peakHit = hits.find(hit => hit.perfects) ?? hits[0];
+                        transitEvents.push(
+                            createTransitEvent(
+                                natalPlanet.name,
+                                transitPlanet,
+                                aspect.type,
+                                startDate,
+                                endDate,
+                                peakHit.time.split('T')[0],
+                                getAspectInfluence(aspect.type, aspectSettings),
+                                getZodiacSign(peakHit.longitude, new Date(peakHit.time), options.zodiac).sign,
+                                toTransitPasses(group),
+                                calculateTransitDays(
+                                    transitPositions,
+                                    transitPlanet,
+                                    natalPlanet.longitude,
+                                    offset,
+                                    orb,
+                                    startDate,
+                                    endDate
+                                )
+                            )
+                        );
+                    });
+                });
+            });
+        });
+    });
+
+    // Stations and retrograde periods of the transiting bodies that can turn retrograde
+    const stationEvents: Event[] = [];
+    for (const body of getStationingBodies().filter(body => transitBodies[body.name])) {
+        const {stations} = transitBodies[body.name];
+        const retrogradePeriods = findRetrogradePeriods(body.name, transitData[body.name], stations);
+
+        // Mark transits whose window includes a retrograde pass of the transit planet
+        transitEvents.forEach((event) => {
+            if (event.transitEvent?.transitPlanet === body.name) {
+                event.transitEvent.includesRetrograde = includesRetrogradePass(
+                    retrogradePeriods,
+                    event.startDate,
+                    event.endDate
+                );
+            }
+        });
+
+        if (options.includeStations === false) continue;
+        for (const station of stations) {
+            stationEvents.push(createStationEvent({
+                ...station,
+                sign: getZodiacSign(station.longitude, new Date(station.date), options.zodiac).sign,
+            }));
+        }
+    }
+
+    return [...transitEvents, ...stationEvents];
+}
+
+/**
+ * Fetches the positions of the transiting bodies and calculates the transit events.
+ *
+ * @param natalPoints - Natal bodies and angles receiving the transits
+ * @param source - Source of the daily positions
+ * @param options - Range, bodies, zodiac and aspect settings
+ * @returns Transit and station events of the fetched bodies and the bodies that failed
+ */
+export async function runTransitEngine(
+    natalPoints: NatalPoint[],
+    source: PositionSource,
+    options: TransitEngineOptions
+): Promise<EngineResult> {
+    const bodies = options.transitBodies ?? getTransitingBodies();
+    const {transitData, failedBodies} = await fetchTransitPositions(source, bodies, options.startDate, options.endDate);
+    return {events: calculateTransitEvents(natalPoints, transitData, options), failedBodies};
+}
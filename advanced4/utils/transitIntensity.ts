@@ -0,0 +1,108 @@
+/**
+ * Transit intensity module for the day-by-day strength of a transit.
+ *
+ * For every day of a transit window the distance from the exact aspect (orb) is
+ * taken from the positions (the closest sample of the day for sub-daily positions), the phase tells whether the aspect is applying
+ * (getting closer) or separating, and the intensity combines a smooth orb falloff
+ * (1 when exact, 0 at the edge of the orb) with the weight of the transit planet.
+ */
+
+import {TransitDay} from '../types';
+import {getBodyByName} from './bodies';
+
+// Weight of bodies without a transit weight in the registry
+const DEFAULT_TRANSIT_WEIGHT = 0.5;
+
+/**
+ * Signed distance from the exact aspect in degrees (-180 to 180).
+ */
+function getDeviation(transitLongitude: number, natalLongitude: number, aspectAngle: number): number {
+    return ((transitLongitude - natalLongitude - aspectAngle) % 360 + 540) % 360 - 180;
+}
+
+/**
+ * Index of the first position on or after a day, by binary search (positions are in date order).
+ */
+function findFirstIndex(positions: { date: string; longitude: number }[], day: string): number {
+    let low = 0;
+    let high = positions.length;
+    while (low < high) {
+        const middle = Math.floor((low + high) / 2);
+        if (positions[middle].date < day) {
+            low = middle + 1;
+        } else {
+            high = middle;
+        }
+    }
+    return low;
+}
+
+/**
+ * Strength of an aspect at a given orb: a cosine falloff from 1 (exact) to 0 (edge of the orb)
+ * @param orb - Distance from the exact aspect in degrees
+ * @param maxOrb - Orb of the aspect in degrees
+ */
+export function getOrbFalloff(orb: number, maxOrb: number): number {
+    if (maxOrb <= 0 || orb >= maxOrb) return 0;
+    return (1 + Math.cos(Math.PI * orb / maxOrb)) / 2;
+}
+
+/**
+ * Calculates orb, phase and intensity for each day of a transit window.
+ *
+ * @param positions - Apparent longitudes of the transit planet, daily or sub-daily
+ * @param transitPlanet - Name of the transit planet, used for its weight
+ * @param natalLongitude - Longitude of the natal point in degrees
+ * @param aspectAngle - Angle of the aspect in degrees
+ * @param maxOrb - Orb of the aspect in degrees
+ * @param startDate - First day of the window (YYYY-MM-DD)
+ * @param endDate - Last day of the window (YYYY-MM-DD)
+ * @returns One entry per day with a position, days between passes that are out of orb have intensity 0
+ */
+export function calculateTransitDays(
+    positions: { date: string; longitude: number }[],
+    transitPlanet: string,
+    natalLongitude: number,
+    aspectAngle: number,
+    maxOrb: number,
+    startDate: string,
+    endDate: string
+): TransitDay[] {
+    const weight = getBodyByName(transitPlanet)?.transitWeight ?? DEFAULT_TRANSIT_WEIGHT;
+
+    const days: TransitDay[] = [];
+    let closestOrb = Infinity;  // Unrounded orb of the sample kept for the last day
+    for (let index = findFirstIndex(positions, startDate); index < positions.length; index++) {
+        const position = positions[index];
+        const date = position.date.split('T')[0];
+        if (date > endDate) break;
+
+        const orb = Math.abs(getDeviation(position.longitude, natalLongitude, aspectAngle));
+
+        // Compare with the next sample (the previous one at the end of the series)
+        const neighbour = positions[index + 1] ?? positions[index - 1];
+        const neighbourOrb = neighbour
+            ? Math.abs(getDeviation(neighbour.longitude, natalLongitude, aspectAngle))
+            : orb;
+        const closing = neighbour === positions[index + 1] ? neighbourOrb < orb : neighbourOrb > orb;
+
+        // Rounded to keep the stored events compact
+        const day: TransitDay = {
+            date,
+            orb: Math.round(orb * 100) / 100,
+            phase: closing ? 'applying' : 'separating',
+            intensity: Math.round(weight * getOrbFalloff(orb, maxOrb) * 1000) / 1000,
+        };
+
+        // Sub-daily positions keep the closest sample of each day (compared before rounding)
+        const previous = days[days.length - 1];
+        if (previous?.date !== date) {
+            days.push(day);
+            closestOrb = orb;
+        } else if (orb < closestOrb) {
+            days[days.length - 1] = day;
+            closestOrb = orb;
+        }
+    }
+    return days;
+}
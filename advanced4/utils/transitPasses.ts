@@ -0,0 +1,68 @@
+/**
+ * Multi-pass transit module for grouping the orb windows of a transit.
+ *
+ * Around a retrograde a slow planet can form the same aspect to a natal point up to
+ * three times (direct, retrograde, direct again). Depending on the orb the planet
+ * may leave the orb between the hits or stay inside it. Orb windows separated by a
+ * station of the transit planet belong to the same transit and are grouped, and each
+ * exact hit becomes a numbered pass of the group.
+ */
+
+import {StationEvent, TransitPass} from '../types';
+import {AspectTiming} from './aspectTiming';
+
+/**
+ * Contiguous run of days during which an aspect is within its orb
+ */
+export interface TransitWindow {
+    startDate: string;     // First sample inside the orb (YYYY-MM-DD, ISO time for sub-daily samples)
+    endDate: string;       // Last sample inside the orb
+    timing: AspectTiming;  // Refined timing of the window
+}
+
+/**
+ * Groups consecutive orb windows of one transit aspect into multi-pass transits.
+ * A window continues the previous group when the transit planet stations in the gap between them.
+ * @param windows - Orb windows in date order
+ * @param stations - Stations of the transit planet in the scanned range
+ * @returns Groups of windows in date order
+ */
+export function groupTransitWindows(windows: TransitWindow[], stations: StationEvent[]): TransitWindow[][] {
+    const groups: TransitWindow[][] = [];
+    for (const window of windows) {
+        const group = groups[groups.length - 1];
+        const previous = group?.[group.length - 1];
+        const stationsInGap = previous && stations.some(station => {
+            const day = station.date.split('T')[0];
+            return day >= previous.endDate && day <= window.startDate;
+        });
+
+        if (stationsInGap) {
+            group.push(window);
+        } else {
+            groups.push([window]);
+        }
+    }
+    return groups;
+}
+
+/**
+ * Numbers the exact hits of a group of windows as passes
+ * @param group - Orb windows of one transit
+ */
+export function toTransitPasses(group: TransitWindow[]): TransitPass[] {
+    const passes: TransitPass[] = [];
+    for (const window of group) {
+        for (const hit of window.timing.hits) {
+            passes.push({
+                number: passes.length + 1,
+                exactDate: hit.time,
+                perfects: hit.perfects,
+                retrograde: hit.retrograde,
+                enterOrbDate: window.timing.enterOrb ?? undefined,
+                leaveOrbDate: window.timing.leaveOrb ?? undefined,
+            });
+        }
+    }
+    return passes;
+}
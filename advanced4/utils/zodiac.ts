@@ -0,0 +1,105 @@
+/**
+ * Zodiac module for tropical and sidereal sign assignment.
+ *
+ * Ecliptic longitudes from the ephemeris are tropical (measured from the equinox
+ * of date). Sidereal zodiacs subtract a date-dependent ayanamsa, defined here by
+ * its value at a reference epoch and advanced with the general precession in
+ * longitude (same rate as the local ephemeris). Reference values follow the
+ * Swiss Ephemeris definitions of each ayanamsa.
+ *
+ * The selected zodiac is an app-wide setting persisted in AsyncStorage.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {ZodiacType} from '../types';
+
+const J2000 = 2451545.0;
+
+// Storage key of the selected zodiac
+const ZODIAC_STORAGE_KEY = 'zodiacType';
+
+// Display names of the supported zodiacs
+export const zodiacNames: { [zodiac in ZodiacType]: string } = {
+    tropical: 'Tropical',
+    lahiri: 'Sidereal (Lahiri)',
+    faganBradley: 'Sidereal (Fagan-Bradley)',
+    raman: 'Sidereal (Raman)',
+    krishnamurti: 'Sidereal (Krishnamurti)',
+};
+
+// Ayanamsa reference epochs (Julian Day) and values at the epoch (degrees)
+const ayanamsaEpochs: { [zodiac in Exclude<ZodiacType, 'tropical'>]: { julianDay: number; value: number } } = {
+    lahiri: {julianDay: 2435553.5, value: 23.245524743},
+    faganBradley: {julianDay: 2433282.42346, value: 24.042044444},
+    raman: {julianDay: 2415020.0, value: 21.014444444},
+    krishnamurti: {julianDay: 2415020.0, value: 22.363888889},
+};
+
+/**
+ * General precession in longitude since J2000, in degrees.
+ */
+function precessionInLongitude(julianDay: number): number {
+    const T = (julianDay - J2000) / 36525;
+    return (5029.0966 * T + 1.11113 * T * T) / 3600;
+}
+
+/**
+ * Returns the ayanamsa (degrees) of a zodiac for a date; 0 for the tropical zodiac.
+ * @param zodiac - Zodiac type
+ * @param date - Date of the position
+ */
+export function getAyanamsa(zodiac: ZodiacType, date: Date): number {
+    if (zodiac === 'tropical') return 0;
+    const epoch = ayanamsaEpochs[zodiac];
+    const julianDay = date.getTime() / 86400000 + 2440587.5;
+    return epoch.value + precessionInLongitude(julianDay) - precessionInLongitude(epoch.julianDay);
+}
+
+/**
+ * Converts a tropical ecliptic longitude to the given zodiac.
+ * @param tropicalLongitude - Tropical ecliptic longitude in degrees
+ * @param date - Date of the position
+ * @param zodiac - Zodiac type
+ * @returns Longitude in the zodiac (0-360)
+ */
+export function toZodiacLongitude(tropicalLongitude: number, date: Date, zodiac: ZodiacType): number {
+    const result = (tropicalLongitude - getAyanamsa(zodiac, date)) % 360;
+    return result < 0 ? result + 360 : result;
+}
+
+// Zodiac currently selected in the app
+let activeZodiac: ZodiacType = 'tropical';
+
+/**
+ * Returns the zodiac currently selected in the app
+ */
+export function getZodiacSetting(): ZodiacType {
+    return activeZodiac;
+}
+
+/**
+ * Loads the selected zodiac from AsyncStorage and makes it active
+ */
+export async function loadZodiacSetting(): Promise<ZodiacType> {
+    try {
+        const saved = await AsyncStorage.getItem(ZODIAC_STORAGE_KEY);
+        if (saved && saved in zodiacNames) {
+            activeZodiac = saved as ZodiacType;
+        }
+    } catch (error) {
+        console.error('[Zodiac] Error loading zodiac setting:', error);
+    }
+    return activeZodiac;
+}
+
+/**
+ * Makes a zodiac active and saves it to AsyncStorage
+ */
+export async function saveZodiacSetting(zodiac: ZodiacType): Promise<void> {
+    activeZodiac = zodiac;
+    try {
+        await AsyncStorage.setItem(ZODIAC_STORAGE_KEY, zodiac);
+    } catch (error) {
+        console.error('[Zodiac] Error saving zodiac setting:', error);
+    }
+}